@@ -1,47 +1,99 @@
 // ============= WXT BACKGROUND SCRIPT =============
 // Service worker para manejar llamadas de API desde content scripts
-// Migrado desde background.js sin cambios en la funcionalidad
+// Owns the shared price cache: scheduled refresh, storage and tab broadcast
+// Content scripts and extension pages talk to it through the typed RPC registry
+// Schedules energy full/waste notifications and the icon badge from the stored horse data
+// Forwards keyboard shortcut commands to the active game tab
 
 import { defineBackground } from '#imports';
-interface ChromeMessage {
-  action: string;
-  url: string;
-  timeout?: number;
-}
+import { CONFIG, debugLog } from '../src/content/config';
+import { getEnergyNotificationSettingsStorageItem, getHorseAnalysisDataStorageItem, loadPriceAlertRules } from '../src/content/storage';
+import { createRpcError } from '../src/shared/rpc';
+import { getPriceCache, refreshPriceCache, schedulePriceRefresh } from '../src/background/price-cache';
+import { registerRpcHandler, startRpcListener, validateNoParams } from '../src/background/rpc-registry';
+import { checkEnergyNotifications, handleEnergyNotificationButton, scheduleEnergyNotifications } from '../src/background/energy-notifications';
+import { updateActionBadge } from '../src/background/action-badge';
+import { forwardCommand, listCommandShortcuts } from '../src/background/commands';
 
-interface ChromeResponse {
-  data?: any;
-  error?: string;
+/**
+ * Reports price fetch failures as UPSTREAM_FAILED
+ * @param request - Pending price cache request
+ * @returns The price cache
+ * @throws {RpcError} UPSTREAM_FAILED if every provider failed
+ */
+async function withUpstreamErrors<T>(request: Promise<T>): Promise<T> {
+  try {
+    return await request;
+  } catch (error) {
+    throw createRpcError('UPSTREAM_FAILED', error instanceof Error ? error.message : String(error));
+  }
 }
 
 export default defineBackground(() => {
-  chrome.runtime.onMessage.addListener((
-    msg: ChromeMessage, 
-    sender: chrome.runtime.MessageSender, 
-    sendResponse: (response: ChromeResponse) => void
-  ): boolean => {
-    if (msg.action === 'getPHPrice') {
-      // Configure timeout for request 
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        controller.abort();
-      }, msg.timeout || 10000);
-
-      fetch(msg.url, { signal: controller.signal })
-        .then(res => {
-          clearTimeout(timeoutId);
-          if (!res.ok) throw new Error(`HTTP ${res.status}`);
-          return res.json();
-        })
-        .then((data: any) => {
-          sendResponse({ data });
-        })
-        .catch((err: Error) => {
-          clearTimeout(timeoutId);
-          sendResponse({ error: 'Connection failed' });
-        });
-      return true; // async response
+  schedulePriceRefresh().catch((err: Error) => {
+    debugLog('Error scheduling price refresh:', err);
+  });
+
+  scheduleEnergyNotifications().catch((err: Error) => {
+    debugLog('Error scheduling energy notifications:', err);
+  });
+
+  updateActionBadge().catch((err: Error) => {
+    debugLog('Error updating action badge:', err);
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm: chrome.alarms.Alarm) => {
+    if (alarm.name === CONFIG.ACTION_BADGE.ALARM_NAME) {
+      updateActionBadge().catch((err: Error) => {
+        debugLog('Action badge update failed:', err);
+      });
+      return;
+    }
+
+    if (alarm.name === CONFIG.ENERGY_NOTIFICATIONS.ALARM_NAME) {
+      checkEnergyNotifications().catch((err: Error) => {
+        debugLog('Energy notification check failed:', err);
+      });
+      return;
     }
-    return false;
+
+    if (alarm.name !== CONFIG.PRICE_CACHE.ALARM_NAME) return;
+
+    refreshPriceCache().catch((err: Error) => {
+      debugLog('Scheduled price refresh failed:', err);
+    });
   });
-});
\ No newline at end of file
+
+  // Turning notifications on/off or changing the lead time moves the alarm
+  getEnergyNotificationSettingsStorageItem().watch(() => {
+    scheduleEnergyNotifications().catch((err: Error) => {
+      debugLog('Error rescheduling energy notifications:', err);
+    });
+  });
+
+  // New horse data from a game tab
+  getHorseAnalysisDataStorageItem().watch(() => {
+    updateActionBadge().catch((err: Error) => {
+      debugLog('Error updating action badge:', err);
+    });
+  });
+
+  chrome.notifications.onButtonClicked.addListener((notificationId: string, buttonIndex: number) => {
+    handleEnergyNotificationButton(notificationId, buttonIndex).catch((err: Error) => {
+      debugLog('Error handling energy notification button:', err);
+    });
+  });
+
+  registerRpcHandler('prices.get', { validateParams: validateNoParams, handle: () => withUpstreamErrors(getPriceCache()) });
+  registerRpcHandler('prices.refresh', { validateParams: validateNoParams, handle: () => withUpstreamErrors(refreshPriceCache()) });
+  registerRpcHandler('alerts.list', { validateParams: validateNoParams, handle: () => loadPriceAlertRules() });
+  registerRpcHandler('commands.list', { validateParams: validateNoParams, handle: () => listCommandShortcuts() });
+
+  chrome.commands.onCommand.addListener((command: string, tab?: chrome.tabs.Tab) => {
+    forwardCommand(command, tab).catch((err: Error) => {
+      debugLog('Error forwarding command:', err);
+    });
+  });
+
+  startRpcListener();
+});
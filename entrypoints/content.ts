@@ -9,6 +9,7 @@ import '../src/content/styles/grid.css';
 import '../src/content/styles/modal.css';
 import '../src/content/styles/marketplace.css';
 import '../src/content/styles/tooltip.css';
+import '../src/content/styles/inline-annotations.css';
 
 export default defineContentScript({
   matches: ['*://planethorse.io/*'],
@@ -0,0 +1,13 @@
+// ============= WXT OPTIONS PAGE ENTRY POINT =============
+// Full-page settings - all logic lives in src/options/
+
+import '../../src/content/styles/modal.css';
+import '../../src/options/options.css';
+import { renderOptionsPage } from '../../src/options/options';
+
+const root = document.getElementById('app');
+if (root) {
+  renderOptionsPage(root).catch((error: Error) => {
+    root.textContent = `Could not load settings: ${error.message}`;
+  });
+}
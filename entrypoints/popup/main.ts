@@ -0,0 +1,12 @@
+// ============= WXT POPUP ENTRY POINT =============
+// Toolbar popup page - all logic lives in src/popup/
+
+import '../../src/popup/popup.css';
+import { renderPopup } from '../../src/popup/popup';
+
+const root = document.getElementById('app');
+if (root) {
+  renderPopup(root).catch((error: Error) => {
+    root.textContent = `Could not load summary: ${error.message}`;
+  });
+}
@@ -0,0 +1,56 @@
+// ============= ACTION BADGE MODULE =============
+// Single Responsibility: Show on the toolbar icon how many horses should race soon
+
+import { CONFIG, debugLog } from '../content/config';
+import { loadHorseAnalysisData } from '../content/storage';
+import { findActionableHorses, getNextEnergyRecharge, type ActionableHorse, type HorseUrgency } from '../content/utils/energy-status';
+
+// Icon title without actionable horses (same as the popup's manifest.default_title)
+const DEFAULT_TITLE = 'PlanetHorse+';
+
+// Title line per urgency, most urgent first
+const URGENCY_LABELS: Record<HorseUrgency, string> = {
+  full: 'Energy full',
+  wasting: 'Will waste energy',
+  ready: 'Ready to race'
+};
+
+/**
+ * Builds the icon title listing the affected horses by urgency
+ * @param horses - Actionable horses, most urgent first
+ * @returns Title such as "PlanetHorse+\nEnergy full: Thunder, Blaze\nReady to race: Comet"
+ */
+function buildBadgeTitle(horses: ActionableHorse[]): string {
+  const lines = [DEFAULT_TITLE];
+
+  (Object.keys(URGENCY_LABELS) as HorseUrgency[]).forEach(urgency => {
+    const names = horses.filter(horse => horse.urgency === urgency).map(horse => horse.name);
+    if (names.length > 0) {
+      lines.push(`${URGENCY_LABELS[urgency]}: ${names.join(', ')}`);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Updates the badge count, color and title from the stored horse data
+ * Energy changes at every recharge, so the next update is scheduled right after it
+ */
+export async function updateActionBadge(): Promise<void> {
+  const now = Date.now();
+  const analysis = await loadHorseAnalysisData();
+  const horses = analysis
+    ? findActionableHorses(analysis.horses, new Date(analysis.timestamp).getTime(), now)
+    : [];
+
+  await chrome.action.setBadgeText({ text: horses.length > 0 ? String(horses.length) : '' });
+  if (horses.length > 0) {
+    // Sorted most urgent first
+    await chrome.action.setBadgeBackgroundColor({ color: CONFIG.ACTION_BADGE.COLORS[horses[0].urgency] });
+  }
+  await chrome.action.setTitle({ title: buildBadgeTitle(horses) });
+
+  await chrome.alarms.create(CONFIG.ACTION_BADGE.ALARM_NAME, { when: getNextEnergyRecharge(now) + 1000 });
+  debugLog(`Action badge updated: ${horses.length} actionable horses`);
+}
@@ -0,0 +1,39 @@
+// ============= COMMANDS MODULE =============
+// Single Responsibility: Forward keyboard shortcut commands to the active game tab
+
+import { CONFIG, debugLog } from '../content/config';
+import { isHotkeyAction, type HotkeyAction } from '../content/utils/hotkeys';
+import { createRpcEvent } from '../shared/rpc';
+
+/**
+ * Lists the shortcut configured for each command, so game tabs can match them in-page
+ * @returns Shortcut per command, '' for commands without one
+ */
+export async function listCommandShortcuts(): Promise<Partial<Record<HotkeyAction, string>>> {
+  const commands = await chrome.commands.getAll();
+  const shortcuts: Partial<Record<HotkeyAction, string>> = {};
+
+  commands.forEach(command => {
+    if (command.name && isHotkeyAction(command.name)) {
+      shortcuts[command.name] = command.shortcut || '';
+    }
+  });
+
+  return shortcuts;
+}
+
+/**
+ * Sends a command to the active tab if it is a game tab
+ * @param command - Command name from the manifest
+ * @param tab - Tab that was active when the shortcut was pressed
+ */
+export async function forwardCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+  if (!isHotkeyAction(command)) return;
+
+  const [activeTab] = tab ? [tab] : await chrome.tabs.query({ active: true, currentWindow: true, url: CONFIG.GAME_URL_PATTERN });
+  if (activeTab?.id === undefined) return;
+
+  // Other sites have no content script - the message is simply not received
+  chrome.tabs.sendMessage(activeTab.id, createRpcEvent('commands.triggered', command)).catch(() => {});
+  debugLog(`Command ${command} forwarded to tab ${activeTab.id}`);
+}
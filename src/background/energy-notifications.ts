@@ -0,0 +1,121 @@
+// ============= ENERGY NOTIFICATIONS MODULE =============
+// Single Responsibility: Warn before a recharge that would waste horse energy, from stored
+// horse data so it works with the game closed
+
+import { CONFIG, debugLog } from '../content/config';
+import { loadEnergyNotificationSettings, loadEnergyNotifiedRecharge, loadHorseAnalysisData, saveEnergyNotificationSettings, saveEnergyNotifiedRecharge } from '../content/storage';
+import { getNextEnergyRecharge } from '../content/utils/energy-status';
+import { describeEnergyWasteWarning, findEnergyWasteWarnings, getEnergyNotificationTime, type EnergyWasteWarning } from '../content/utils/energy-notifications';
+
+// Notification ids: per-horse ones carry the horse id for the mute button
+const HORSE_NOTIFICATION_PREFIX = 'phorse-energy-horse-';
+const SUMMARY_NOTIFICATION_PREFIX = 'phorse-energy-summary-';
+
+/**
+ * Shows one notification for a wasting horse, with a button to mute it
+ * @param warning - The horse's warning
+ * @param now - Reference time in epoch milliseconds
+ */
+async function notifyHorse(warning: EnergyWasteWarning, now: number): Promise<void> {
+  await chrome.notifications.create(`${HORSE_NOTIFICATION_PREFIX}${warning.horseId}-${warning.rechargeAt}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL(CONFIG.PRICE_ALERTS.NOTIFICATION_ICON),
+    title: `${warning.full ? 'Energy full' : 'Energy waste'}: ${warning.horseName}`,
+    message: describeEnergyWasteWarning(warning, now),
+    buttons: [{ title: 'Mute this horse' }]
+  });
+}
+
+/**
+ * Shows a single list notification when many horses are wasting energy
+ * @param warnings - Every warning for the recharge, most waste first
+ * @param now - Reference time in epoch milliseconds
+ */
+async function notifySummary(warnings: EnergyWasteWarning[], now: number): Promise<void> {
+  await chrome.notifications.create(`${SUMMARY_NOTIFICATION_PREFIX}${warnings[0].rechargeAt}`, {
+    type: 'list',
+    iconUrl: chrome.runtime.getURL(CONFIG.PRICE_ALERTS.NOTIFICATION_ICON),
+    title: `${warnings.length} horses will waste energy`,
+    message: describeEnergyWasteWarning(warnings[0], now),
+    items: warnings.map(warning => ({
+      title: `#${warning.horseId} ${warning.horseName}`,
+      message: `${warning.full ? 'full, ' : ''}wastes ${warning.waste}`
+    }))
+  });
+}
+
+/**
+ * Schedules the alarm for the next recharge that has not been checked yet
+ * Clears it when energy notifications are turned off
+ */
+export async function scheduleEnergyNotifications(): Promise<void> {
+  const settings = await loadEnergyNotificationSettings();
+  if (!settings.enabled) {
+    await chrome.alarms.clear(CONFIG.ENERGY_NOTIFICATIONS.ALARM_NAME);
+    return;
+  }
+
+  const now = Date.now();
+  const notifiedRecharge = await loadEnergyNotifiedRecharge();
+  let rechargeAt = getNextEnergyRecharge(now);
+  if (notifiedRecharge >= rechargeAt) {
+    rechargeAt = getNextEnergyRecharge(rechargeAt);
+  }
+
+  // Inside the lead window already - check right away
+  const when = Math.max(getEnergyNotificationTime(rechargeAt, settings.leadMinutes), now);
+  await chrome.alarms.create(CONFIG.ENERGY_NOTIFICATIONS.ALARM_NAME, { when });
+  debugLog(`Energy notifications scheduled for ${new Date(when).toISOString()}`);
+}
+
+/**
+ * Notifies about horses that will waste energy at the upcoming recharge, then
+ * schedules the check for the following one
+ * Each recharge is checked once, even if the alarm fires again
+ */
+export async function checkEnergyNotifications(): Promise<void> {
+  const now = Date.now();
+  const rechargeAt = getNextEnergyRecharge(now);
+  const [settings, notifiedRecharge, analysis] = await Promise.all([
+    loadEnergyNotificationSettings(),
+    loadEnergyNotifiedRecharge(),
+    loadHorseAnalysisData()
+  ]);
+
+  if (settings.enabled && analysis && notifiedRecharge < rechargeAt) {
+    const warnings = findEnergyWasteWarnings(analysis, settings, now);
+
+    if (warnings.length > CONFIG.ENERGY_NOTIFICATIONS.MAX_SEPARATE_NOTIFICATIONS) {
+      await notifySummary(warnings, now);
+    } else {
+      for (const warning of warnings) {
+        await notifyHorse(warning, now);
+      }
+    }
+
+    await saveEnergyNotifiedRecharge(rechargeAt);
+    debugLog(`Energy notifications: ${warnings.length} horses will waste energy`);
+  }
+
+  await scheduleEnergyNotifications();
+}
+
+/**
+ * Handles a click on a notification button - mutes the horse of a per-horse notification
+ * @param notificationId - Id of the notification
+ * @param buttonIndex - Index of the clicked button
+ */
+export async function handleEnergyNotificationButton(notificationId: string, buttonIndex: number): Promise<void> {
+  if (!notificationId.startsWith(HORSE_NOTIFICATION_PREFIX) || buttonIndex !== 0) return;
+
+  const horseId = parseInt(notificationId.slice(HORSE_NOTIFICATION_PREFIX.length), 10);
+  if (!Number.isFinite(horseId)) return;
+
+  const settings = await loadEnergyNotificationSettings();
+  if (!settings.mutedHorseIds.includes(horseId)) {
+    await saveEnergyNotificationSettings({ ...settings, mutedHorseIds: [...settings.mutedHorseIds, horseId] });
+    debugLog(`Energy notifications muted for horse ${horseId}`);
+  }
+
+  await chrome.notifications.clear(notificationId);
+}
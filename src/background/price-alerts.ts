@@ -0,0 +1,65 @@
+// ============= PRICE ALERTS MODULE =============
+// Single Responsibility: Evaluate user price alert rules after each refresh and notify
+
+import { CONFIG, debugLog } from '../content/config';
+import { loadPriceAlertRules, loadPriceAlertState, loadPriceHistory, savePriceAlertState, type StoredPriceCache } from '../content/storage';
+import { syncRateOverrides } from '../content/utils/rate-overrides';
+import { syncNumberFormatSettings } from '../content/utils/number-format';
+import { describePriceAlertRule, evaluatePriceAlertRule, isPriceAlertCoolingDown, type PriceAlertRule } from '../content/utils/price-alerts';
+
+/**
+ * Shows a browser notification for a triggered rule
+ * @param rule - The rule that fired
+ * @param message - Current value text from the evaluation
+ */
+async function notifyPriceAlert(rule: PriceAlertRule, message: string): Promise<void> {
+  await chrome.notifications.create(`phorse-price-alert-${rule.id}-${Date.now()}`, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL(CONFIG.PRICE_ALERTS.NOTIFICATION_ICON),
+    title: `Price alert: ${describePriceAlertRule(rule)}`,
+    message
+  });
+}
+
+/**
+ * Checks every enabled alert rule against a freshly stored price cache
+ * Rules that fire are notified at most once per CONFIG.PRICE_ALERTS.COOLDOWN_MINUTES
+ * @param cache - The price cache from the refresh that just completed
+ */
+export async function checkPriceAlerts(cache: StoredPriceCache): Promise<void> {
+  const allRules = await loadPriceAlertRules();
+  const rules = allRules.filter(rule => rule.enabled);
+  if (rules.length === 0) return;
+
+  const [history, state] = await Promise.all([loadPriceHistory(), loadPriceAlertState(), syncRateOverrides(), syncNumberFormatSettings()]);
+  const now = cache.fetchedAt;
+  let stateChanged = false;
+
+  for (const rule of rules) {
+    try {
+      const { triggered, message } = evaluatePriceAlertRule(rule, cache.rates, history, now);
+      if (!triggered || isPriceAlertCoolingDown(state[rule.id], now)) continue;
+
+      await notifyPriceAlert(rule, message);
+      state[rule.id] = now;
+      stateChanged = true;
+      debugLog(`Price alert fired: ${describePriceAlertRule(rule)} (${message})`);
+    } catch (error) {
+      // Missing rate for this rule's conversion - try again next refresh
+      debugLog(`Price alert ${rule.id} could not be evaluated:`, error);
+    }
+  }
+
+  // Forget trigger times of deleted rules
+  const ruleIds = new Set(allRules.map(rule => rule.id));
+  Object.keys(state).forEach(id => {
+    if (!ruleIds.has(id)) {
+      delete state[id];
+      stateChanged = true;
+    }
+  });
+
+  if (stateChanged) {
+    await savePriceAlertState(state);
+  }
+}
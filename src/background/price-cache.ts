@@ -0,0 +1,164 @@
+// ============= PRICE CACHE MODULE =============
+// Single Responsibility: Own the shared token price cache in the background service worker
+
+import { CONFIG, debugLog, getAllTokens } from '../content/config';
+import { loadPriceCache, savePriceCache, loadPriceHistory, savePriceHistory, type StoredPriceCache } from '../content/storage';
+import { appendPricePoint } from '../content/utils/price-history';
+import { syncCustomTokens } from '../content/utils/custom-tokens';
+import { createRpcEvent } from '../shared/rpc';
+import { checkPriceAlerts } from './price-alerts';
+import { fetchRatesWithFallback, getConfiguredProviders, type AggregatedRates, type RateRequest } from './providers';
+
+// Shared promise so concurrent callers trigger a single API request
+let inFlightRefresh: Promise<StoredPriceCache> | null = null;
+
+/**
+ * Gets all token addresses needed for API request
+ * @returns Array of token addresses
+ */
+function getAllTokenAddresses(): string[] {
+  const addresses = [CONFIG.PHORSE_ADDRESS]; // PHORSE token
+
+  // Add all built-in and user-defined token addresses
+  Object.values(getAllTokens()).forEach(token => {
+    if (token.address && !addresses.includes(token.address)) {
+      addresses.push(token.address);
+    }
+  });
+
+  return addresses;
+}
+
+/**
+ * Builds the rate request for every configured token and fiat currency
+ * @returns Rate request for the price providers
+ */
+function buildRateRequest(): RateRequest {
+  return {
+    addresses: getAllTokenAddresses(),
+    currencies: Object.keys(CONFIG.CONVERSION_TYPES.fiat)
+  };
+}
+
+/**
+ * Fetches all token prices through the configured provider chain
+ * @returns Normalized rates and the providers that supplied them
+ * @throws {Error} If no provider returned usable data
+ */
+async function fetchPriceData(): Promise<AggregatedRates> {
+  // Pick up tokens added or removed in settings since the last refresh
+  await syncCustomTokens();
+  return fetchRatesWithFallback(getConfiguredProviders(), buildRateRequest());
+}
+
+/**
+ * Checks whether a cache entry is still within its TTL
+ * @param cache - Cached price data
+ * @param now - Current time in epoch milliseconds
+ * @returns true if cache is younger than CONFIG.PRICE_CACHE.TTL_MS
+ */
+export function isPriceCacheFresh(cache: StoredPriceCache, now: number = Date.now()): boolean {
+  return now - cache.fetchedAt < CONFIG.PRICE_CACHE.TTL_MS;
+}
+
+/**
+ * Appends a successful fetch to the downsampled price history
+ * @param cache - Freshly stored price cache
+ */
+async function recordPriceHistory(cache: StoredPriceCache): Promise<void> {
+  const history = await loadPriceHistory();
+  await savePriceHistory(appendPricePoint(history, cache.rates, cache.fetchedAt));
+}
+
+/**
+ * Pushes the latest price cache to every open planethorse.io tab
+ * @param cache - Freshly stored price cache
+ */
+async function broadcastPriceCache(cache: StoredPriceCache): Promise<void> {
+  const tabs = await chrome.tabs.query({ url: CONFIG.GAME_URL_PATTERN });
+  const message = createRpcEvent('prices.updated', cache);
+
+  tabs.forEach(tab => {
+    if (tab.id === undefined) return;
+    // Tabs still loading have no content script yet - they read storage on init
+    chrome.tabs.sendMessage(tab.id, message).catch(() => {});
+  });
+
+  debugLog(`Price cache broadcast to ${tabs.length} tab(s)`);
+}
+
+/**
+ * Fetches prices, stores them with a timestamp and notifies open game tabs
+ * @returns The newly stored price cache
+ * @throws {Error} If the API request fails
+ */
+export async function refreshPriceCache(): Promise<StoredPriceCache> {
+  if (inFlightRefresh) {
+    return inFlightRefresh;
+  }
+
+  inFlightRefresh = (async () => {
+    const { rates, sources } = await fetchPriceData();
+    const cache: StoredPriceCache = { rates, fetchedAt: Date.now(), sources };
+
+    await savePriceCache(cache);
+    debugLog('Price cache refreshed at', new Date(cache.fetchedAt).toISOString(), 'from', sources.join(', '));
+
+    // Record before broadcasting so tabs reading history see this point
+    await recordPriceHistory(cache);
+
+    await broadcastPriceCache(cache);
+
+    // Alert failures must not fail the refresh itself
+    await checkPriceAlerts(cache).catch((error: Error) => {
+      debugLog('Price alert check failed:', error);
+    });
+    return cache;
+  })();
+
+  try {
+    return await inFlightRefresh;
+  } finally {
+    inFlightRefresh = null;
+  }
+}
+
+/**
+ * Gets the shared price cache, refreshing it first when missing or expired
+ * Serves the last known (stale) cache when the refresh fails
+ * @returns Fresh price cache, or the stale one if the API is unreachable
+ * @throws {Error} If nothing was ever cached and the refresh fails
+ */
+export async function getPriceCache(): Promise<StoredPriceCache> {
+  const cache = await loadPriceCache();
+  if (cache && isPriceCacheFresh(cache)) {
+    return cache;
+  }
+  
+  try {
+    return await refreshPriceCache();
+  } catch (error) {
+    if (!cache) {
+      throw error;
+    }
+    debugLog('Price refresh failed - serving stale cache from', new Date(cache.fetchedAt).toISOString());
+    return cache;
+  }
+}
+
+/**
+ * Ensures the periodic refresh alarm exists
+ * Alarms survive service worker restarts, so this only creates it once
+ */
+export async function schedulePriceRefresh(): Promise<void> {
+  const existing = await chrome.alarms.get(CONFIG.PRICE_CACHE.ALARM_NAME);
+  if (existing) {
+    return;
+  }
+
+  await chrome.alarms.create(CONFIG.PRICE_CACHE.ALARM_NAME, {
+    delayInMinutes: 0,
+    periodInMinutes: CONFIG.PRICE_CACHE.REFRESH_INTERVAL_MINUTES
+  });
+  debugLog(`Price refresh alarm scheduled every ${CONFIG.PRICE_CACHE.REFRESH_INTERVAL_MINUTES} minutes`);
+}
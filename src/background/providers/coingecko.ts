@@ -0,0 +1,40 @@
+/**
+ * CoinGecko token price provider (fallback source)
+ */
+
+import { CONFIG } from '../../content/config';
+import type { PriceData } from '../../content/api';
+import { fetchJson, normalizeRateRow } from './fetch-json';
+import type { PriceProvider, PriceProviderOptions, RateRequest } from './types';
+
+// Raw response: { [address]: { [currency]: number } }
+type CoinGeckoTokenPriceResponse = Record<string, Record<string, unknown>>;
+
+/**
+ * Creates the CoinGecko price provider
+ * CoinGecko doesn't quote every fiat currency (e.g. IRR) - those stay missing
+ * @param options - Optional base URL / timeout overrides
+ * @returns Price provider for Ronin token contracts
+ */
+export function createCoinGeckoProvider(options: PriceProviderOptions = {}): PriceProvider {
+  const baseUrl = options.baseUrl || CONFIG.PRICE_PROVIDERS.COINGECKO_BASE_URL;
+
+  return {
+    id: 'coingecko',
+    name: 'CoinGecko',
+    async fetchRates(request: RateRequest): Promise<PriceData> {
+      const params = `contract_addresses=${request.addresses.join(',')}&vs_currencies=${request.currencies.join(',')}`;
+      const response = await fetchJson<CoinGeckoTokenPriceResponse>(`${baseUrl}?${params}`, options.timeoutMs);
+
+      if (!response || typeof response !== 'object') {
+        throw new Error('Unexpected CoinGecko response shape');
+      }
+
+      const rates: PriceData = {};
+      Object.entries(response).forEach(([address, row]) => {
+        rates[address.toLowerCase()] = normalizeRateRow(row);
+      });
+      return rates;
+    }
+  };
+}
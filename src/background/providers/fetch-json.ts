@@ -0,0 +1,63 @@
+/**
+ * Shared HTTP helper for price providers
+ */
+
+import { CONFIG } from '../../content/config';
+
+/**
+ * Checks that a URL targets a host the background worker may request
+ * @param url - Absolute URL
+ * @returns true if the URL's host is in CONFIG.RPC.ALLOWED_FETCH_HOSTS
+ */
+export function isAllowedFetchUrl(url: string): boolean {
+  try {
+    return CONFIG.RPC.ALLOWED_FETCH_HOSTS.includes(new URL(url).hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Fetches a URL and parses the JSON body with a request timeout
+ * @param url - Absolute URL to request (host must be allowlisted)
+ * @param timeoutMs - Abort the request after this many milliseconds
+ * @returns Parsed JSON body
+ * @throws {Error} On disallowed hosts, timeout, network failures or non-2xx responses
+ */
+export async function fetchJson<T>(url: string, timeoutMs: number = CONFIG.PRICE_CACHE.REQUEST_TIMEOUT_MS): Promise<T> {
+  if (!isAllowedFetchUrl(url)) {
+    throw new Error(`Host not allowed: ${url}`);
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json() as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Copies only finite numeric rates into a normalized rate row
+ * Providers sometimes return null or strings for unsupported currencies
+ * @param source - Raw currency -> value map from an API response
+ * @returns Lowercase currency -> number map
+ */
+export function normalizeRateRow(source: Record<string, unknown> | null | undefined): Record<string, number> {
+  const row: Record<string, number> = {};
+  if (!source) return row;
+
+  Object.entries(source).forEach(([currency, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      row[currency.toLowerCase()] = value;
+    }
+  });
+
+  return row;
+}
@@ -0,0 +1,92 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { CONFIG } from '../../content/config';
+import { fetchRatesWithFallback, getConfiguredProviders, type RateRequest } from './index';
+
+const PHORSE = CONFIG.PHORSE_ADDRESS;
+const RON = '0xe514d9deb7966c8be0ca922de8a064264ea6bcd4';
+
+/**
+ * Stub price API: responses by path, set per test
+ * A route without a response answers 404, a number answers with that HTTP status
+ */
+const routes = new Map<string, unknown>();
+let server: Server;
+let stubUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://stub').pathname;
+    const response = routes.get(path);
+    if (response === undefined || typeof response === 'number') {
+      res.writeHead(typeof response === 'number' ? response : 404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // The background worker only requests allowlisted hosts
+  CONFIG.RPC.ALLOWED_FETCH_HOSTS.push('127.0.0.1');
+});
+
+afterAll(async () => {
+  CONFIG.RPC.ALLOWED_FETCH_HOSTS.splice(CONFIG.RPC.ALLOWED_FETCH_HOSTS.indexOf('127.0.0.1'), 1);
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  routes.clear();
+});
+
+/**
+ * Builds the provider chain against the stub server
+ * @returns SkyMavis first, CoinGecko as fallback
+ */
+function getStubProviders() {
+  return getConfiguredProviders(['skymavis', 'coingecko'], {
+    skymavis: { baseUrl: `${stubUrl}/skymavis` },
+    coingecko: { baseUrl: `${stubUrl}/coingecko` }
+  });
+}
+
+const request: RateRequest = { addresses: [PHORSE, RON], currencies: ['usd', 'ars'] };
+
+describe('fetchRatesWithFallback', () => {
+  it('uses the first provider when it returns every rate', async () => {
+    routes.set('/skymavis', { result: { [PHORSE]: { usd: 0.01, ars: 9 }, [RON]: { usd: 0.5 } } });
+
+    const { rates, sources } = await fetchRatesWithFallback(getStubProviders(), request);
+
+    expect(rates[PHORSE]).toEqual({ usd: 0.01, ars: 9 });
+    expect(sources).toEqual(['skymavis']);
+  });
+
+  it('fills missing rates from the next provider', async () => {
+    routes.set('/skymavis', { result: { [PHORSE.toUpperCase()]: { USD: 0.01, ars: null }, [RON]: { usd: 0.5 } } });
+    routes.set('/coingecko', { [PHORSE]: { ars: 9 } });
+
+    const { rates, sources } = await fetchRatesWithFallback(getStubProviders(), request);
+
+    expect(rates[PHORSE]).toEqual({ usd: 0.01, ars: 9 });
+    expect(sources).toEqual(['skymavis', 'coingecko']);
+  });
+
+  it('falls back when a provider fails', async () => {
+    routes.set('/skymavis', 500);
+    routes.set('/coingecko', { [PHORSE]: { usd: 0.02, ars: 18 }, [RON]: { usd: 0.5 } });
+
+    const { rates, sources } = await fetchRatesWithFallback(getStubProviders(), request);
+
+    expect(rates[PHORSE]).toEqual({ usd: 0.02, ars: 18 });
+    expect(sources).toEqual(['coingecko']);
+  });
+
+  it('fails when no provider returns a PHORSE rate', async () => {
+    routes.set('/skymavis', { unexpected: true });
+
+    await expect(fetchRatesWithFallback(getStubProviders(), request)).rejects.toThrow('No price provider returned a PHORSE rate');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Price provider registry and fallback orchestration
+ * Providers are tried in CONFIG.PRICE_PROVIDERS.ORDER; each later provider only
+ * fills the rates that earlier ones failed to return.
+ */
+
+import { CONFIG, debugLog } from '../../content/config';
+import type { PriceData } from '../../content/api';
+import { createSkyMavisProvider } from './skymavis';
+import { createCoinGeckoProvider } from './coingecko';
+import type { AggregatedRates, PriceProvider, PriceProviderOptions, RateRequest } from './types';
+
+// Provider factories by id - register new sources here
+const PROVIDER_FACTORIES: Record<string, (options?: PriceProviderOptions) => PriceProvider> = {
+  skymavis: createSkyMavisProvider,
+  coingecko: createCoinGeckoProvider
+};
+
+/**
+ * Builds the configured provider chain
+ * @param order - Provider ids to use, first to last (defaults to CONFIG.PRICE_PROVIDERS.ORDER)
+ * @param providerOptions - Options per provider id, e.g. a base URL pointing at a local stub server
+ * @returns Providers in fallback order; unknown ids are skipped
+ * @example
+ * getConfiguredProviders(['skymavis'], { skymavis: { baseUrl: 'http://127.0.0.1:8787/v2/prices' } })
+ */
+export function getConfiguredProviders(
+  order: string[] = CONFIG.PRICE_PROVIDERS.ORDER,
+  providerOptions: Record<string, PriceProviderOptions> = {}
+): PriceProvider[] {
+  const providers: PriceProvider[] = [];
+
+  order.forEach(id => {
+    const factory = PROVIDER_FACTORIES[id];
+    if (factory) {
+      providers.push(factory(providerOptions[id]));
+    } else {
+      debugLog(`Unknown price provider "${id}" - skipping`);
+    }
+  });
+
+  return providers;
+}
+
+/**
+ * Lists the rates still missing from a partial rate table
+ * PHORSE needs every requested currency; other tokens only need USD for the bridge rate
+ * @param rates - Rates collected so far
+ * @param request - The full rate request
+ * @returns Map of token address to missing currency codes (empty when complete)
+ */
+export function findMissingRates(rates: PriceData, request: RateRequest): Map<string, string[]> {
+  const missing = new Map<string, string[]>();
+
+  request.addresses.forEach(address => {
+    const required = address === CONFIG.PHORSE_ADDRESS ? request.currencies : ['usd'];
+    const row = rates[address] || {};
+    const missingCurrencies = required.filter(currency => row[currency] === undefined);
+
+    if (missingCurrencies.length > 0) {
+      missing.set(address, missingCurrencies);
+    }
+  });
+
+  return missing;
+}
+
+/**
+ * Fetches rates from a provider chain, falling back when a provider fails or returns incomplete data
+ * @param providers - Providers in fallback order
+ * @param request - Tokens and currencies to price
+ * @returns Merged rates and the ids of providers that contributed
+ * @throws {Error} If no provider returned a USD rate for PHORSE
+ */
+export async function fetchRatesWithFallback(providers: PriceProvider[], request: RateRequest): Promise<AggregatedRates> {
+  const rates: PriceData = {};
+  const sources: string[] = [];
+
+  for (const provider of providers) {
+    const missing = findMissingRates(rates, request);
+    if (missing.size === 0) break;
+
+    // Only ask for what is still missing
+    const partialRequest: RateRequest = {
+      addresses: Array.from(missing.keys()),
+      currencies: Array.from(new Set(Array.from(missing.values()).flat()))
+    };
+
+    try {
+      const providerRates = await provider.fetchRates(partialRequest);
+      let filled = 0;
+
+      missing.forEach((currencies, address) => {
+        currencies.forEach(currency => {
+          const rate = providerRates[address]?.[currency];
+          if (rate !== undefined) {
+            rates[address] = { ...rates[address], [currency]: rate };
+            filled++;
+          }
+        });
+      });
+
+      if (filled > 0) {
+        sources.push(provider.id);
+      }
+      debugLog(`${provider.name} supplied ${filled} missing rate(s)`);
+    } catch (error) {
+      debugLog(`${provider.name} price provider failed:`, error);
+    }
+  }
+
+  if (rates[CONFIG.PHORSE_ADDRESS]?.usd === undefined) {
+    throw new Error('No price provider returned a PHORSE rate');
+  }
+
+  const stillMissing = findMissingRates(rates, request);
+  if (stillMissing.size > 0) {
+    debugLog('Rates unavailable from every provider:', Object.fromEntries(stillMissing));
+  }
+
+  return { rates, sources };
+}
+
+export type { AggregatedRates, PriceProvider, PriceProviderOptions, RateRequest };
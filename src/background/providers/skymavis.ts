@@ -0,0 +1,41 @@
+/**
+ * SkyMavis exchange-rate provider (Ronin's official price API)
+ */
+
+import { CONFIG } from '../../content/config';
+import type { PriceData } from '../../content/api';
+import { fetchJson, normalizeRateRow } from './fetch-json';
+import type { PriceProvider, PriceProviderOptions, RateRequest } from './types';
+
+// Raw response: { result: { [address]: { [currency]: number } } }
+interface SkyMavisApiResponse {
+  result?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Creates the SkyMavis price provider
+ * @param options - Optional base URL / timeout overrides
+ * @returns Price provider returning every currency SkyMavis supports
+ */
+export function createSkyMavisProvider(options: PriceProviderOptions = {}): PriceProvider {
+  const baseUrl = options.baseUrl || CONFIG.PRICE_PROVIDERS.SKYMAVIS_BASE_URL;
+
+  return {
+    id: 'skymavis',
+    name: 'SkyMavis',
+    async fetchRates(request: RateRequest): Promise<PriceData> {
+      const url = `${baseUrl}?addresses=${request.addresses.join(',')}`;
+      const response = await fetchJson<SkyMavisApiResponse>(url, options.timeoutMs);
+
+      if (!response.result || typeof response.result !== 'object') {
+        throw new Error('Unexpected SkyMavis response shape');
+      }
+
+      const rates: PriceData = {};
+      Object.entries(response.result).forEach(([address, row]) => {
+        rates[address.toLowerCase()] = normalizeRateRow(row);
+      });
+      return rates;
+    }
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Price provider contracts
+ * Every provider normalizes its API response into the shared PriceData rate model
+ */
+
+import type { PriceData } from '../../content/api';
+
+/**
+ * Rates requested from a provider
+ */
+export interface RateRequest {
+  /** Lowercase token addresses to price */
+  addresses: string[];
+  /** Lowercase currency codes (e.g. 'usd', 'ars') */
+  currencies: string[];
+}
+
+/**
+ * A source of token prices
+ */
+export interface PriceProvider {
+  /** Stable identifier used in CONFIG.PRICE_PROVIDERS.ORDER and stored with the cache */
+  id: string;
+  /** Human readable name for logs */
+  name: string;
+  /**
+   * Fetches rates for the requested tokens and currencies
+   * May return a partial table - missing rates are filled by the next provider
+   * @throws {Error} On network, HTTP or response-shape errors
+   */
+  fetchRates(request: RateRequest): Promise<PriceData>;
+}
+
+/**
+ * Options shared by provider factories
+ */
+export interface PriceProviderOptions {
+  /** Override the API base URL (e.g. to point at a local stub server - its host must be in CONFIG.RPC.ALLOWED_FETCH_HOSTS) */
+  baseUrl?: string;
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Result of a fallback fetch across several providers
+ */
+export interface AggregatedRates {
+  rates: PriceData;
+  /** Ids of the providers that contributed at least one rate */
+  sources: string[];
+}
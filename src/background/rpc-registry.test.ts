@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { RPC_VERSION, createRpcError } from '../shared/rpc';
+import { dispatchRpcRequest, registerRpcHandler, validateNoParams } from './rpc-registry';
+
+const GAME_SENDER: chrome.runtime.MessageSender = { id: chrome.runtime.id, url: 'https://planethorse.io/game' };
+
+const listAlerts = vi.fn(() => []);
+
+beforeAll(() => {
+  registerRpcHandler('alerts.list', { validateParams: validateNoParams, handle: listAlerts });
+  registerRpcHandler('prices.refresh', {
+    validateParams: validateNoParams,
+    handle: () => {
+      throw createRpcError('UPSTREAM_FAILED', 'No price provider returned a PHORSE rate');
+    }
+  });
+  registerRpcHandler('prices.get', {
+    validateParams: validateNoParams,
+    handle: () => {
+      throw new Error('Storage unavailable');
+    }
+  });
+});
+
+describe('dispatchRpcRequest', () => {
+  it('runs the handler for a game content script', async () => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'alerts.list' }, GAME_SENDER);
+
+    expect(response).toEqual({ ok: true, result: [] });
+  });
+
+  it('accepts extension pages', async () => {
+    const sender = { id: chrome.runtime.id, url: chrome.runtime.getURL('/popup.html') };
+
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'alerts.list' }, sender);
+
+    expect(response.ok).toBe(true);
+  });
+
+  it.each([
+    ['a foreign origin', { id: chrome.runtime.id, url: 'https://evil.example/game' }],
+    ['a host that only starts with the game host', { id: chrome.runtime.id, url: 'https://planethorse.io.evil.example/' }],
+    ['another extension', { id: 'other-extension-id', url: 'https://planethorse.io/game' }],
+    ['a sender without a URL', { id: chrome.runtime.id }]
+  ])('rejects %s', async (_, sender) => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'alerts.list' }, sender);
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'FORBIDDEN' } });
+  });
+
+  it.each(['prices.delete', 'toString', 42])('rejects the unknown method %s', async method => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method }, GAME_SENDER);
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'UNKNOWN_METHOD' } });
+  });
+
+  it('rejects params the handler does not accept without running it', async () => {
+    listAlerts.mockClear();
+
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'alerts.list', params: { url: 'https://evil.example' } }, GAME_SENDER);
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'INVALID_PARAMS' } });
+    expect(listAlerts).not.toHaveBeenCalled();
+  });
+
+  it('rejects another RPC version before checking the sender', async () => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION + 1, method: 'alerts.list' }, { id: 'other-extension-id' });
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'UNSUPPORTED_VERSION' } });
+  });
+
+  it('keeps the code of an RPC error thrown by the handler', async () => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'prices.refresh' }, GAME_SENDER);
+
+    expect(response).toEqual({ ok: false, error: { code: 'UPSTREAM_FAILED', message: 'No price provider returned a PHORSE rate' } });
+  });
+
+  it('reports other handler errors as INTERNAL', async () => {
+    const response = await dispatchRpcRequest({ rpc: RPC_VERSION, method: 'prices.get' }, GAME_SENDER);
+
+    expect(response).toEqual({ ok: false, error: { code: 'INTERNAL', message: 'Storage unavailable' } });
+  });
+});
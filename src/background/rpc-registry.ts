@@ -0,0 +1,180 @@
+// ============= RPC REGISTRY MODULE =============
+// Single Responsibility: Dispatch versioned RPC requests to named handlers, rejecting
+// unknown senders, methods and versions with structured error codes
+
+import { CONFIG, debugLog } from '../content/config';
+import {
+  RPC_VERSION,
+  createRpcError,
+  isRpcError,
+  isRpcRequest,
+  type RpcErrorPayload,
+  type RpcMethod,
+  type RpcParams,
+  type RpcResponse,
+  type RpcResult
+} from '../shared/rpc';
+
+/**
+ * Handler for one RPC method
+ */
+export interface RpcHandler<M extends RpcMethod> {
+  /** Rejects malformed params with INVALID_PARAMS before handle runs */
+  validateParams: (params: unknown) => params is RpcParams<M>;
+  /** Produces the result; throw createRpcError(...) for a specific error code */
+  handle: (params: RpcParams<M>, sender: chrome.runtime.MessageSender) => Promise<RpcResult<M>> | RpcResult<M>;
+}
+
+// Registered handlers, each keyed by the method it serves
+type RpcHandlerRegistry = { [M in RpcMethod]?: RpcHandler<M> };
+
+const handlers: RpcHandlerRegistry = {};
+
+/**
+ * Params validator for methods that take no params
+ * @param params - Incoming params
+ * @returns true if no params were sent
+ */
+export function validateNoParams(params: unknown): params is undefined {
+  return params === undefined;
+}
+
+/**
+ * Registers the handler of an RPC method
+ * @param method - Method name declared in RpcMethods
+ * @param handler - Method handler
+ * @example
+ * registerRpcHandler('alerts.list', { validateParams: validateNoParams, handle: () => loadPriceAlertRules() });
+ */
+export function registerRpcHandler<M extends RpcMethod>(method: M, handler: RpcHandler<M>): void {
+  if (handlers[method]) {
+    debugLog(`RPC handler for ${method} replaced`);
+  }
+  // Narrowed to M so the write is checked against this method's handler type
+  const registry: { [K in M]?: RpcHandler<K> } = handlers;
+  registry[method] = handler;
+}
+
+/**
+ * Checks whether a requested method has a registered handler
+ * @param method - Requested method
+ * @returns true if the method can be dispatched
+ */
+function isRegisteredMethod(method: unknown): method is RpcMethod {
+  return typeof method === 'string' && Object.prototype.hasOwnProperty.call(handlers, method);
+}
+
+/**
+ * Gets the handler of a method
+ * @param method - Registered method
+ * @returns Handler typed for the method
+ */
+function getRpcHandler<M extends RpcMethod>(method: M): RpcHandler<M> | undefined {
+  return handlers[method];
+}
+
+/**
+ * Checks that a message comes from this extension's pages or an allowed host
+ * @param sender - Message sender
+ * @returns true if the sender may call RPC methods
+ */
+function isAllowedSender(sender: chrome.runtime.MessageSender): boolean {
+  if (sender.id !== chrome.runtime.id || !sender.url) {
+    return false;
+  }
+
+  try {
+    const url = new URL(sender.url);
+
+    // Popup, options and other extension pages
+    if (url.origin === new URL(chrome.runtime.getURL('/')).origin) {
+      return true;
+    }
+
+    // Content scripts on the game
+    return CONFIG.RPC.ALLOWED_SENDER_HOSTS.includes(url.hostname);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Converts a thrown value into a response error
+ * @param error - Caught value
+ * @returns Serializable error payload
+ */
+function toErrorPayload(error: unknown): RpcErrorPayload {
+  if (isRpcError(error)) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: 'INTERNAL', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Validates the params of a request and runs its method's handler
+ * @param method - Registered method
+ * @param params - Incoming params, not yet validated
+ * @param sender - Message sender
+ * @returns Handler result
+ */
+async function runHandler<M extends RpcMethod>(method: M, params: unknown, sender: chrome.runtime.MessageSender): Promise<RpcResult<M>> {
+  const handler = getRpcHandler(method);
+  if (!handler) {
+    throw createRpcError('UNKNOWN_METHOD', `Unknown method: ${method}`);
+  }
+
+  if (!handler.validateParams(params)) {
+    throw createRpcError('INVALID_PARAMS', `Invalid params for ${method}`);
+  }
+
+  return handler.handle(params, sender);
+}
+
+/**
+ * Validates and runs an RPC request
+ * Never rejects - every failure becomes an error response with its code
+ * @param msg - Incoming RPC request
+ * @param sender - Message sender
+ * @returns Response to send back
+ */
+export async function dispatchRpcRequest(msg: { rpc: unknown; method: unknown; params?: unknown }, sender: chrome.runtime.MessageSender): Promise<RpcResponse> {
+  try {
+    if (msg.rpc !== RPC_VERSION) {
+      throw createRpcError('UNSUPPORTED_VERSION', `Expected RPC version ${RPC_VERSION}, got ${String(msg.rpc)}`);
+    }
+
+    if (!isAllowedSender(sender)) {
+      throw createRpcError('FORBIDDEN', `Sender not allowed: ${sender.url ?? 'unknown'}`);
+    }
+
+    if (!isRegisteredMethod(msg.method)) {
+      throw createRpcError('UNKNOWN_METHOD', `Unknown method: ${String(msg.method)}`);
+    }
+
+    const result = await runHandler(msg.method, msg.params, sender);
+    return { ok: true, result };
+  } catch (error) {
+    const payload = toErrorPayload(error);
+    debugLog(`RPC ${String(msg.method)} failed [${payload.code}]:`, payload.message);
+    return { ok: false, error: payload };
+  }
+}
+
+/**
+ * Starts answering RPC requests
+ * Messages that are not RPC requests are left to other listeners
+ */
+export function startRpcListener(): void {
+  chrome.runtime.onMessage.addListener((
+    msg: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: RpcResponse) => void
+  ): boolean => {
+    if (!isRpcRequest(msg)) {
+      return false;
+    }
+
+    dispatchRpcRequest(msg, sender).then(sendResponse);
+    return true; // async response
+  });
+}
@@ -1,125 +1,263 @@
-import { CONFIG, getConversionType, debugLog, type ConversionKey } from './config';
+import { CONFIG, getConversionType, getConversionInfo, debugLog, type ConversionKey } from './config';
+import { loadPriceCache, type StoredPriceCache } from './storage';
+import { getRateOverride } from './utils/rate-overrides';
+import { callRpc, onRpcEvent } from '../shared/rpc-client';
 
-// API Response Types
+// Normalized rate model shared by every price provider
+// Lowercase token address -> lowercase currency code -> price of one token
 export interface PriceData {
   [tokenAddress: string]: {
     [currency: string]: number;
   };
 }
 
-export interface SkyMavisApiResponse {
-  result: PriceData;
-}
+// Cache for all token prices, mirrored from the background-owned shared cache
+let cachedPriceData: PriceData | null = null;
+let cachedFetchedAt: number | null = null;
+let cachedSources: string[] = [];
 
-interface ChromeMessage {
-  action: string;
-  url: string;
-  timeout: number;
-}
+// Callbacks notified whenever new price data is applied
+const priceUpdateListeners = new Set<() => void>();
 
-interface ChromeResponse {
-  data?: SkyMavisApiResponse;
-  error?: string;
+/**
+ * Freshness information about the cached prices
+ */
+export interface PriceCacheStatus {
+  hasData: boolean;
+  fetchedAt: number | null;
+  isStale: boolean;
 }
 
-// Cache for all token prices to avoid multiple API calls
-let cachedPriceData: SkyMavisApiResponse | null = null;
+/**
+ * Applies a price cache to the in-memory mirror and notifies listeners
+ * @param cache - Price data with its fetch timestamp
+ */
+function applyPriceCache(cache: StoredPriceCache): void {
+  // Ignore out-of-order deliveries of older data
+  if (cachedFetchedAt !== null && cache.fetchedAt < cachedFetchedAt) {
+    return;
+  }
 
-// fetchTokenPrice function removed - use fetchAllTokenPrices() instead
+  cachedPriceData = cache.rates;
+  cachedFetchedAt = cache.fetchedAt;
+  cachedSources = cache.sources;
+  priceUpdateListeners.forEach(listener => listener());
+}
 
 /**
- * Gets all token addresses needed for API request
- * @returns Array of token addresses
+ * Requests prices from the background service worker
+ * @param method - 'prices.get' returns the shared cache, 'prices.refresh' forces a new fetch
+ * @returns Complete price data object from the shared cache
+ * @throws {RpcError} TIMEOUT, DISCONNECTED or UPSTREAM_FAILED when prices can't be delivered
  */
-function getAllTokenAddresses(): string[] {
-  const addresses = [CONFIG.PHORSE_ADDRESS]; // PHORSE token
-  
-  // Add all token addresses from configuration
-  Object.values(CONFIG.CONVERSION_TYPES.tokens).forEach(token => {
-    if (token.address && !addresses.includes(token.address)) {
-      addresses.push(token.address);
-    }
-  });
-  
-  return addresses;
+async function requestPrices(method: 'prices.get' | 'prices.refresh'): Promise<PriceData> {
+  const cache = await callRpc(method);
+  applyPriceCache(cache);
+  return cache.rates;
 }
 
 /**
- * Fetches all token prices from SkyMavis API via background service worker
+ * Fetches all token prices from the shared background cache
+ * The background refreshes the cache first if it is missing or older than its TTL.
+ * If the background cannot be reached, falls back to the last prices in storage.
  * @returns Complete price data object from API
- * @throws {Error} Throws on timeout (10s), runtime errors, or API failures
+ * @throws {RpcError} TIMEOUT, DISCONNECTED or UPSTREAM_FAILED when no price was ever stored
  */
-export async function fetchAllTokenPrices(): Promise<SkyMavisApiResponse> {
-  return new Promise<SkyMavisApiResponse>((resolve, reject) => {
-    const addresses = getAllTokenAddresses();
-    const addressesParam = addresses.join(',');
+export async function fetchAllTokenPrices(): Promise<PriceData> {
+  try {
+    return await requestPrices('prices.get');
+  } catch (error) {
+    const lastKnownCache = await loadPriceCache();
+    if (!lastKnownCache) {
+      throw error;
+    }
     
-    // Single timeout (10 seconds)
-    const timeoutId = setTimeout(() => {
-      reject(new Error('Connection failed'));
-    }, 10000);
-
-    chrome.runtime.sendMessage(
-      {
-        action: 'getPHPrice',
-        url: `${CONFIG.API_BASE_URL}${addressesParam}`,
-        timeout: 10000
-      } as ChromeMessage,
-      (response: ChromeResponse) => {
-        clearTimeout(timeoutId);
-        
-        if (chrome.runtime.lastError || !response || response.error || !response.data) {
-          reject(new Error('Connection failed'));
-          return;
-        }
-        
-        // Cache the complete response
-        cachedPriceData = response.data;
-        resolve(response.data);
-      }
-    );
+    debugLog('Price request failed - using last known prices from storage');
+    applyPriceCache(lastKnownCache);
+    return lastKnownCache.rates;
+  }
+}
+
+/**
+ * Forces the background service worker to refetch prices now
+ * Every open game tab receives the result through the prices.updated push
+ * @returns Freshly fetched price data
+ * @throws {RpcError} TIMEOUT, DISCONNECTED or UPSTREAM_FAILED
+ */
+export async function refreshAllTokenPrices(): Promise<PriceData> {
+  return requestPrices('prices.refresh');
+}
+
+/**
+ * Listens for price updates pushed by the background service worker
+ * Call once per content script before fetching prices
+ */
+export function initializePriceSync(): void {
+  onRpcEvent('prices.updated', cache => {
+    debugLog('Received price update from background');
+    applyPriceCache(cache);
   });
 }
 
 /**
- * Gets specific conversion price from cached data
- * @param conversionKey - The conversion key (e.g., 'usd', 'ron')
- * @param balance - Token balance to convert
- * @returns Converted price
- * @throws {Error} If cache is not available or conversion type is invalid
+ * Subscribes to price data changes (background refreshes or manual refetches)
+ * @param listener - Called after new price data is cached
+ * @returns Unsubscribe function
  */
-export function getConvertedPrice(conversionKey: ConversionKey, balance: string | number): number {
-  if (!cachedPriceData) {
-    throw new Error('Price data not cached. Call fetchAllTokenPrices() first.');
+export function onPriceDataUpdated(listener: () => void): () => void {
+  priceUpdateListeners.add(listener);
+  return () => {
+    priceUpdateListeners.delete(listener);
+  };
+}
+
+/**
+ * Gets the price data currently mirrored in this context
+ * @returns Normalized rate table, or null if no prices were received yet
+ */
+export function getCachedPriceData(): PriceData | null {
+  return cachedPriceData;
+}
+
+/**
+ * Gets the fetch time of the currently cached prices
+ * @returns Epoch milliseconds of the last successful fetch, or null if nothing is cached
+ */
+export function getPriceDataTimestamp(): number | null {
+  return cachedFetchedAt;
+}
+
+/**
+ * Gets the providers that supplied the currently cached prices
+ * @returns Provider ids in the order they were used (empty if nothing is cached)
+ */
+export function getPriceDataSources(): string[] {
+  return cachedSources.slice();
+}
+
+/**
+ * Gets freshness information about the cached prices
+ * @param now - Current time in epoch milliseconds
+ * @returns Whether prices are cached, when they were fetched, and whether they exceed the TTL
+ */
+export function getPriceCacheStatus(now: number = Date.now()): PriceCacheStatus {
+  if (!cachedPriceData || cachedFetchedAt === null) {
+    return { hasData: false, fetchedAt: null, isStale: true };
   }
   
-  const balanceValue = parseFloat(balance.toString()) || 0;
+  return {
+    hasData: true,
+    fetchedAt: cachedFetchedAt,
+    isStale: now - cachedFetchedAt >= CONFIG.PRICE_CACHE.TTL_MS
+  };
+}
+
+/**
+ * Gets the price of one PHORSE in the target conversion from a rate table
+ * @param rates - Normalized rate table (cached or historical)
+ * @param conversionKey - The conversion key (e.g., 'usd', 'ron')
+ * @returns Price of 1 PHORSE in the target currency or token
+ * @throws {Error} If the conversion type is invalid or its rates are missing
+ */
+export function getConversionRate(rates: PriceData, conversionKey: ConversionKey): number {
   const conversionType = getConversionType(conversionKey);
   
   if (conversionType === 'fiat') {
     // Direct fiat conversion
-    const rate = cachedPriceData.result[CONFIG.PHORSE_ADDRESS][conversionKey];
+    const rate = rates[CONFIG.PHORSE_ADDRESS]?.[conversionKey];
     if (rate === undefined) {
       throw new Error(`Fiat rate not available for ${conversionKey}`);
     }
-    return balanceValue * rate;
+    return rate;
   } else if (conversionType === 'tokens') {
     // Token-to-token conversion via USD bridge rate calculation
-    const phorseUsdRate = cachedPriceData.result[CONFIG.PHORSE_ADDRESS].usd;
-    const tokenAddress = CONFIG.CONVERSION_TYPES.tokens[conversionKey].address;
+    const phorseUsdRate = rates[CONFIG.PHORSE_ADDRESS]?.usd;
+    const tokenAddress = getConversionInfo(conversionKey).address;
     
     if (!tokenAddress) {
       throw new Error(`Token address not found for ${conversionKey}`);
     }
     
-    const tokenUsdRate = cachedPriceData.result[tokenAddress]?.usd;
+    const tokenUsdRate = rates[tokenAddress]?.usd;
     
     if (!phorseUsdRate || !tokenUsdRate) {
       throw new Error(`Token rates not available for ${conversionKey}`);
     }
     
-    return balanceValue * (phorseUsdRate / tokenUsdRate);
+    return phorseUsdRate / tokenUsdRate;
   }
   
   throw new Error(`Invalid conversion type for ${conversionKey}`);
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the price of one PHORSE in the target conversion, applying any user rate override
+ * @param rates - Normalized rate table
+ * @param conversionKey - The conversion key (e.g., 'usd', 'ars')
+ * @returns Overridden price if the conversion has an override, otherwise the API price
+ * @throws {Error} If a rate needed by the API price or the override is missing
+ */
+export function getEffectiveConversionRate(rates: PriceData, conversionKey: ConversionKey): number {
+  const override = getRateOverride(conversionKey);
+  if (!override) {
+    return getConversionRate(rates, conversionKey);
+  }
+  
+  switch (override.mode) {
+    case 'phorse':
+      return override.value;
+    case 'usd': {
+      const phorseUsdRate = rates[CONFIG.PHORSE_ADDRESS]?.usd;
+      if (phorseUsdRate === undefined) {
+        throw new Error('PHORSE/USD rate not available for override');
+      }
+      return phorseUsdRate * override.value;
+    }
+    case 'multiplier':
+      return getConversionRate(rates, conversionKey) * override.value;
+  }
+}
+
+/**
+ * Checks whether a conversion currently uses a user rate override
+ * @param conversionKey - The conversion key
+ * @returns true if converted values for this conversion are overridden
+ */
+export function isConversionOverridden(conversionKey: ConversionKey): boolean {
+  return getRateOverride(conversionKey) !== undefined;
+}
+
+/**
+ * Gets specific conversion price from cached data
+ * Applies the user's rate override for the conversion, if any
+ * @param conversionKey - The conversion key (e.g., 'usd', 'ron')
+ * @param balance - Token balance to convert
+ * @returns Converted price
+ * @throws {Error} If cache is not available or conversion type is invalid
+ */
+export function getConvertedPrice(conversionKey: ConversionKey, balance: string | number): number {
+  if (!cachedPriceData) {
+    throw new Error('Price data not cached. Call fetchAllTokenPrices() first.');
+  }
+  
+  const balanceValue = parseFloat(balance.toString()) || 0;
+  return balanceValue * getEffectiveConversionRate(cachedPriceData, conversionKey);
+}
+
+/**
+ * Converts an amount in a conversion back to PHORSE from cached data
+ * Inverse of getConvertedPrice, using the same effective (possibly overridden) rate
+ * @param conversionKey - The conversion the amount is in (e.g., 'ars', 'ron')
+ * @param amount - Amount in the conversion
+ * @returns Equivalent PHORSE amount
+ * @throws {Error} If cache is not available or the conversion has no positive rate
+ */
+export function getPhorseAmount(conversionKey: ConversionKey, amount: string | number): number {
+  const rate = getConvertedPrice(conversionKey, 1);
+  if (!(rate > 0)) {
+    throw new Error(`No usable rate for ${conversionKey}`);
+  }
+  
+  const amountValue = parseFloat(amount.toString()) || 0;
+  return amountValue / rate;
+}
@@ -3,12 +3,14 @@
 // Type definitions
 export type ConversionKey = string;
 export type ConversionType = 'tokens' | 'fiat';
+export type ConverterDisplayMode = 'single' | 'multi'; // One selected currency, or several pinned ones stacked
 
 export interface ConversionInfo {
   symbol: string;
   name: string;
   displayName: string;
   address?: string; // Only for token types
+  custom?: boolean; // User-defined token (see utils/custom-tokens.ts)
 }
 
 export interface ConversionTypes {
@@ -30,6 +32,10 @@ export interface CSSClasses {
   DROPDOWN_ARROW: string;
   DROPDOWN_OPTIONS: string;
   DROPDOWN_OPTION: string;
+  DROPDOWN_REFRESH: string;
+  DROPDOWN_OPTION_PINNED: string;
+  DROPDOWN_MODE_TOGGLE: string;
+  DROPDOWN_ACTION: string;
   GRID_DROPDOWN: string;
   
   // Grid Layout System Classes
@@ -40,6 +46,20 @@ export interface CSSClasses {
   TEXT_CENTER: string;
   DISPLAY_CONTENTS: string;
   
+  // Converted Price Status Classes
+  CONVERTED_VALUE: string;
+  PRICE_STATUS: string;
+  PRICE_STATUS_STALE: string;
+  PRICE_ERROR: string;
+  PRICE_OVERRIDDEN: string;
+  CONVERTED_MULTI: string;
+  PINNED_VALUES: string;
+  PINNED_ROW: string;
+  PINNED_LABEL: string;
+  PRICE_TREND: string;
+  PRICE_CHANGE_UP: string;
+  PRICE_CHANGE_DOWN: string;
+  
   // Modal System Classes
   MODAL_CONTAINER: string;
   MODAL_CONTENT: string;
@@ -71,6 +91,69 @@ export interface CSSClasses {
   CURRENCY_CHECKBOX: string;
   CURRENCY_LABEL_TEXT: string;
   
+  // Price Alert Section Classes
+  PRICE_ALERT_LIST: string;
+  PRICE_ALERT_ITEM: string;
+  PRICE_ALERT_REMOVE: string;
+  PRICE_ALERT_FORM: string;
+  PRICE_ALERT_INPUT: string;
+  PRICE_ALERT_ADD: string;
+  CUSTOM_TOKEN_ERROR: string;
+  NUMBER_FORMAT_PREVIEW: string;
+  ENERGY_NOTIFICATION_HORSES: string;
+  
+  // Quick-Convert Calculator Classes
+  CALCULATOR: string;
+  CALCULATOR_ROW: string;
+  CALCULATOR_INPUT: string;
+  CALCULATOR_BUTTON: string;
+  CALCULATOR_RESULT: string;
+  
+  // Inline Annotation Classes
+  INLINE_FIAT: string;
+  
+  // Balance Ledger Modal Classes
+  LEDGER_MODAL: string;
+  LEDGER_TABS: string;
+  LEDGER_TAB: string;
+  LEDGER_TABLE: string;
+  LEDGER_NOTE: string;
+  
+  // Stable Dashboard Modal Classes
+  DASHBOARD_MODAL: string;
+  DASHBOARD_CHIPS: string;
+  DASHBOARD_CHIP: string;
+  DASHBOARD_TABLE: string;
+  DASHBOARD_EXPORT: string;
+  HORSE_HIGHLIGHT: string;
+  
+  // Stable Diff Panel Classes
+  STABLE_DIFF_PANEL: string;
+  STABLE_DIFF_BODY: string;
+  STABLE_DIFF_SECTION: string;
+  
+  // Horse Compare Classes
+  HORSE_COMPARE_TOGGLE: string;
+  HORSE_COMPARE_CARD: string;
+  HORSE_COMPARE_BAR: string;
+  COMPARE_MODAL: string;
+  COMPARE_TABLE: string;
+  COMPARE_BEST: string;
+  
+  // Level Projection Classes
+  LEVEL_PROJECTION: string;
+  
+  // Toolbar Popup Classes
+  POPUP: string;
+  POPUP_SECTION: string;
+  POPUP_ROW: string;
+  POPUP_VALUE: string;
+  POPUP_NOTE: string;
+  POPUP_LINKS: string;
+  
+  // Options Page Classes
+  OPTIONS_PAGE: string;
+  
   // Marketplace Button Classes
   MARKETPLACE_BUTTONS_CONTAINER: string;
   MARKETPLACE_BUTTON: string;
@@ -103,6 +186,133 @@ export interface Limits {
   MAX_OBSERVER_ERRORS: number;
 }
 
+export interface PriceProvidersConfig {
+  ORDER: string[];                  // Provider ids, tried first to last
+  SKYMAVIS_BASE_URL: string;
+  COINGECKO_BASE_URL: string;
+}
+
+export interface PriceHistoryTier {
+  MAX_AGE_HOURS: number;            // Points younger than this use this tier
+  BUCKET_MINUTES: number;           // Keep at most one point per bucket
+}
+
+export interface PriceHistoryConfig {
+  MAX_POINTS: number;
+  TIERS: PriceHistoryTier[];        // Ordered from finest to coarsest; older points are dropped
+}
+
+export interface PriceAlertsConfig {
+  COOLDOWN_MINUTES: number;         // Minimum time between notifications for the same rule
+  DEFAULT_WINDOW_HOURS: number;
+  WINDOW_OPTIONS_HOURS: number[];   // Change windows offered for rise/drop rules
+  NOTIFICATION_ICON: string;
+}
+
+export interface NumberFormatConfig {
+  COMPACT_THRESHOLD: number;        // Values at or above this use compact notation when enabled
+  SIGNIFICANT_DIGITS: number;       // Significant digits kept for amounts below 1
+  LOCALES: Record<string, string>;  // Locale choices offered in settings (BCP 47 tag -> label)
+  MAX_PRECISION: number;            // Largest fixed decimal places offered in settings
+}
+
+export interface MultiDisplayConfig {
+  MIN_PINNED: number;
+  MAX_PINNED: number;
+  DEFAULT_PINNED: string[];
+}
+
+export interface BalanceLedgerConfig {
+  RETENTION_DAYS: number;           // Entries older than this are dropped
+  MAX_ENTRIES: number;
+  DEDUPE_WINDOW_MS: number;         // Same change seen by several tabs within this window is stored once
+  DAYS_SHOWN: number;               // Periods listed in the ledger view
+  WEEKS_SHOWN: number;
+  RECENT_ENTRIES: number;
+}
+
+export interface HorseAnalysisConfig {
+  UNSEEN_RETENTION_HOURS: number;   // Stored horses missing from every view for this long (counted from the first view without them) are dropped
+}
+
+export interface HorseHistoryConfig {
+  DEFAULT_RETENTION_DAYS: number;   // Snapshots older than this are dropped (changeable in settings)
+  RETENTION_OPTIONS_DAYS: number[]; // Retention periods offered in settings
+  MAX_SNAPSHOTS_PER_HORSE: number;  // Oldest snapshots beyond this are dropped
+  MAX_TOTAL_SNAPSHOTS: number;      // Oldest snapshots of the whole stable beyond this are dropped
+  LOCK_NAME: string;                // Web Lock serializing history writes across game tabs
+}
+
+export interface DashboardConfig {
+  LEVEL_RANGES: Array<{ label: string; min: number; max?: number; }>; // Level filter chips
+  HIGHLIGHT_MS: number;             // How long a horse card stays highlighted after a row click
+}
+
+export interface HorseExportConfig {
+  FILENAME_PREFIX: string;          // Followed by the analysis date and extension
+}
+
+export interface HorseCompareConfig {
+  MIN_HORSES: number;               // Compare button is enabled from this many ticked horses
+  MAX_HORSES: number;               // More horses cannot be ticked
+}
+
+export interface LevelProjectionConfig {
+  MIN_SAMPLES: number;              // Observed EXP gains needed before learned EXP per race is used
+  DEFAULT_EXP_PER_RACE: number;     // Rough fallback until enough races are observed
+}
+
+export interface InlineAnnotationsConfig {
+  ICON_SELECTOR: string;            // PHORSE coin icons marking a bare number as a PHORSE amount
+  SKIP_SELECTOR: string;            // Subtrees never annotated (inputs, the converted header balance)
+}
+
+export interface QuickConvertConfig {
+  HOTKEY_CODE: string;              // KeyboardEvent.code pressed together with Alt
+  HOTKEY_LABEL: string;
+  COPY_FEEDBACK_MS: number;         // How long the copy button shows its confirmation
+}
+
+export interface EnergyRechargeConfig {
+  INTERVAL_HOURS: number;           // Energy is recharged every N hours
+  OFFSET_HOURS: number;             // Hours after 00:00 UTC of the first recharge of the day
+}
+
+export interface EnergyNotificationsConfig {
+  ALARM_NAME: string;
+  DEFAULT_LEAD_MINUTES: number;     // Notify this long before the recharge
+  LEAD_OPTIONS_MINUTES: number[];   // Lead times offered in settings
+  MAX_SEPARATE_NOTIFICATIONS: number; // More warnings than this are combined into one list notification
+}
+
+export interface ActionBadgeConfig {
+  ALARM_NAME: string;
+  NEAR_MAX_RATIO: number;           // Energy at or above this share of max counts as ready to race
+  COLORS: { full: string; wasting: string; ready: string; }; // Badge color of the most urgent horse
+}
+
+export interface HotkeysConfig {
+  DEFAULT_SHORTCUTS: Record<string, string>; // In-page shortcuts when the configured ones can't be read
+  DEDUPE_MS: number;                // A key press delivered both as command and keydown runs once
+}
+
+export interface PopupConfig {
+  GAME_URL: string;
+  STALE_AFTER_HOURS: number;        // Stored data older than this is marked as outdated
+}
+
+export interface RpcConfig {
+  ALLOWED_SENDER_HOSTS: string[];   // Page hosts whose content scripts may call the background
+  ALLOWED_FETCH_HOSTS: string[];    // Only hosts the background worker may request (match host_permissions)
+}
+
+export interface PriceCacheConfig {
+  ALARM_NAME: string;
+  REFRESH_INTERVAL_MINUTES: number;
+  TTL_MS: number;
+  REQUEST_TIMEOUT_MS: number;
+}
+
 
 export interface EnergyRecoveryEntry {
   level: number;
@@ -131,7 +341,7 @@ export interface MarketplaceUrls {
 
 export interface ConfigType {
   PHORSE_ADDRESS: string;
-  API_BASE_URL: string;
+  GAME_URL_PATTERN: string;
   BALANCE_ELEMENT_ID: string;
   DEFAULT_CURRENCY: string;
   DEBUG: boolean;
@@ -140,6 +350,27 @@ export interface ConfigType {
   CSS_CLASSES: CSSClasses;
   TIMEOUTS: Timeouts;
   LIMITS: Limits;
+  PRICE_CACHE: PriceCacheConfig;
+  RPC: RpcConfig;
+  PRICE_PROVIDERS: PriceProvidersConfig;
+  PRICE_HISTORY: PriceHistoryConfig;
+  PRICE_ALERTS: PriceAlertsConfig;
+  NUMBER_FORMAT: NumberFormatConfig;
+  MULTI_DISPLAY: MultiDisplayConfig;
+  BALANCE_LEDGER: BalanceLedgerConfig;
+  HORSE_ANALYSIS: HorseAnalysisConfig;
+  HORSE_HISTORY: HorseHistoryConfig;
+  DASHBOARD: DashboardConfig;
+  HORSE_EXPORT: HorseExportConfig;
+  HORSE_COMPARE: HorseCompareConfig;
+  LEVEL_PROJECTION: LevelProjectionConfig;
+  INLINE_ANNOTATIONS: InlineAnnotationsConfig;
+  QUICK_CONVERT: QuickConvertConfig;
+  ENERGY_RECHARGE: EnergyRechargeConfig;
+  ENERGY_NOTIFICATIONS: EnergyNotificationsConfig;
+  ACTION_BADGE: ActionBadgeConfig;
+  HOTKEYS: HotkeysConfig;
+  POPUP: PopupConfig;
   ENERGY_RECOVERY_TABLE: EnergyRecoveryTable;
   MARKETPLACE_IMAGES: MarketplaceImages;
   MARKETPLACE_URLS: MarketplaceUrls;
@@ -147,7 +378,7 @@ export interface ConfigType {
 
 export const CONFIG: ConfigType = {
   PHORSE_ADDRESS: '0x6ad39689cac97a3e647fabd31534555bc7edd5c6',
-  API_BASE_URL: 'https://exchange-rate.skymavis.com/v2/prices?addresses=',
+  GAME_URL_PATTERN: '*://planethorse.io/*',
   BALANCE_ELEMENT_ID: 'phorse-balance',
   DEFAULT_CURRENCY: 'usd',
   DEBUG: true,
@@ -167,7 +398,7 @@ export const CONFIG: ConfigType = {
         name: 'WBTC',
         displayName: 'Wrapped Bitcoin'
       }
-      // Future Ronin tokens can be added here...
+      // Future Ronin tokens can be added here (users can also add their own in Settings)...
     },
     fiat: {
       usd: {
@@ -301,6 +532,10 @@ export const CONFIG: ConfigType = {
     DROPDOWN_ARROW: 'phorse-dropdown-arrow',
     DROPDOWN_OPTIONS: 'phorse-dropdown-options',
     DROPDOWN_OPTION: 'phorse-dropdown-option',
+    DROPDOWN_REFRESH: 'phorse-dropdown-refresh',
+    DROPDOWN_OPTION_PINNED: 'phorse-dropdown-option-pinned',
+    DROPDOWN_MODE_TOGGLE: 'phorse-dropdown-mode-toggle',
+    DROPDOWN_ACTION: 'phorse-dropdown-action',
     GRID_DROPDOWN: 'phorse-grid-dropdown',
     
     // Grid Layout System Classes
@@ -311,6 +546,20 @@ export const CONFIG: ConfigType = {
     TEXT_CENTER: 'phorse-text-center',
     DISPLAY_CONTENTS: 'phorse-display-contents',
     
+    // Converted Price Status Classes
+    CONVERTED_VALUE: 'phorse-converted-value',
+    PRICE_STATUS: 'phorse-price-status',
+    PRICE_STATUS_STALE: 'phorse-price-status-stale',
+    PRICE_ERROR: 'phorse-price-error',
+    PRICE_OVERRIDDEN: 'phorse-price-overridden',
+    CONVERTED_MULTI: 'phorse-converted-multi',
+    PINNED_VALUES: 'phorse-pinned-values',
+    PINNED_ROW: 'phorse-pinned-row',
+    PINNED_LABEL: 'phorse-pinned-label',
+    PRICE_TREND: 'phorse-price-trend',
+    PRICE_CHANGE_UP: 'phorse-price-change-up',
+    PRICE_CHANGE_DOWN: 'phorse-price-change-down',
+    
     // Modal System Classes
     MODAL_CONTAINER: 'phorse-modal-container',
     MODAL_CONTENT: 'phorse-modal-content',
@@ -342,6 +591,69 @@ export const CONFIG: ConfigType = {
     CURRENCY_CHECKBOX: 'phorse-currency-checkbox',
     CURRENCY_LABEL_TEXT: 'phorse-currency-label-text',
     
+    // Price Alert Section Classes
+    PRICE_ALERT_LIST: 'phorse-price-alert-list',
+    PRICE_ALERT_ITEM: 'phorse-price-alert-item',
+    PRICE_ALERT_REMOVE: 'phorse-price-alert-remove',
+    PRICE_ALERT_FORM: 'phorse-price-alert-form',
+    PRICE_ALERT_INPUT: 'phorse-price-alert-input',
+    PRICE_ALERT_ADD: 'phorse-price-alert-add',
+    CUSTOM_TOKEN_ERROR: 'phorse-custom-token-error',
+    NUMBER_FORMAT_PREVIEW: 'phorse-number-format-preview',
+    ENERGY_NOTIFICATION_HORSES: 'phorse-energy-notification-horses',
+    
+    // Quick-Convert Calculator Classes
+    CALCULATOR: 'phorse-calculator',
+    CALCULATOR_ROW: 'phorse-calculator-row',
+    CALCULATOR_INPUT: 'phorse-calculator-input',
+    CALCULATOR_BUTTON: 'phorse-calculator-button',
+    CALCULATOR_RESULT: 'phorse-calculator-result',
+    
+    // Inline Annotation Classes
+    INLINE_FIAT: 'phorse-inline-fiat',
+    
+    // Balance Ledger Modal Classes
+    LEDGER_MODAL: 'phorse-ledger-modal',
+    LEDGER_TABS: 'phorse-ledger-tabs',
+    LEDGER_TAB: 'phorse-ledger-tab',
+    LEDGER_TABLE: 'phorse-ledger-table',
+    LEDGER_NOTE: 'phorse-ledger-note',
+    
+    // Stable Dashboard Modal Classes
+    DASHBOARD_MODAL: 'phorse-dashboard-modal',
+    DASHBOARD_CHIPS: 'phorse-dashboard-chips',
+    DASHBOARD_CHIP: 'phorse-dashboard-chip',
+    DASHBOARD_TABLE: 'phorse-dashboard-table',
+    DASHBOARD_EXPORT: 'phorse-dashboard-export',
+    HORSE_HIGHLIGHT: 'phorse-horse-highlight',
+    
+    // Stable Diff Panel Classes
+    STABLE_DIFF_PANEL: 'phorse-stable-diff-panel',
+    STABLE_DIFF_BODY: 'phorse-stable-diff-body',
+    STABLE_DIFF_SECTION: 'phorse-stable-diff-section',
+    
+    // Horse Compare Classes
+    HORSE_COMPARE_TOGGLE: 'phorse-compare-toggle',
+    HORSE_COMPARE_CARD: 'phorse-compare-card',
+    HORSE_COMPARE_BAR: 'phorse-compare-bar',
+    COMPARE_MODAL: 'phorse-compare-modal',
+    COMPARE_TABLE: 'phorse-compare-table',
+    COMPARE_BEST: 'phorse-compare-best',
+    
+    // Level Projection Classes
+    LEVEL_PROJECTION: 'phorse-level-projection',
+    
+    // Toolbar Popup Classes
+    POPUP: 'phorse-popup',
+    POPUP_SECTION: 'phorse-popup-section',
+    POPUP_ROW: 'phorse-popup-row',
+    POPUP_VALUE: 'phorse-popup-value',
+    POPUP_NOTE: 'phorse-popup-note',
+    POPUP_LINKS: 'phorse-popup-links',
+    
+    // Options Page Classes
+    OPTIONS_PAGE: 'phorse-options-page',
+    
     // Marketplace Button Classes
     MARKETPLACE_BUTTONS_CONTAINER: 'phorse-marketplace-buttons',
     MARKETPLACE_BUTTON: 'phorse-marketplace-button',
@@ -375,6 +687,183 @@ export const CONFIG: ConfigType = {
     MAX_OBSERVER_ERRORS: 5          // Max errors before disconnecting observer
   },
   
+  // Shared price cache owned by the background service worker
+  PRICE_CACHE: {
+    ALARM_NAME: 'phorse-price-refresh',
+    REFRESH_INTERVAL_MINUTES: 5,    // chrome.alarms period between background refreshes
+    TTL_MS: 10 * 60 * 1000,         // Cached prices older than this are refreshed on demand
+    REQUEST_TIMEOUT_MS: 10000       // Abort API requests after 10 seconds
+  },
+  
+  // Background RPC - who may call it and which hosts it may fetch
+  RPC: {
+    ALLOWED_SENDER_HOSTS: ['planethorse.io'],
+    ALLOWED_FETCH_HOSTS: ['exchange-rate.skymavis.com', 'api.coingecko.com']
+  },
+  
+  // Price providers - later providers only fill rates the earlier ones failed to return
+  PRICE_PROVIDERS: {
+    ORDER: ['skymavis', 'coingecko'],
+    SKYMAVIS_BASE_URL: 'https://exchange-rate.skymavis.com/v2/prices',
+    COINGECKO_BASE_URL: 'https://api.coingecko.com/api/v3/simple/token_price/ronin'
+  },
+  
+  // Price history retention - recent points keep full resolution, older ones are downsampled
+  PRICE_HISTORY: {
+    MAX_POINTS: 600,
+    TIERS: [
+      { MAX_AGE_HOURS: 24, BUCKET_MINUTES: 5 },     // Last day: every refresh
+      { MAX_AGE_HOURS: 168, BUCKET_MINUTES: 60 },   // Last week: hourly
+      { MAX_AGE_HOURS: 720, BUCKET_MINUTES: 360 }   // Last 30 days: every 6 hours
+    ]
+  },
+  
+  // Price alerts - checked by the background worker after every price refresh
+  PRICE_ALERTS: {
+    COOLDOWN_MINUTES: 60,
+    DEFAULT_WINDOW_HOURS: 24,
+    WINDOW_OPTIONS_HOURS: [1, 24, 168],
+    NOTIFICATION_ICON: '/icons/icon-128.png'
+  },
+  
+  // Number formatting (Intl.NumberFormat) - locale and precision are user settings
+  NUMBER_FORMAT: {
+    COMPACT_THRESHOLD: 1000000,
+    SIGNIFICANT_DIGITS: 3,
+    LOCALES: {
+      'en-US': 'English (US)',
+      'es-AR': 'Español (AR)',
+      'es-ES': 'Español (ES)',
+      'pt-BR': 'Português (BR)',
+      'de-DE': 'Deutsch',
+      'fr-FR': 'Français',
+      'ru-RU': 'Русский',
+      'zh-CN': '中文',
+      'ja-JP': '日本語',
+      'ko-KR': '한국어',
+      'id-ID': 'Bahasa Indonesia',
+      'vi-VN': 'Tiếng Việt',
+      'th-TH': 'ไทย',
+      'en-IN': 'English (IN)'
+    },
+    MAX_PRECISION: 8
+  },
+  
+  // Multi-display mode - pinned currencies rendered stacked under the balance
+  MULTI_DISPLAY: {
+    MIN_PINNED: 2,
+    MAX_PINNED: 4,
+    DEFAULT_PINNED: ['usd', 'ron']
+  },
+  
+  // Balance ledger - every PHORSE balance change seen by the converter, valued at the cached rates
+  BALANCE_LEDGER: {
+    RETENTION_DAYS: 90,
+    MAX_ENTRIES: 5000,
+    DEDUPE_WINDOW_MS: 10000,
+    DAYS_SHOWN: 14,
+    WEEKS_SHOWN: 8,
+    RECENT_ENTRIES: 10
+  },
+  
+  // Horse analysis - latest state of every horse, merged across views so a partial view keeps the rest
+  HORSE_ANALYSIS: {
+    UNSEEN_RETENTION_HOURS: 24
+  },
+  
+  // Horse history - per-horse snapshots recorded on every horse analysis
+  HORSE_HISTORY: {
+    DEFAULT_RETENTION_DAYS: 30,
+    RETENTION_OPTIONS_DAYS: [7, 14, 30, 60, 90],
+    MAX_SNAPSHOTS_PER_HORSE: 300,
+    MAX_TOTAL_SNAPSHOTS: 15000,     // About 4 MB, well within the 10 MB storage.local quota
+    LOCK_NAME: 'phorse-horse-history'
+  },
+  
+  // Stable dashboard - table of every stored horse with filter chips
+  DASHBOARD: {
+    LEVEL_RANGES: [
+      { label: 'Lv 1-9', min: 1, max: 9 },
+      { label: 'Lv 10-19', min: 10, max: 19 },
+      { label: 'Lv 20+', min: 20 }
+    ],
+    HIGHLIGHT_MS: 2500
+  },
+  
+  // Stable export - CSV/JSON download from the stable dashboard
+  HORSE_EXPORT: {
+    FILENAME_PREFIX: 'planethorse-stable'
+  },
+  
+  // Side-by-side comparison of ticked horse cards
+  HORSE_COMPARE: {
+    MIN_HORSES: 2,
+    MAX_HORSES: 4
+  },
+  
+  // Level-up projection on horse cards - EXP per race is learned from the horse history
+  LEVEL_PROJECTION: {
+    MIN_SAMPLES: 3,
+    DEFAULT_EXP_PER_RACE: 10
+  },
+  
+  // Quick-convert calculator popover - opened from the converter dropdown or Alt+C
+  QUICK_CONVERT: {
+    HOTKEY_CODE: 'KeyC',
+    HOTKEY_LABEL: 'Alt+C',
+    COPY_FEEDBACK_MS: 1200
+  },
+  
+  // Energy recharge schedule - an estimate: the game does not publish it, recharges have been
+  // observed at 00:00, 06:00, 12:00 and 18:00 UTC. Times derived from it are shown as estimates
+  ENERGY_RECHARGE: {
+    INTERVAL_HOURS: 6,
+    OFFSET_HOURS: 0
+  },
+  
+  // Energy notifications - background warnings before a recharge that would waste energy
+  ENERGY_NOTIFICATIONS: {
+    ALARM_NAME: 'phorse-energy-notifications',
+    DEFAULT_LEAD_MINUTES: 30,
+    LEAD_OPTIONS_MINUTES: [10, 30, 60, 120],
+    MAX_SEPARATE_NOTIFICATIONS: 3
+  },
+  
+  // Toolbar icon badge - horses that should race soon, from the stored horse data
+  ACTION_BADGE: {
+    ALARM_NAME: 'phorse-action-badge',
+    NEAR_MAX_RATIO: 0.9,
+    COLORS: {
+      full: '#f44336',
+      wasting: '#ff9800',
+      ready: '#4CAF50'
+    }
+  },
+  
+  // Keyboard shortcuts - same suggested keys as the commands in wxt.config.js
+  // (chrome://extensions/shortcuts changes them; toggle-marketplace-links has none by default)
+  HOTKEYS: {
+    DEFAULT_SHORTCUTS: {
+      'cycle-currency': 'Alt+Shift+C',
+      'toggle-settings': 'Alt+Shift+S',
+      'refresh-prices': 'Alt+Shift+R',
+      'toggle-energy-info': 'Alt+Shift+E'
+    },
+    DEDUPE_MS: 500
+  },
+  
+  // Toolbar popup - summary of stored data without opening the game
+  POPUP: {
+    GAME_URL: 'https://planethorse.io/game',
+    STALE_AFTER_HOURS: 24
+  },
+  
+  // Inline annotations - converted value next to PHORSE amounts anywhere in the game UI
+  INLINE_ANNOTATIONS: {
+    ICON_SELECTOR: 'img[alt="phorse" i], img[alt="phorse coin" i]',
+    SKIP_SELECTOR: 'script, style, noscript, textarea, input, select, option, [contenteditable="true"], #phorse-balance, [class^="phorse-"], [class*=" phorse-"]'
+  },
+  
   
   // Energy recovery table for horses by level
   ENERGY_RECOVERY_TABLE: {
@@ -417,13 +906,32 @@ export function debugLog(...args: any[]): void {
   }
 }
 
+// User-defined tokens registered at runtime, keyed by contract address
+let customTokens: Record<string, ConversionInfo> = {};
+
+/**
+ * Replaces the registered user-defined tokens
+ * @param tokens - Conversion info keyed by token address
+ */
+export function setCustomTokens(tokens: Record<string, ConversionInfo>): void {
+  customTokens = tokens;
+}
+
+/**
+ * Gets built-in and user-defined tokens
+ * @returns Token conversion info keyed by conversion key (built-in tokens first)
+ */
+export function getAllTokens(): Record<string, ConversionInfo> {
+  return { ...CONFIG.CONVERSION_TYPES.tokens, ...customTokens };
+}
+
 /**
  * Gets all available conversions in cycling order (fiat first, then tokens)
  * @returns Array of conversion keys
  */
 export function getAvailableConversions(): ConversionKey[] {
   const fiatKeys = Object.keys(CONFIG.CONVERSION_TYPES.fiat);
-  const tokenKeys = Object.keys(CONFIG.CONVERSION_TYPES.tokens);
+  const tokenKeys = Object.keys(getAllTokens());
   return [...fiatKeys, ...tokenKeys];
 }
 
@@ -434,7 +942,7 @@ export function getAvailableConversions(): ConversionKey[] {
  * @throws {Error} If conversion type is unknown
  */
 export function getConversionType(conversionKey: ConversionKey): ConversionType {
-  if (CONFIG.CONVERSION_TYPES.tokens[conversionKey]) return 'tokens';
+  if (getAllTokens()[conversionKey]) return 'tokens';
   if (CONFIG.CONVERSION_TYPES.fiat[conversionKey]) return 'fiat';
   throw new Error(`Unknown conversion type: ${conversionKey}`);
 }
@@ -446,21 +954,21 @@ export function getConversionType(conversionKey: ConversionKey): ConversionType
  */
 export function getConversionInfo(conversionKey: ConversionKey): ConversionInfo {
   const type = getConversionType(conversionKey);
-  const info = CONFIG.CONVERSION_TYPES[type][conversionKey];
+  const info = type === 'tokens' ? getAllTokens()[conversionKey] : CONFIG.CONVERSION_TYPES.fiat[conversionKey];
   return info;
 }
 
 /**
  * Gets the next conversion in the cycling order
  * @param currentConversion - Current conversion key
- * @returns Next conversion key
+ * @param available - Conversions to cycle through (defaults to every available conversion)
+ * @returns Next conversion key, or the first one if the current is not in the list
  */
-export function getNextConversion(currentConversion: ConversionKey): ConversionKey {
-  const available = getAvailableConversions();
+export function getNextConversion(currentConversion: ConversionKey, available: ConversionKey[] = getAvailableConversions()): ConversionKey {
   const currentIndex = available.indexOf(currentConversion);
   
   if (currentIndex === -1) {
-    return CONFIG.DEFAULT_CURRENCY;
+    return available[0] ?? CONFIG.DEFAULT_CURRENCY;
   }
   
   const nextIndex = (currentIndex + 1) % available.length;
@@ -534,4 +1042,28 @@ export function calculateEnergyRecoveryPer6Hours(level: number): number {
   const interpolatedDaily = lowerEntry.dailyRecovery + (recoveryDiff * levelRatio);
   
   return Math.floor(interpolatedDaily / 4); // Convert to 6-hour recovery
+}
+
+/**
+ * Gets how many races a day a horse can run at its level
+ * Uses the last energy recovery table entry at or below the level (races are whole numbers)
+ * @param level - The horse level (1-30+)
+ * @returns Races per day
+ */
+export function getRacesPerDay(level: number): number {
+  const entries = CONFIG.ENERGY_RECOVERY_TABLE.entries;
+  const entry = [...entries].reverse().find(candidate => candidate.level <= level) ?? entries[0];
+  return entry.racesPerDay;
+}
+
+/**
+ * Gets the approximate energy one race uses at a level
+ * A day's races use up a day's recovery, so this is the daily recovery over the races per day
+ * @param level - The horse level (1-30+)
+ * @returns Energy per race
+ * @example
+ * getEnergyPerRace(10) // 12 (60 energy a day over 5 races)
+ */
+export function getEnergyPerRace(level: number): number {
+  return (calculateEnergyRecoveryPer6Hours(level) * 4) / getRacesPerDay(level);
 }
\ No newline at end of file
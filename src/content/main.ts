@@ -1,8 +1,11 @@
 // ============= MAIN ORCHESTRATION =============
-import { CONFIG, debugLog } from './config';
-import { fetchAllTokenPrices } from './api';
+import { CONFIG, debugLog, getNextConversion } from './config';
+import { fetchAllTokenPrices, initializePriceSync, refreshAllTokenPrices } from './api';
 import { 
   initializeConversionState, 
+  getCurrentConversion,
+  setCurrentConversion,
+  initializeDisplayState,
   ensureCurrentConversionIsEnabled,
   getIsInitializing,
   setIsInitializing,
@@ -16,9 +19,30 @@ import {
 } from './ui';
 import { 
   createSettingsModal, 
-  cleanupSettingsModal 
+  cleanupSettingsModal,
+  toggleSettingsModal
 } from './modals/settings-modal';
-import { loadAllSettings, type AllSettings } from './storage';
+import { createLedgerModal, cleanupLedgerModal } from './modals/ledger-modal';
+import { createDashboardModal, cleanupDashboardModal, toggleDashboardModal } from './modals/dashboard-modal';
+import { createCompareModal, cleanupCompareModal, showCompareModal } from './modals/compare-modal';
+import { 
+  loadAllSettings, 
+  loadEnergyRecoverySettings, 
+  saveEnergyRecoverySettings, 
+  loadMarketplaceSettings, 
+  saveMarketplaceSettings, 
+  type AllSettings 
+} from './storage';
+import { syncCustomTokens } from './utils/custom-tokens';
+import { syncRateOverrides } from './utils/rate-overrides';
+import { syncNumberFormatSettings } from './utils/number-format';
+import { startInlineAnnotations, stopInlineAnnotations } from './utils/inline-annotations';
+import { startSettingsSync, stopSettingsSync } from './utils/settings-sync';
+import { startHotkeys, stopHotkeys, type HotkeyAction } from './utils/hotkeys';
+import { startHorseCompare, cleanupHorseCompare } from './utils/horse-compare';
+import { cleanupLevelProjections } from './utils/level-projection';
+import { createStableDiffPanel, cleanupStableDiffPanel } from './utils/stable-diff-panel';
+import { getEnabledConversions } from './utils/validation';
 import { 
   initializeHorseAnalyzer, 
   cleanupMarketplaceButtons, 
@@ -36,6 +60,49 @@ import {
 let currencyUI: any = null;
 let wxtContext: any = null;
 
+/**
+ * Switches to the next enabled currency
+ */
+async function cycleCurrency(): Promise<void> {
+  const enabled = await getEnabledConversions();
+  setCurrentConversion(getNextConversion(getCurrentConversion(), enabled));
+}
+
+/**
+ * Flips an on/off setting and applies it like a settings modal save
+ * @param load - Loads the current value
+ * @param save - Saves the new value
+ */
+async function toggleBooleanSetting(load: () => Promise<boolean>, save: (enabled: boolean) => Promise<void>): Promise<void> {
+  await save(!(await load()));
+  document.dispatchEvent(new CustomEvent('phorseSettingsChanged', {
+    detail: await loadAllSettings()
+  }));
+}
+
+// Keyboard shortcut actions (commands API and in-page hotkeys)
+const hotkeyHandlers: Record<HotkeyAction, () => void> = {
+  'cycle-currency': () => {
+    cycleCurrency().catch(error => debugLog('Error cycling currency:', error));
+  },
+  'toggle-settings': () => {
+    toggleSettingsModal().catch(error => debugLog('Error toggling settings modal:', error));
+  },
+  'refresh-prices': () => {
+    refreshAllTokenPrices().catch(error => debugLog('Hotkey price refresh failed:', error));
+  },
+  'toggle-energy-info': () => {
+    toggleBooleanSetting(loadEnergyRecoverySettings, saveEnergyRecoverySettings)
+      .catch(error => debugLog('Error toggling energy recovery info:', error));
+  },
+  'toggle-marketplace-links': () => {
+    toggleBooleanSetting(loadMarketplaceSettings, saveMarketplaceSettings)
+      .catch(error => debugLog('Error toggling marketplace links:', error));
+  },
+  'toggle-dashboard': () => {
+    toggleDashboardModal().catch(error => debugLog('Error toggling stable dashboard:', error));
+  }
+};
 
 /**
  * Cleans up existing WXT UI components
@@ -48,10 +115,19 @@ function cleanupUIComponents(): void {
   
   // Clean up settings modal components
   cleanupSettingsModal();
+  cleanupLedgerModal();
+  cleanupDashboardModal();
+  cleanupCompareModal();
+  cleanupStableDiffPanel();
   
   // Clean up marketplace buttons and energy recovery info
   cleanupMarketplaceButtons();
   cleanupEnergyRecoveryInfo();
+  cleanupHorseCompare();
+  cleanupLevelProjections();
+  stopInlineAnnotations();
+  stopSettingsSync();
+  stopHotkeys();
   
   // Stop observer if needed
   stopHorseObserver();
@@ -71,6 +147,21 @@ async function createUIComponents(ctx: any, settings?: AllSettings): Promise<voi
   // Create settings modal first (always needed to change settings)
   await createSettingsModal(ctx);
   
+  // Balance ledger modal is opened from the converter dropdown
+  createLedgerModal(ctx);
+  
+  // Stable dashboard modal is opened from the converter dropdown or its hotkey
+  createDashboardModal(ctx);
+  
+  // Comparison modal is opened from the compare bar once horse cards are ticked
+  createCompareModal(ctx);
+  startHorseCompare(horseIds => {
+    showCompareModal(horseIds).catch(error => debugLog('Error opening horse comparison:', error));
+  });
+  
+  // "Since your last visit" panel is shown by the horse analyzer once it finds changes
+  createStableDiffPanel(ctx);
+  
   // Create currency conversion UI only if enabled
   if (settings.converterEnabled) {
     currencyUI = createCurrencyConversionUI(ctx);
@@ -78,6 +169,11 @@ async function createUIComponents(ctx: any, settings?: AllSettings): Promise<voi
   } else {
     debugLog('Price converter is disabled via settings');
   }
+  
+  // Annotate PHORSE amounts elsewhere on the page
+  if (settings.inlineAnnotationsEnabled) {
+    startInlineAnnotations();
+  }
 }
 
 /**
@@ -109,6 +205,15 @@ async function reinitializeComponents(ctx: any): Promise<void> {
       currencyUI.autoMount();
     }
     
+    // Add or remove the settings button
+    await createSettingsModal(ctx);
+    
+    // Restart inline annotations so they pick up new currency, rates and number format
+    stopInlineAnnotations();
+    if (settings.inlineAnnotationsEnabled) {
+      startInlineAnnotations();
+    }
+    
     // Update observer settings (it will handle the new settings)
     await updateObserverSettings();
     
@@ -136,8 +241,14 @@ async function initialize(ctx: any): Promise<void> {
     // Store context for later use
     wxtContext = ctx;
     
+    // Register user-defined tokens before the preferred currency is validated
+    await syncCustomTokens();
+    await syncRateOverrides();
+    await syncNumberFormatSettings();
+    
     // Load user's preferred currency first (always needed for state)
     await initializeConversionState();
+    await initializeDisplayState();
     
     // Load all settings once for efficiency
     const settings = await loadAllSettings();
@@ -145,8 +256,11 @@ async function initialize(ctx: any): Promise<void> {
     // Initialize horse analyzer and load persisted data (always enabled)
     await initializeHorseAnalyzer();
     
+    // Receive shared price cache updates pushed by the background worker
+    initializePriceSync();
+    
     try {
-      // Fetch all token prices in single API call to populate cache
+      // Fetch all token prices from the shared background cache
       await fetchAllTokenPrices();
     } catch (error) {
       debugLog('Error fetching token prices:', error);
@@ -158,6 +272,12 @@ async function initialize(ctx: any): Promise<void> {
     
     // Initialize the permanent horse observer
     await initializeHorseObserver();
+    
+    // Follow currency and settings changes made in other tabs
+    await startSettingsSync();
+    
+    // Keyboard shortcuts (manifest commands and in-page hotkeys)
+    await startHotkeys(hotkeyHandlers);
   } finally {
     setIsInitializing(false);
   }
@@ -184,6 +304,9 @@ async function initialize(ctx: any): Promise<void> {
     // Ensure current conversion is still enabled after settings change
     await ensureCurrentConversionIsEnabled();
     
+    // Drop pinned currencies that were disabled
+    await initializeDisplayState();
+    
     // Reinitialize components to apply new settings
     await reinitializeComponents(ctx);
   });
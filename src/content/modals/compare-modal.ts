@@ -0,0 +1,177 @@
+// ============= HORSE COMPARE MODAL =============
+// Side-by-side stats of the ticked horses, best value per row highlighted
+import { CONFIG, calculateEnergyRecoveryPer6Hours } from '../config';
+import { extractHorseData, type HorseInfo } from '../utils/horse-data-extractor';
+import { getHorses } from '../utils/horse-analyzer';
+import { createModalController, type ModalController } from './modal-base';
+
+/**
+ * One comparison row
+ * Rows without a value are shown but never highlighted
+ */
+interface CompareRow {
+  label: string;
+  text: (horse: HorseInfo) => string;
+  value?: (horse: HorseInfo) => number;
+  lowerIsBetter?: boolean;
+}
+
+const COMPARE_ROWS: CompareRow[] = [
+  { label: 'Rarity', text: horse => horse.rarity },
+  { label: 'Level', text: horse => String(horse.stats.level), value: horse => horse.stats.level },
+  { label: 'PWR', text: horse => String(horse.stats.power), value: horse => horse.stats.power },
+  { label: 'SPT base', text: horse => String(horse.stats.spirit.base), value: horse => horse.stats.spirit.base },
+  { label: 'SPT bonus', text: horse => `+${horse.stats.spirit.bonus || 0}`, value: horse => horse.stats.spirit.bonus || 0 },
+  { label: 'SPT total', text: horse => String(getStatTotal(horse.stats.spirit)), value: horse => getStatTotal(horse.stats.spirit) },
+  { label: 'SPD base', text: horse => String(horse.stats.speed.base), value: horse => horse.stats.speed.base },
+  { label: 'SPD bonus', text: horse => `+${horse.stats.speed.bonus || 0}`, value: horse => horse.stats.speed.bonus || 0 },
+  { label: 'SPD total', text: horse => String(getStatTotal(horse.stats.speed)), value: horse => getStatTotal(horse.stats.speed) },
+  { label: 'Energy', text: horse => `${horse.stats.energy.current}/${horse.stats.energy.max}`, value: horse => horse.stats.energy.current },
+  { label: 'Max energy', text: horse => String(horse.stats.energy.max), value: horse => horse.stats.energy.max },
+  {
+    label: 'Recovery / 6h',
+    text: horse => `+${calculateEnergyRecoveryPer6Hours(horse.stats.level)}`,
+    value: horse => calculateEnergyRecoveryPer6Hours(horse.stats.level)
+  },
+  { label: 'Breeds left', text: horse => `${horse.breeds.total - horse.breeds.used}/${horse.breeds.total}`, value: horse => horse.breeds.total - horse.breeds.used },
+  // Earlier generations are the scarcer ones
+  { label: 'Generation', text: horse => String(horse.generation), value: horse => horse.generation, lowerIsBetter: true },
+  {
+    label: 'Items',
+    text: horse => horse.items.map(item => item.quantity ? `${item.name} ×${item.quantity}` : item.name).join(', ') || '—'
+  }
+];
+
+// Modal state variables
+let compareModal: ModalController | null = null;
+let comparedHorseIds: number[] = [];
+
+/**
+ * Adds a stat's item bonus to its base
+ * @param stat - Base value and optional bonus
+ * @returns Total value
+ */
+function getStatTotal(stat: { base: number; bonus?: number; }): number {
+  return stat.base + (stat.bonus || 0);
+}
+
+/**
+ * Gets the compared horses, preferring the live card data over the stored analysis
+ * @returns Horses in the order they were ticked (horses no longer found are left out)
+ */
+async function getComparedHorses(): Promise<HorseInfo[]> {
+  const horsesById = new Map<number, HorseInfo>();
+  (await getHorses()).forEach(horse => horsesById.set(horse.id, horse));
+
+  document.querySelectorAll<HTMLElement>('[class*="styles_singleHorse__"]').forEach(card => {
+    const horse = extractHorseData(card);
+    if (horse) {
+      horsesById.set(horse.id, horse);
+    }
+  });
+
+  return comparedHorseIds
+    .map(id => horsesById.get(id))
+    .filter((horse): horse is HorseInfo => horse !== undefined);
+}
+
+/**
+ * Creates one comparison row, highlighting the best value unless all values are equal
+ * @param row - Row definition
+ * @param horses - Compared horses
+ * @returns Table row element
+ */
+function createCompareRow(row: CompareRow, horses: HorseInfo[]): HTMLTableRowElement {
+  const tr = document.createElement('tr');
+  const th = document.createElement('th');
+  th.textContent = row.label;
+  tr.appendChild(th);
+
+  const values = row.value ? horses.map(row.value) : [];
+  const best = row.lowerIsBetter ? Math.min(...values) : Math.max(...values);
+  const allEqual = values.every(value => value === values[0]);
+
+  horses.forEach((horse, index) => {
+    const cell = tr.insertCell();
+    cell.textContent = row.text(horse);
+    if (row.value && !allEqual && values[index] === best) {
+      cell.classList.add(CONFIG.CSS_CLASSES.COMPARE_BEST);
+    }
+  });
+
+  return tr;
+}
+
+/**
+ * Renders the comparison into the modal body
+ * @param body - Modal body element
+ */
+async function renderCompareBody(body: HTMLElement): Promise<void> {
+  const horses = await getComparedHorses();
+  body.innerHTML = '';
+
+  if (horses.length < CONFIG.HORSE_COMPARE.MIN_HORSES) {
+    const note = document.createElement('p');
+    note.classList.add(CONFIG.CSS_CLASSES.LEDGER_NOTE);
+    note.textContent = `Tick ${CONFIG.HORSE_COMPARE.MIN_HORSES}-${CONFIG.HORSE_COMPARE.MAX_HORSES} horse cards in your stable to compare them.`;
+    body.appendChild(note);
+    return;
+  }
+
+  const table = document.createElement('table');
+  table.classList.add(CONFIG.CSS_CLASSES.LEDGER_TABLE, CONFIG.CSS_CLASSES.COMPARE_TABLE);
+
+  const headerRow = table.createTHead().insertRow();
+  headerRow.appendChild(document.createElement('th'));
+  horses.forEach(horse => {
+    const th = document.createElement('th');
+    th.textContent = `${horse.name} #${horse.id}`;
+    headerRow.appendChild(th);
+  });
+
+  const tbody = table.createTBody();
+  COMPARE_ROWS.forEach(row => tbody.appendChild(createCompareRow(row, horses)));
+
+  body.appendChild(table);
+}
+
+/**
+ * Shows the comparison of the given horses
+ * @param horseIds - Horse ids, in column order
+ */
+export async function showCompareModal(horseIds: number[]): Promise<void> {
+  comparedHorseIds = horseIds;
+  await compareModal?.show();
+}
+
+/**
+ * Hides the comparison modal
+ */
+export function hideCompareModal(): void {
+  compareModal?.hide();
+}
+
+/**
+ * Creates the comparison modal (shown from the compare bar once horses are ticked)
+ * @param ctx - WXT content script context
+ */
+export function createCompareModal(ctx: any): void {
+  if (!compareModal) {
+    compareModal = createModalController(ctx, {
+      title: 'Compare Horses',
+      className: CONFIG.CSS_CLASSES.COMPARE_MODAL,
+      renderBody: renderCompareBody
+    });
+  }
+}
+
+/**
+ * Cleans up the comparison modal
+ */
+export function cleanupCompareModal(): void {
+  if (compareModal) {
+    compareModal.remove();
+    compareModal = null;
+  }
+  comparedHorseIds = [];
+}
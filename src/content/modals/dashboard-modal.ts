@@ -0,0 +1,335 @@
+// ============= STABLE DASHBOARD MODAL =============
+// Sortable, filterable table of every stored horse; clicking a row jumps to its card
+import { CONFIG, debugLog } from '../config';
+import { extractHorseData, type HorseInfo } from '../utils/horse-data-extractor';
+import { filterHorses, getHorses, type HorseFilterCriteria } from '../utils/horse-analyzer';
+import { exportStable, type HorseExportFormat } from '../utils/horse-export';
+import { createModalController, type ModalController } from './modal-base';
+
+/**
+ * Sortable table columns
+ */
+type DashboardColumn = 'name' | 'level' | 'power' | 'spirit' | 'speed' | 'energy' | 'breeds' | 'status';
+
+/**
+ * Column heading and the value rows are sorted by
+ */
+interface ColumnDefinition {
+  heading: string;
+  sortValue: (horse: HorseInfo) => number | string;
+}
+
+const COLUMNS: Record<DashboardColumn, ColumnDefinition> = {
+  name: { heading: 'Horse', sortValue: horse => horse.name.toLowerCase() },
+  level: { heading: 'Level', sortValue: horse => horse.stats.level },
+  power: { heading: 'PWR', sortValue: horse => horse.stats.power },
+  spirit: { heading: 'SPT', sortValue: horse => horse.stats.spirit.base + (horse.stats.spirit.bonus || 0) },
+  speed: { heading: 'SPD', sortValue: horse => horse.stats.speed.base + (horse.stats.speed.bonus || 0) },
+  energy: { heading: 'Energy', sortValue: horse => horse.stats.energy.current },
+  breeds: { heading: 'Breeds', sortValue: horse => horse.breeds.total - horse.breeds.used },
+  status: { heading: 'Status', sortValue: horse => horse.status.toLowerCase() }
+};
+
+// Modal state variables
+let dashboardModal: ModalController | null = null;
+let criteria: HorseFilterCriteria = {};
+let sortColumn: DashboardColumn = 'level';
+let sortDescending = true;
+let highlightTimeout: number | null = null;
+
+/**
+ * Formats a stat with its item bonus
+ * @param stat - Base value and optional bonus
+ * @returns Text such as "42 (+6)" or "42"
+ */
+function formatStatWithBonus(stat: { base: number; bonus?: number; }): string {
+  return stat.bonus ? `${stat.base} (+${stat.bonus})` : String(stat.base);
+}
+
+/**
+ * Sorts horses by the selected column
+ * @param horses - Horses to sort
+ * @returns New sorted array
+ */
+function sortHorses(horses: HorseInfo[]): HorseInfo[] {
+  const { sortValue } = COLUMNS[sortColumn];
+  const direction = sortDescending ? -1 : 1;
+
+  return [...horses].sort((a, b) => {
+    const valueA = sortValue(a);
+    const valueB = sortValue(b);
+    const order = typeof valueA === 'string' || typeof valueB === 'string'
+      ? String(valueA).localeCompare(String(valueB))
+      : valueA - valueB;
+    return order * direction || a.id - b.id;
+  });
+}
+
+/**
+ * Creates a filter chip
+ * @param label - Chip text
+ * @param active - Whether the filter is applied
+ * @param onClick - Called when the chip is clicked
+ * @returns Chip element
+ */
+function createChip(label: string, active: boolean, onClick: () => void): HTMLElement {
+  const chip = document.createElement('button');
+  chip.classList.add(CONFIG.CSS_CLASSES.DASHBOARD_CHIP);
+  chip.classList.toggle('active', active);
+  chip.textContent = label;
+  chip.addEventListener('click', () => {
+    onClick();
+    dashboardModal?.refresh();
+  });
+  return chip;
+}
+
+/**
+ * Creates the filter chips - one choice per group, clicking the active chip clears it
+ * @param horses - Every stored horse, for the rarity and status choices
+ * @returns Chips element
+ */
+function createFilterChips(horses: HorseInfo[]): HTMLElement {
+  const chips = document.createElement('div');
+  chips.classList.add(CONFIG.CSS_CLASSES.DASHBOARD_CHIPS);
+
+  const rarities = [...new Set(horses.map(horse => horse.rarity).filter(Boolean))].sort();
+  rarities.forEach(rarity => {
+    chips.appendChild(createChip(rarity, criteria.rarity === rarity, () => {
+      criteria.rarity = criteria.rarity === rarity ? undefined : rarity;
+    }));
+  });
+
+  const statuses = [...new Set(horses.map(horse => horse.status).filter(Boolean))].sort();
+  statuses.forEach(status => {
+    chips.appendChild(createChip(status, criteria.status === status, () => {
+      criteria.status = criteria.status === status ? undefined : status;
+    }));
+  });
+
+  CONFIG.DASHBOARD.LEVEL_RANGES.forEach(range => {
+    const active = criteria.minLevel === range.min && criteria.maxLevel === range.max;
+    chips.appendChild(createChip(range.label, active, () => {
+      criteria.minLevel = active ? undefined : range.min;
+      criteria.maxLevel = active ? undefined : range.max;
+    }));
+  });
+
+  chips.appendChild(createChip('Low energy', !!criteria.lowEnergy, () => {
+    criteria.lowEnergy = !criteria.lowEnergy || undefined;
+  }));
+
+  return chips;
+}
+
+/**
+ * Creates the export buttons - exports cover every stored horse, not just the filtered ones
+ * @returns Export buttons element
+ */
+function createExportButtons(): HTMLElement {
+  const container = document.createElement('div');
+  container.classList.add(CONFIG.CSS_CLASSES.DASHBOARD_EXPORT);
+
+  (['csv', 'json'] as HorseExportFormat[]).forEach(format => {
+    const button = document.createElement('button');
+    button.classList.add(CONFIG.CSS_CLASSES.DASHBOARD_CHIP);
+    button.textContent = `⬇ Export ${format.toUpperCase()}`;
+    button.addEventListener('click', () => {
+      exportStable(format).catch(error => debugLog('Error exporting stable:', error));
+    });
+    container.appendChild(button);
+  });
+
+  return container;
+}
+
+/**
+ * Creates a header cell that sorts by its column when clicked
+ * @param column - Column of the cell
+ * @returns Header cell element
+ */
+function createSortableHeading(column: DashboardColumn): HTMLTableCellElement {
+  const th = document.createElement('th');
+  const arrow = column === sortColumn ? (sortDescending ? ' ▼' : ' ▲') : '';
+  th.textContent = `${COLUMNS[column].heading}${arrow}`;
+
+  th.addEventListener('click', () => {
+    if (column === sortColumn) {
+      sortDescending = !sortDescending;
+    } else {
+      sortColumn = column;
+      // Names and statuses read best A-Z, numbers highest first
+      sortDescending = column !== 'name' && column !== 'status';
+    }
+    dashboardModal?.refresh();
+  });
+
+  return th;
+}
+
+/**
+ * Finds the card of a horse on the page
+ * @param horseId - Horse id
+ * @returns Card element, or null if the horse is not on the current page
+ */
+function findHorseCard(horseId: number): HTMLElement | null {
+  const cards = document.querySelectorAll<HTMLElement>('[class*="styles_singleHorse__"]');
+  return Array.from(cards).find(card => extractHorseData(card)?.id === horseId) ?? null;
+}
+
+/**
+ * Scrolls to a horse card and highlights it briefly
+ * @param horse - Horse of the clicked row
+ * @param body - Modal body, for the note when the card is not on the page
+ */
+function jumpToHorse(horse: HorseInfo, body: HTMLElement): void {
+  const card = findHorseCard(horse.id);
+  if (!card) {
+    const note = body.querySelector(`.${CONFIG.CSS_CLASSES.LEDGER_NOTE}`);
+    if (note) {
+      note.textContent = `${horse.name} is not on this page - open your stable to jump to its card`;
+    }
+    return;
+  }
+
+  hideDashboardModal();
+  card.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT}`).forEach(element => {
+    element.classList.remove(CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT);
+  });
+  if (highlightTimeout !== null) {
+    clearTimeout(highlightTimeout);
+  }
+  card.classList.add(CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT);
+  highlightTimeout = window.setTimeout(() => {
+    card.classList.remove(CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT);
+    highlightTimeout = null;
+  }, CONFIG.DASHBOARD.HIGHLIGHT_MS);
+
+  debugLog(`Dashboard: jumped to horse ${horse.id}`);
+}
+
+/**
+ * Creates the horse table
+ * @param horses - Filtered horses
+ * @param body - Modal body, passed to the row click handler
+ * @returns Table element
+ */
+function createHorseTable(horses: HorseInfo[], body: HTMLElement): HTMLElement {
+  const table = document.createElement('table');
+  table.classList.add(CONFIG.CSS_CLASSES.LEDGER_TABLE, CONFIG.CSS_CLASSES.DASHBOARD_TABLE);
+
+  const headerRow = table.createTHead().insertRow();
+  (Object.keys(COLUMNS) as DashboardColumn[]).forEach(column => {
+    headerRow.appendChild(createSortableHeading(column));
+  });
+
+  const tbody = table.createTBody();
+  sortHorses(horses).forEach(horse => {
+    const row = tbody.insertRow();
+    row.title = `Show #${horse.id} on the page`;
+    row.insertCell().textContent = horse.name;
+    row.insertCell().textContent = String(horse.stats.level);
+    row.insertCell().textContent = String(horse.stats.power);
+    row.insertCell().textContent = formatStatWithBonus(horse.stats.spirit);
+    row.insertCell().textContent = formatStatWithBonus(horse.stats.speed);
+    row.insertCell().textContent = `${horse.stats.energy.current}/${horse.stats.energy.max}`;
+    row.insertCell().textContent = `${horse.breeds.used}/${horse.breeds.total}`;
+    row.insertCell().textContent = horse.status;
+
+    row.addEventListener('click', () => jumpToHorse(horse, body));
+  });
+
+  return table;
+}
+
+/**
+ * Creates a note paragraph
+ * @param text - Note text
+ * @returns Note element
+ */
+function createNote(text: string): HTMLElement {
+  const note = document.createElement('p');
+  note.classList.add(CONFIG.CSS_CLASSES.LEDGER_NOTE);
+  note.textContent = text;
+  return note;
+}
+
+/**
+ * Renders the dashboard into the modal body
+ * @param body - Modal body element
+ */
+async function renderDashboardBody(body: HTMLElement): Promise<void> {
+  const [horses, filtered] = await Promise.all([getHorses(), filterHorses(criteria)]);
+  body.innerHTML = '';
+
+  if (horses.length === 0) {
+    body.appendChild(createNote('No horses stored yet. Open your stable in the game to analyze your horses.'));
+    return;
+  }
+
+  body.appendChild(createExportButtons());
+  body.appendChild(createFilterChips(horses));
+  body.appendChild(createNote(`${filtered.length} of ${horses.length} horses - click a row to show its card`));
+
+  if (filtered.length > 0) {
+    body.appendChild(createHorseTable(filtered, body));
+  }
+}
+
+/**
+ * Shows the stable dashboard modal
+ */
+export async function showDashboardModal(): Promise<void> {
+  await dashboardModal?.show();
+}
+
+/**
+ * Hides the stable dashboard modal
+ */
+export function hideDashboardModal(): void {
+  dashboardModal?.hide();
+}
+
+/**
+ * Shows the stable dashboard modal, or hides it if it is visible
+ */
+export async function toggleDashboardModal(): Promise<void> {
+  if (dashboardModal?.isVisible()) {
+    hideDashboardModal();
+  } else {
+    await showDashboardModal();
+  }
+}
+
+/**
+ * Creates the stable dashboard modal (shown on demand from the converter dropdown or its hotkey)
+ * @param ctx - WXT content script context
+ */
+export function createDashboardModal(ctx: any): void {
+  if (!dashboardModal) {
+    dashboardModal = createModalController(ctx, {
+      title: 'Stable Dashboard',
+      className: CONFIG.CSS_CLASSES.DASHBOARD_MODAL,
+      renderBody: renderDashboardBody
+    });
+  }
+}
+
+/**
+ * Cleans up the stable dashboard modal
+ */
+export function cleanupDashboardModal(): void {
+  if (highlightTimeout !== null) {
+    clearTimeout(highlightTimeout);
+    highlightTimeout = null;
+  }
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT}`).forEach(element => {
+    element.classList.remove(CONFIG.CSS_CLASSES.HORSE_HIGHLIGHT);
+  });
+  if (dashboardModal) {
+    dashboardModal.remove();
+    dashboardModal = null;
+  }
+}
@@ -0,0 +1,249 @@
+// ============= BALANCE LEDGER MODAL =============
+// Daily/weekly earnings and spending from the balance ledger, in the selected currency
+import { CONFIG, getConversionDisplayText, type ConversionKey } from '../config';
+import { loadBalanceLedger } from '../storage';
+import { getCurrentConversion } from '../state';
+import { formatPrice } from '../utils/formatting';
+import { formatNumber } from '../utils/number-format';
+import { getLedgerEntryValue, summarizeLedger, type LedgerEntry, type LedgerPeriod, type LedgerPeriodSummary } from '../utils/balance-ledger';
+import { createModalController, type ModalController } from './modal-base';
+
+// Tab labels in display order
+const PERIOD_LABELS: Record<LedgerPeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly'
+};
+
+// Modal state variables
+let ledgerModal: ModalController | null = null;
+let selectedPeriod: LedgerPeriod = 'day';
+
+/**
+ * Formats a signed value with an explicit plus sign for gains
+ * @param value - Signed value
+ * @param format - Formatter for the absolute amount
+ * @returns Formatted value (e.g. "+$1.20", "-$0.45")
+ */
+function formatSigned(value: number, format: (value: number) => string): string {
+  if (value === 0) return format(0);
+  return `${value > 0 ? '+' : '-'}${format(Math.abs(value))}`;
+}
+
+/**
+ * Creates a table cell colored by the sign of a value
+ * @param value - Signed value deciding the color
+ * @param text - Cell text
+ * @returns Table cell element
+ */
+function createSignedCell(value: number, text: string): HTMLTableCellElement {
+  const cell = document.createElement('td');
+  cell.textContent = text;
+  if (value > 0) {
+    cell.classList.add(CONFIG.CSS_CLASSES.PRICE_CHANGE_UP);
+  } else if (value < 0) {
+    cell.classList.add(CONFIG.CSS_CLASSES.PRICE_CHANGE_DOWN);
+  }
+  return cell;
+}
+
+/**
+ * Creates a table with a header row
+ * @param headings - Column headings
+ * @returns Table element and its body
+ */
+function createTable(headings: string[]): { table: HTMLTableElement; tbody: HTMLTableSectionElement } {
+  const table = document.createElement('table');
+  table.classList.add(CONFIG.CSS_CLASSES.LEDGER_TABLE);
+
+  const headerRow = table.createTHead().insertRow();
+  headings.forEach(heading => {
+    const th = document.createElement('th');
+    th.textContent = heading;
+    headerRow.appendChild(th);
+  });
+
+  return { table, tbody: table.createTBody() };
+}
+
+/**
+ * Formats the label of a summary period
+ * @param summary - Period summary
+ * @returns Label such as "Mon, Jun 3" or "Week of Jun 3"
+ */
+function formatPeriodLabel(summary: LedgerPeriodSummary): string {
+  const date = new Date(summary.start);
+  if (selectedPeriod === 'week') {
+    return `Week of ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  }
+  return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Creates the daily/weekly tab switch
+ * @returns Tabs element
+ */
+function createPeriodTabs(): HTMLElement {
+  const tabs = document.createElement('div');
+  tabs.classList.add(CONFIG.CSS_CLASSES.LEDGER_TABS);
+
+  (Object.keys(PERIOD_LABELS) as LedgerPeriod[]).forEach(period => {
+    const tab = document.createElement('button');
+    tab.classList.add(CONFIG.CSS_CLASSES.LEDGER_TAB);
+    tab.classList.toggle('active', period === selectedPeriod);
+    tab.textContent = PERIOD_LABELS[period];
+
+    tab.addEventListener('click', () => {
+      if (period === selectedPeriod) return;
+      selectedPeriod = period;
+      ledgerModal?.refresh();
+    });
+
+    tabs.appendChild(tab);
+  });
+
+  return tabs;
+}
+
+/**
+ * Creates the per-period summary table
+ * @param summaries - Period summaries, newest first
+ * @param conversion - Conversion the values are expressed in
+ * @returns Table element
+ */
+function createSummaryTable(summaries: LedgerPeriodSummary[], conversion: ConversionKey): HTMLElement {
+  const { table, tbody } = createTable([
+    selectedPeriod === 'week' ? 'Week' : 'Day',
+    'Earned',
+    'Spent',
+    'Net',
+    'PHORSE'
+  ]);
+
+  summaries.forEach(summary => {
+    const row = tbody.insertRow();
+    row.insertCell().textContent = formatPeriodLabel(summary);
+
+    if (summary.entryCount === 0) {
+      row.insertCell().textContent = '—';
+      row.insertCell().textContent = '—';
+      row.insertCell().textContent = '—';
+      row.insertCell().textContent = '—';
+      return;
+    }
+
+    row.insertCell().textContent = formatPrice(summary.earned, conversion);
+    row.insertCell().textContent = formatPrice(summary.spent, conversion);
+    row.appendChild(createSignedCell(summary.net, formatSigned(summary.net, value => formatPrice(value, conversion))));
+    row.appendChild(createSignedCell(summary.phorseNet, formatSigned(summary.phorseNet, value => formatNumber(value))));
+  });
+
+  return table;
+}
+
+/**
+ * Creates the table of the most recent balance changes
+ * @param entries - Ledger entries, oldest first
+ * @param conversion - Conversion the values are expressed in
+ * @returns Table element
+ */
+function createRecentEntriesTable(entries: LedgerEntry[], conversion: ConversionKey): HTMLElement {
+  const { table, tbody } = createTable(['Time', 'PHORSE', 'Value']);
+
+  entries.slice(-CONFIG.BALANCE_LEDGER.RECENT_ENTRIES).reverse().forEach(entry => {
+    const row = tbody.insertRow();
+    row.insertCell().textContent = new Date(entry.timestamp).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    row.appendChild(createSignedCell(entry.amount, formatSigned(entry.amount, value => formatNumber(value))));
+
+    const value = getLedgerEntryValue(entry, conversion);
+    row.appendChild(value === null
+      ? createSignedCell(0, 'No rate')
+      : createSignedCell(value, formatSigned(value, amount => formatPrice(amount, conversion))));
+  });
+
+  return table;
+}
+
+/**
+ * Creates a note paragraph
+ * @param text - Note text
+ * @returns Note element
+ */
+function createNote(text: string): HTMLElement {
+  const note = document.createElement('p');
+  note.classList.add(CONFIG.CSS_CLASSES.LEDGER_NOTE);
+  note.textContent = text;
+  return note;
+}
+
+/**
+ * Renders the ledger view into the modal body
+ * @param body - Modal body element
+ */
+async function renderLedgerBody(body: HTMLElement): Promise<void> {
+  const entries = await loadBalanceLedger();
+  const conversion = getCurrentConversion();
+  body.innerHTML = '';
+
+  if (entries.length === 0) {
+    body.appendChild(createNote('No balance changes recorded yet. Changes are recorded while the game is open with the converter enabled.'));
+    return;
+  }
+
+  const count = selectedPeriod === 'week' ? CONFIG.BALANCE_LEDGER.WEEKS_SHOWN : CONFIG.BALANCE_LEDGER.DAYS_SHOWN;
+  const summaries = summarizeLedger(entries, conversion, selectedPeriod, count);
+
+  body.appendChild(createPeriodTabs());
+  body.appendChild(createNote(`Values in ${getConversionDisplayText(conversion, 'name')} at the rates when each change happened`));
+  body.appendChild(createSummaryTable(summaries, conversion));
+
+  const unpricedCount = summaries.reduce((total, summary) => total + summary.unpricedCount, 0);
+  if (unpricedCount > 0) {
+    body.appendChild(createNote(`${unpricedCount} change(s) recorded before prices loaded only count towards the PHORSE column`));
+  }
+
+  body.appendChild(createNote('Recent changes'));
+  body.appendChild(createRecentEntriesTable(entries, conversion));
+}
+
+/**
+ * Shows the balance ledger modal
+ */
+export async function showLedgerModal(): Promise<void> {
+  await ledgerModal?.show();
+}
+
+/**
+ * Hides the balance ledger modal
+ */
+export function hideLedgerModal(): void {
+  ledgerModal?.hide();
+}
+
+/**
+ * Creates the balance ledger modal (shown on demand from the converter dropdown)
+ * @param ctx - WXT content script context
+ */
+export function createLedgerModal(ctx: any): void {
+  if (!ledgerModal) {
+    ledgerModal = createModalController(ctx, {
+      title: 'Balance Ledger',
+      className: CONFIG.CSS_CLASSES.LEDGER_MODAL,
+      renderBody: renderLedgerBody
+    });
+  }
+}
+
+/**
+ * Cleans up the balance ledger modal
+ */
+export function cleanupLedgerModal(): void {
+  if (ledgerModal) {
+    ledgerModal.remove();
+    ledgerModal = null;
+  }
+}
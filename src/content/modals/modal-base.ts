@@ -0,0 +1,158 @@
+// ============= MODAL BASE =============
+// Shared building blocks for extension modals: header with the game's close icon,
+// backdrop click-to-close and mount-on-show / unmount-on-hide via createIntegratedUi
+import { CONFIG } from '../config';
+import { createIntegratedUi } from '#imports';
+
+/**
+ * Options for a modal created with createModalController
+ */
+export interface ModalOptions {
+  title: string;
+  /** Extra class on the content box for modal-specific styles */
+  className?: string;
+  /** Fills the modal body; called on every show so the content reflects current data */
+  renderBody: (body: HTMLElement) => void | Promise<void>;
+}
+
+/**
+ * Controls a modal created with createModalController
+ */
+export interface ModalController {
+  show: () => Promise<void>;
+  hide: () => void;
+  /** Re-renders the body of a visible modal */
+  refresh: () => Promise<void>;
+  isVisible: () => boolean;
+  remove: () => void;
+}
+
+/**
+ * Creates the modal header with title and close button
+ * @param title - Header title
+ * @param onClose - Called when the close button is clicked
+ * @returns HTMLElement - Modal header element
+ */
+export function createModalHeader(title: string, onClose: () => void): HTMLElement {
+  const header = document.createElement('div');
+  header.classList.add(CONFIG.CSS_CLASSES.MODAL_HEADER);
+
+  const titleSpan = document.createElement('span');
+  titleSpan.textContent = title;
+  header.appendChild(titleSpan);
+
+  // Create close button using page's close icon
+  const closeButton = document.createElement('button');
+  closeButton.classList.add(CONFIG.CSS_CLASSES.MODAL_CLOSE_BUTTON);
+  closeButton.title = 'Cerrar';
+
+  // Create close icon image
+  const closeIcon = document.createElement('img');
+  closeIcon.alt = 'Close';
+  closeIcon.src = '/_next/image?url=%2F_next%2Fstatic%2Fmedia%2Ffechar.6bf40c51.png&w=64&q=75';
+  closeIcon.classList.add(CONFIG.CSS_CLASSES.MODAL_CLOSE_ICON);
+  closeIcon.setAttribute('decoding', 'async');
+  closeIcon.setAttribute('data-nimg', 'intrinsic');
+
+  // Add close functionality
+  closeButton.addEventListener('click', (e) => {
+    e.stopPropagation();
+    onClose();
+  });
+
+  closeButton.appendChild(closeIcon);
+  header.appendChild(closeButton);
+
+  return header;
+}
+
+/**
+ * Creates a modal that is mounted when shown and unmounted when hidden
+ * @param ctx - WXT content script context
+ * @param options - Title, styling and body renderer
+ * @returns Modal controller
+ * @example
+ * const modal = createModalController(ctx, { title: 'Ledger', renderBody: body => { body.textContent = 'Hi'; } });
+ * await modal.show();
+ */
+export function createModalController(ctx: any, options: ModalOptions): ModalController {
+  let container: HTMLElement | null = null;
+  let body: HTMLElement | null = null;
+  let visible = false;
+
+  const hide = (): void => {
+    if (container && visible) {
+      container.classList.remove('visible');
+      visible = false;
+
+      // Unmount modal to clean up DOM
+      ui.remove();
+    }
+  };
+
+  const ui = createIntegratedUi(ctx, {
+    position: 'inline',
+    anchor: 'body',
+    append: 'last',
+    onMount: (mountContainer: HTMLElement) => {
+      container = mountContainer;
+      mountContainer.classList.add(CONFIG.CSS_CLASSES.MODAL_CONTAINER);
+
+      // Add click-to-close on backdrop
+      mountContainer.addEventListener('click', (e) => {
+        if (e.target === mountContainer) {
+          hide();
+        }
+      });
+
+      const content = document.createElement('div');
+      content.classList.add(CONFIG.CSS_CLASSES.MODAL_CONTENT);
+      if (options.className) {
+        content.classList.add(options.className);
+      }
+
+      // Stop propagation on modal content to prevent closing when clicking inside
+      content.addEventListener('click', (e) => {
+        e.stopPropagation();
+      });
+
+      body = document.createElement('div');
+      body.classList.add(CONFIG.CSS_CLASSES.MODAL_BODY);
+
+      content.appendChild(createModalHeader(options.title, hide));
+      content.appendChild(body);
+      mountContainer.appendChild(content);
+    },
+    onRemove: () => {
+      container = null;
+      body = null;
+      visible = false;
+    }
+  });
+
+  const refresh = async (): Promise<void> => {
+    if (body && visible) {
+      await options.renderBody(body);
+    }
+  };
+
+  return {
+    show: async () => {
+      if (!container) {
+        ui.mount();
+      }
+
+      if (container && !visible) {
+        container.classList.add('visible');
+        visible = true;
+        await refresh();
+      }
+    },
+    hide,
+    refresh,
+    isVisible: () => visible,
+    remove: () => {
+      ui.remove();
+    }
+  };
+}
@@ -0,0 +1,1599 @@
+// ============= SETTINGS FORM COMPONENT =============
+// Settings sections, their editing state and saving - shared by the in-game settings
+// modal and the extension options page so both always offer the same settings
+import { CONFIG, debugLog, getConversionDisplayText, type ConversionKey } from '../config';
+import { loadAllSettings, saveAllSettings, getDefaultSettings, loadCustomTokens, loadHorseAnalysisData, type AllSettings, type StoredHorseInfo } from '../storage';
+import { getAllValidConversions, isValidConversion } from '../utils/validation';
+import { applyCustomTokens, syncCustomTokens, validateCustomToken } from '../utils/custom-tokens';
+import { describeRateOverride, isValidOverrideValue, setRateOverrides, RATE_OVERRIDE_MODE_LABELS, type RateOverrideMode } from '../utils/rate-overrides';
+import { formatConversionValue, setNumberFormatSettings, type NumberFormatSettings } from '../utils/number-format';
+import { refreshAllTokenPrices } from '../api';
+import { createPriceAlertRule, describePriceAlertRule, formatAlertWindow, isChangeAlert, PRICE_ALERT_TYPE_LABELS, type PriceAlertType } from '../utils/price-alerts';
+import type { EnergyNotificationSettings } from '../utils/energy-notifications';
+
+// Default currencies to enable when turning on converter with no selections
+const DEFAULT_ENABLED_CURRENCIES: ConversionKey[] = ['usd', 'ron'];
+
+// Default marketplaces to enable when turning on marketplace links with no selections
+const DEFAULT_ENABLED_MARKETPLACES: string[] = ['ronin', 'opensea'];
+
+// Form state variables
+let formRoot: HTMLElement | null = null;
+let currentSettings: AllSettings = getDefaultSettings();
+let onSettingsSaved: ((settings: AllSettings) => void) | null = null;
+
+// Horses from the last stored analysis, offered in the energy notification mute list
+let knownHorses: StoredHorseInfo[] = [];
+
+/**
+ * Updates the toggle UI to reflect current state
+ */
+function updateToggleUI(): void {
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}`) as HTMLSpanElement;
+  
+  if (toggleInput) {
+    toggleInput.checked = currentSettings.converterEnabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = currentSettings.converterEnabled ? 'ON' : 'OFF';
+  }
+}
+
+/**
+ * Updates currency list section visibility based on toggle state
+ */
+function updateCurrencyListVisibility(): void {
+  const currencyListSection = formRoot?.querySelector<HTMLElement>(`.${CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION}`);
+  if (currencyListSection) {
+    currencyListSection.style.display = currentSettings.converterEnabled ? 'block' : 'none';
+  }
+}
+
+/**
+ * Updates currency checkboxes to reflect current enabled currencies
+ */
+function updateCurrencyCheckboxes(): void {
+  const checkboxes = formRoot?.querySelectorAll(`.${CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX}`) as NodeListOf<HTMLInputElement>;
+  checkboxes?.forEach(checkbox => {
+    const currencyKey = checkbox.dataset.currency;
+    if (currencyKey) {
+      checkbox.checked = currentSettings.enabledCurrencies.includes(currencyKey);
+    }
+  });
+}
+
+/**
+ * Handles currency checkbox change
+ * @param currencyKey - The currency that was toggled
+ * @param enabled - Whether the currency is now enabled
+ */
+function handleCurrencyToggle(currencyKey: ConversionKey, enabled: boolean): void {
+  if (enabled) {
+    // Add currency if not already enabled
+    if (!currentSettings.enabledCurrencies.includes(currencyKey)) {
+      currentSettings.enabledCurrencies.push(currencyKey);
+    }
+  } else {
+    // Remove currency from enabled list
+    currentSettings.enabledCurrencies = currentSettings.enabledCurrencies.filter(key => key !== currencyKey);
+  }
+  
+  // CRITICAL FIX: Synchronize UI after state change
+  updateCurrencyCheckboxes();
+  
+  // Auto-disable converter if all currencies are unchecked
+  if (currentSettings.enabledCurrencies.length === 0 && currentSettings.converterEnabled) {
+    handleToggleChange(false);
+  }
+  
+}
+
+/**
+ * Handles toggle state change
+ * @param enabled - New toggle state
+ */
+function handleToggleChange(enabled: boolean): void {
+  currentSettings.converterEnabled = enabled;
+  
+  // Auto-enable default currencies when turning ON with no selections
+  if (enabled && currentSettings.enabledCurrencies.length === 0) {
+    currentSettings.enabledCurrencies = DEFAULT_ENABLED_CURRENCIES.slice();
+    updateCurrencyCheckboxes();
+  }
+  
+  updateToggleUI();
+  updateCurrencyListVisibility();
+}
+
+/**
+ * Updates the marketplace toggle UI to reflect current state
+ */
+function updateMarketplaceToggleUI(): void {
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-marketplace]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-marketplace]`) as HTMLSpanElement;
+  
+  if (toggleInput) {
+    toggleInput.checked = currentSettings.marketplaceLinksEnabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = currentSettings.marketplaceLinksEnabled ? 'ON' : 'OFF';
+  }
+}
+
+/**
+ * Updates marketplace list section visibility based on toggle state
+ */
+function updateMarketplaceListVisibility(): void {
+  const marketplaceListSection = formRoot?.querySelector<HTMLElement>(`[data-marketplace-section]`);
+  if (marketplaceListSection) {
+    marketplaceListSection.style.display = currentSettings.marketplaceLinksEnabled ? 'block' : 'none';
+  }
+}
+
+/**
+ * Updates marketplace checkboxes to reflect current enabled marketplaces
+ */
+function updateMarketplaceCheckboxes(): void {
+  const checkboxes = formRoot?.querySelectorAll(`.${CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX}[data-marketplace]`) as NodeListOf<HTMLInputElement>;
+  checkboxes?.forEach(checkbox => {
+    const marketplaceKey = checkbox.dataset.marketplace;
+    if (marketplaceKey) {
+      checkbox.checked = currentSettings.enabledMarketplaces.includes(marketplaceKey);
+    }
+  });
+}
+
+/**
+ * Handles marketplace checkbox change
+ * @param marketplaceKey - The marketplace that was toggled
+ * @param enabled - Whether the marketplace is now enabled
+ */
+function handleMarketplaceToggle(marketplaceKey: string, enabled: boolean): void {
+  if (enabled) {
+    // Add marketplace if not already enabled
+    if (!currentSettings.enabledMarketplaces.includes(marketplaceKey)) {
+      currentSettings.enabledMarketplaces.push(marketplaceKey);
+    }
+  } else {
+    // Remove marketplace from enabled list
+    currentSettings.enabledMarketplaces = currentSettings.enabledMarketplaces.filter(key => key !== marketplaceKey);
+  }
+  
+  // CRITICAL FIX: Synchronize UI after state change
+  updateMarketplaceCheckboxes();
+  
+  // Auto-disable marketplace links if all marketplaces are unchecked
+  if (currentSettings.enabledMarketplaces.length === 0 && currentSettings.marketplaceLinksEnabled) {
+    handleMarketplaceToggleChange(false);
+  }
+  
+}
+
+/**
+ * Handles marketplace toggle state change
+ * @param enabled - New marketplace toggle state
+ */
+function handleMarketplaceToggleChange(enabled: boolean): void {
+  currentSettings.marketplaceLinksEnabled = enabled;
+  
+  // Auto-enable default marketplaces when turning ON with no selections
+  if (enabled && currentSettings.enabledMarketplaces.length === 0) {
+    currentSettings.enabledMarketplaces = DEFAULT_ENABLED_MARKETPLACES.slice();
+    updateMarketplaceCheckboxes();
+  }
+  
+  updateMarketplaceToggleUI();
+  updateMarketplaceListVisibility();
+}
+
+/**
+ * Updates the energy recovery toggle UI to reflect current state
+ */
+function updateEnergyRecoveryToggleUI(): void {
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-energy-recovery]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-energy-recovery]`) as HTMLSpanElement;
+  
+  if (toggleInput) {
+    toggleInput.checked = currentSettings.energyRecoveryEnabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = currentSettings.energyRecoveryEnabled ? 'ON' : 'OFF';
+  }
+}
+
+/**
+ * Handles energy recovery toggle state change
+ * @param enabled - New energy recovery toggle state
+ */
+function handleEnergyRecoveryToggleChange(enabled: boolean): void {
+  currentSettings.energyRecoveryEnabled = enabled;
+  
+  updateEnergyRecoveryToggleUI();
+}
+
+/**
+ * Updates the energy notification toggle, lead time and horse list to reflect current state
+ */
+function updateEnergyNotificationUI(): void {
+  const energyNotifications = currentSettings.energyNotifications;
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-energy-notifications]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-energy-notifications]`) as HTMLSpanElement;
+  const leadSelect = formRoot?.querySelector('select[data-energy-lead]') as HTMLSelectElement | null;
+  const notificationSection = formRoot?.querySelector<HTMLElement>('[data-energy-notification-section]');
+  
+  if (toggleInput) {
+    toggleInput.checked = energyNotifications.enabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = energyNotifications.enabled ? 'ON' : 'OFF';
+  }
+  
+  if (leadSelect) {
+    leadSelect.value = String(energyNotifications.leadMinutes);
+  }
+  
+  // Lead time and horse list only matter while notifications are on
+  if (notificationSection) {
+    notificationSection.style.display = energyNotifications.enabled ? 'block' : 'none';
+  }
+  
+  updateEnergyNotificationHorseList();
+}
+
+/**
+ * Re-renders the horse list of the energy notification section
+ * Checked horses are notified about, unchecked ones are muted
+ */
+function updateEnergyNotificationHorseList(): void {
+  const horseList = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.ENERGY_NOTIFICATION_HORSES}`);
+  if (!horseList) return;
+  
+  horseList.innerHTML = '';
+  
+  if (knownHorses.length === 0) {
+    const emptyText = document.createElement('span');
+    emptyText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    emptyText.textContent = 'Open your horses in the game to list them here';
+    horseList.appendChild(emptyText);
+    return;
+  }
+  
+  knownHorses.forEach(horse => {
+    const horseItem = document.createElement('div');
+    horseItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM);
+    
+    // Notify checkbox (reusing currency checkbox styling)
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX);
+    checkbox.checked = !currentSettings.energyNotifications.mutedHorseIds.includes(horse.id);
+    checkbox.addEventListener('change', (e) => {
+      e.stopPropagation();
+      handleEnergyNotificationHorseToggle(horse.id, checkbox.checked);
+    });
+    
+    const checkboxContainer = document.createElement('div');
+    checkboxContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX_CONTAINER);
+    checkboxContainer.appendChild(checkbox);
+    
+    const labelText = document.createElement('span');
+    labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    labelText.textContent = `#${horse.id} ${horse.name}`;
+    
+    horseItem.appendChild(checkboxContainer);
+    horseItem.appendChild(labelText);
+    horseList.appendChild(horseItem);
+  });
+}
+
+/**
+ * Handles a change to any energy notification setting
+ * @param changes - Settings that changed
+ */
+function handleEnergyNotificationChange(changes: Partial<EnergyNotificationSettings>): void {
+  currentSettings.energyNotifications = { ...currentSettings.energyNotifications, ...changes };
+  
+  updateEnergyNotificationUI();
+}
+
+/**
+ * Handles muting or unmuting a horse in the energy notification list
+ * @param horseId - Id of the horse that was toggled
+ * @param notify - Whether the horse should be notified about
+ */
+function handleEnergyNotificationHorseToggle(horseId: number, notify: boolean): void {
+  const mutedHorseIds = currentSettings.energyNotifications.mutedHorseIds.filter(id => id !== horseId);
+  currentSettings.energyNotifications = {
+    ...currentSettings.energyNotifications,
+    mutedHorseIds: notify ? mutedHorseIds : [...mutedHorseIds, horseId]
+  };
+}
+
+/**
+ * Updates the inline annotations toggle UI to reflect current state
+ */
+function updateInlineAnnotationsToggleUI(): void {
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-inline-annotations]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-inline-annotations]`) as HTMLSpanElement;
+  
+  if (toggleInput) {
+    toggleInput.checked = currentSettings.inlineAnnotationsEnabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = currentSettings.inlineAnnotationsEnabled ? 'ON' : 'OFF';
+  }
+}
+
+/**
+ * Handles inline annotations toggle state change
+ * @param enabled - New inline annotations toggle state
+ */
+function handleInlineAnnotationsToggleChange(enabled: boolean): void {
+  currentSettings.inlineAnnotationsEnabled = enabled;
+  
+  updateInlineAnnotationsToggleUI();
+}
+
+/**
+ * Updates the settings button toggle UI to reflect current state
+ */
+function updateSettingsButtonToggleUI(): void {
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-settings-button]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-settings-button]`) as HTMLSpanElement;
+  
+  if (toggleInput) {
+    toggleInput.checked = currentSettings.settingsModalEnabled;
+  }
+  
+  if (statusText) {
+    statusText.textContent = currentSettings.settingsModalEnabled ? 'ON' : 'OFF';
+  }
+}
+
+/**
+ * Handles settings button toggle state change
+ * @param enabled - New settings button toggle state
+ */
+function handleSettingsButtonToggleChange(enabled: boolean): void {
+  currentSettings.settingsModalEnabled = enabled;
+  
+  updateSettingsButtonToggleUI();
+}
+
+/**
+ * Updates the number format controls and preview to reflect current settings
+ */
+function updateNumberFormatUI(): void {
+  const numberFormat = currentSettings.numberFormat;
+  const localeSelect = formRoot?.querySelector('select[data-number-locale]') as HTMLSelectElement | null;
+  const precisionSelect = formRoot?.querySelector('select[data-number-precision]') as HTMLSelectElement | null;
+  const toggleInput = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_SWITCH}[data-compact-numbers]`) as HTMLInputElement;
+  const statusText = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT}[data-compact-numbers]`) as HTMLSpanElement;
+  const preview = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.NUMBER_FORMAT_PREVIEW}`);
+  
+  if (localeSelect) {
+    localeSelect.value = numberFormat.locale;
+  }
+  
+  if (precisionSelect) {
+    precisionSelect.value = numberFormat.precision === null ? 'auto' : String(numberFormat.precision);
+  }
+  
+  if (toggleInput) {
+    toggleInput.checked = numberFormat.compact;
+  }
+  
+  if (statusText) {
+    statusText.textContent = numberFormat.compact ? 'ON' : 'OFF';
+  }
+  
+  // Sample values covering a normal fiat amount, a tiny token amount and a huge fiat amount
+  if (preview) {
+    preview.textContent = 'Preview: ' + [
+      formatConversionValue(1234.5678, 'usd', numberFormat),
+      formatConversionValue(0.00000314, 'wbtc', numberFormat),
+      formatConversionValue(45678901, 'vnd', numberFormat)
+    ].join(' · ');
+  }
+}
+
+/**
+ * Handles a change to any number format setting
+ * @param changes - Settings that changed
+ */
+function handleNumberFormatChange(changes: Partial<NumberFormatSettings>): void {
+  currentSettings.numberFormat = { ...currentSettings.numberFormat, ...changes };
+  
+  updateNumberFormatUI();
+}
+
+/**
+ * Re-renders the price alert rule list from current settings
+ */
+function updatePriceAlertList(): void {
+  const alertList = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.PRICE_ALERT_LIST}`);
+  if (!alertList) return;
+  
+  alertList.innerHTML = '';
+  
+  if (currentSettings.priceAlertRules.length === 0) {
+    const emptyText = document.createElement('span');
+    emptyText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    emptyText.textContent = 'No alerts yet';
+    alertList.appendChild(emptyText);
+    return;
+  }
+  
+  currentSettings.priceAlertRules.forEach(rule => {
+    const alertItem = document.createElement('div');
+    alertItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM, CONFIG.CSS_CLASSES.PRICE_ALERT_ITEM);
+    
+    // Enable checkbox (reusing currency checkbox styling)
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX);
+    checkbox.checked = rule.enabled;
+    checkbox.addEventListener('change', (e) => {
+      e.stopPropagation();
+      handlePriceAlertToggle(rule.id, checkbox.checked);
+    });
+    
+    const checkboxContainer = document.createElement('div');
+    checkboxContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX_CONTAINER);
+    checkboxContainer.appendChild(checkbox);
+    
+    const labelText = document.createElement('span');
+    labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    labelText.textContent = describePriceAlertRule(rule);
+    
+    const removeButton = document.createElement('button');
+    removeButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_REMOVE);
+    removeButton.textContent = '✕';
+    removeButton.title = 'Remove alert';
+    removeButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      handleRemovePriceAlert(rule.id);
+    });
+    
+    alertItem.appendChild(checkboxContainer);
+    alertItem.appendChild(labelText);
+    alertItem.appendChild(removeButton);
+    alertList.appendChild(alertItem);
+  });
+}
+
+/**
+ * Handles adding a price alert rule from the alert form
+ * @param conversion - Conversion the rule watches
+ * @param type - Rule type
+ * @param value - Threshold price or percentage entered by the user
+ * @param windowHours - Change window for rise/drop rules
+ * @returns true if the rule was added, false if the value is invalid
+ */
+function handleAddPriceAlert(conversion: ConversionKey, type: PriceAlertType, value: number, windowHours: number): boolean {
+  if (!Number.isFinite(value) || value <= 0) {
+    return false;
+  }
+  
+  currentSettings.priceAlertRules = [
+    ...currentSettings.priceAlertRules,
+    createPriceAlertRule(conversion, type, value, windowHours)
+  ];
+  updatePriceAlertList();
+  return true;
+}
+
+/**
+ * Handles removing a price alert rule
+ * @param ruleId - Id of the rule to remove
+ */
+function handleRemovePriceAlert(ruleId: string): void {
+  currentSettings.priceAlertRules = currentSettings.priceAlertRules.filter(rule => rule.id !== ruleId);
+  updatePriceAlertList();
+}
+
+/**
+ * Handles enabling or disabling a price alert rule
+ * @param ruleId - Id of the rule that was toggled
+ * @param enabled - Whether the rule is now enabled
+ */
+function handlePriceAlertToggle(ruleId: string, enabled: boolean): void {
+  currentSettings.priceAlertRules = currentSettings.priceAlertRules.map(rule =>
+    rule.id === ruleId ? { ...rule, enabled } : rule
+  );
+}
+
+/**
+ * Handles save button click - saves settings and applies changes
+ */
+async function handleSaveSettings(): Promise<void> {
+  const saveButton = formRoot?.querySelector(`.${CONFIG.CSS_CLASSES.SAVE_BUTTON}`) as HTMLButtonElement;
+  const originalButtonText = saveButton?.textContent || 'Save';
+  
+  // Restores the save button after the success or error display
+  const resetSaveButton = () => {
+    if (saveButton) {
+      saveButton.textContent = originalButtonText;
+      saveButton.style.backgroundColor = '';
+      saveButton.disabled = false;
+      saveButton.style.opacity = '1';
+    }
+  };
+  
+  try {
+    // Show loading state
+    if (saveButton) {
+      saveButton.disabled = true;
+      saveButton.textContent = 'Saving...';
+      saveButton.style.opacity = '0.7';
+    }
+    
+    // Custom token changes need a price refresh so new tokens get rates
+    const savedTokens = await loadCustomTokens();
+    const tokensChanged = savedTokens.map(token => token.address).join() !== currentSettings.customTokens.map(token => token.address).join();
+    
+    // Save all settings to storage in parallel for efficiency
+    await saveAllSettings(currentSettings);
+    
+    // Show success state briefly
+    if (saveButton) {
+      saveButton.textContent = '✓ Saved!';
+      saveButton.style.backgroundColor = '#4CAF50';
+    }
+    
+    // Register overrides and number format before components re-render converted values
+    setRateOverrides(currentSettings.rateOverrides);
+    setNumberFormatSettings(currentSettings.numberFormat);
+    
+    onSettingsSaved?.(currentSettings);
+    
+    if (tokensChanged) {
+      refreshAllTokenPrices().catch((error: Error) => {
+        debugLog('Price refresh after custom token change failed:', error);
+      });
+    }
+    
+    debugLog('Settings saved and applied successfully');
+    
+    setTimeout(resetSaveButton, 2000);
+    
+  } catch (error) {
+    debugLog('Error saving settings:', error);
+    
+    // Show error state
+    if (saveButton) {
+      saveButton.textContent = '✗ Error - Try Again';
+      saveButton.style.backgroundColor = '#f44336';
+      saveButton.disabled = false;
+      saveButton.style.opacity = '1';
+      
+      // Reset button after error display
+      setTimeout(resetSaveButton, 2000);
+    }
+  }
+}
+
+/**
+ * Creates a settings toggle section (DRY principle - consolidates toggle creation pattern)
+ * @param label - Label text for the toggle
+ * @param isEnabled - Current toggle state
+ * @param onChange - Callback when toggle changes
+ * @param dataAttribute - Optional data attribute for identification (e.g., 'data-marketplace')
+ * @returns HTMLElement - Complete settings section with toggle
+ */
+function createSettingsToggleSection(
+  label: string, 
+  isEnabled: boolean, 
+  onChange: (enabled: boolean) => void,
+  dataAttribute?: string
+): HTMLElement {
+  // Settings section
+  const settingsSection = document.createElement('div');
+  settingsSection.classList.add(CONFIG.CSS_CLASSES.SETTINGS_SECTION);
+  
+  // Label for toggle
+  const labelElement = document.createElement('label');
+  labelElement.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  labelElement.textContent = label;
+  
+  // Toggle container
+  const toggleContainer = document.createElement('div');
+  toggleContainer.classList.add(CONFIG.CSS_CLASSES.TOGGLE_CONTAINER);
+  
+  // Toggle switch (checkbox input)
+  const toggleInput = document.createElement('input');
+  toggleInput.type = 'checkbox';
+  toggleInput.classList.add(CONFIG.CSS_CLASSES.TOGGLE_SWITCH);
+  toggleInput.checked = isEnabled;
+  if (dataAttribute) {
+    toggleInput.setAttribute(dataAttribute, '');
+  }
+  
+  // Toggle slider visual element
+  const toggleSlider = document.createElement('span');
+  toggleSlider.classList.add(CONFIG.CSS_CLASSES.TOGGLE_SLIDER);
+  
+  // Add toggle event listener
+  toggleInput.addEventListener('change', () => {
+    onChange(toggleInput.checked);
+  });
+  
+  // Toggle status text
+  const statusText = document.createElement('span');
+  statusText.classList.add(CONFIG.CSS_CLASSES.TOGGLE_STATUS_TEXT);
+  statusText.textContent = isEnabled ? 'ON' : 'OFF';
+  if (dataAttribute) {
+    statusText.setAttribute(dataAttribute, '');
+  }
+  
+  // Assemble toggle
+  toggleContainer.appendChild(toggleInput);
+  toggleContainer.appendChild(toggleSlider);
+  
+  // Create toggle group container
+  const toggleGroup = document.createElement('div');
+  toggleGroup.style.display = 'flex';
+  toggleGroup.style.alignItems = 'center';
+  toggleGroup.style.gap = '10px';
+  toggleGroup.appendChild(toggleContainer);
+  toggleGroup.appendChild(statusText);
+  
+  // Assemble settings section
+  settingsSection.appendChild(labelElement);
+  settingsSection.appendChild(toggleGroup);
+  
+  return settingsSection;
+}
+
+/**
+ * Creates a currency checkbox item
+ * @param currencyKey - The currency the item toggles
+ * @returns HTMLElement - Currency item element
+ */
+function createCurrencyItem(currencyKey: ConversionKey): HTMLElement {
+  const currencyItem = document.createElement('div');
+  currencyItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM);
+  
+  // Hidden checkbox input (first element for CSS selectors)
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX);
+  checkbox.dataset.currency = currencyKey;
+  checkbox.checked = currentSettings.enabledCurrencies.includes(currencyKey);
+  
+  // Visual checkbox container (second element for CSS + selector)
+  const checkboxContainer = document.createElement('div');
+  checkboxContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX_CONTAINER);
+  
+  // Currency label with emoji and name (third element)
+  const labelText = document.createElement('span');
+  labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+  labelText.textContent = getConversionDisplayText(currencyKey, 'displayName');
+  
+  // Create closure-safe event handlers for this currency
+  const createCheckboxHandler = (currency: ConversionKey) => (e: Event) => {
+    e.stopPropagation();
+    const checkboxElement = e.target as HTMLInputElement;
+    // Use setTimeout to ensure browser's automatic state change completes first
+    setTimeout(() => {
+      handleCurrencyToggle(currency, checkboxElement.checked);
+    }, 0);
+  };
+  
+  const createLabelHandler = (currency: ConversionKey, checkboxElement: HTMLInputElement) => (e: Event) => {
+    e.stopPropagation();
+    e.preventDefault();
+    // Toggle state and handle immediately
+    checkboxElement.checked = !checkboxElement.checked;
+    handleCurrencyToggle(currency, checkboxElement.checked);
+  };
+  
+  // Add event listeners with proper closure capture
+  checkbox.addEventListener('change', createCheckboxHandler(currencyKey));
+  labelText.addEventListener('click', createLabelHandler(currencyKey, checkbox));
+  
+  // Assemble with checkbox inside container for proper positioning
+  checkboxContainer.appendChild(checkbox);
+  currencyItem.appendChild(checkboxContainer);
+  currencyItem.appendChild(labelText);
+  
+  return currencyItem;
+}
+
+/**
+ * Rebuilds the currency checkboxes and currency selects after custom tokens change
+ */
+function updateCurrencyList(): void {
+  const currencyContainer = formRoot?.querySelector(`[data-currency-section] .${CONFIG.CSS_CLASSES.CURRENCY_LIST_CONTAINER}`);
+  if (currencyContainer) {
+    currencyContainer.innerHTML = '';
+    getAllValidConversions().forEach(currencyKey => {
+      currencyContainer.appendChild(createCurrencyItem(currencyKey));
+    });
+  }
+  
+  formRoot?.querySelectorAll<HTMLSelectElement>('select[data-conversion-select]').forEach(select => {
+    populateConversionOptions(select);
+  });
+}
+
+/**
+ * Creates the currency list section with checkboxes for all available currencies
+ * @returns HTMLElement - Currency list section element
+ */
+function createCurrencyListSection(): HTMLElement {
+  const currencySection = document.createElement('div');
+  currencySection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  currencySection.setAttribute('data-currency-section', ''); // Identifier for currency section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Available Currencies';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Currency list container
+  const currencyContainer = document.createElement('div');
+  currencyContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_CONTAINER);
+  
+  // Generate currency items for all available currencies (including custom tokens)
+  const allCurrencies = getAllValidConversions();
+  allCurrencies.forEach(currencyKey => {
+    currencyContainer.appendChild(createCurrencyItem(currencyKey));
+  });
+  
+  currencySection.appendChild(sectionTitle);
+  currencySection.appendChild(currencyContainer);
+  
+  return currencySection;
+}
+
+/**
+ * Re-renders the custom token list from current settings
+ */
+function updateCustomTokenList(): void {
+  const tokenList = formRoot?.querySelector(`[data-custom-token-section] .${CONFIG.CSS_CLASSES.PRICE_ALERT_LIST}`);
+  if (!tokenList) return;
+  
+  tokenList.innerHTML = '';
+  
+  if (currentSettings.customTokens.length === 0) {
+    const emptyText = document.createElement('span');
+    emptyText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    emptyText.textContent = 'No custom tokens yet';
+    tokenList.appendChild(emptyText);
+    return;
+  }
+  
+  currentSettings.customTokens.forEach(token => {
+    const tokenItem = document.createElement('div');
+    tokenItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM, CONFIG.CSS_CLASSES.PRICE_ALERT_ITEM);
+    
+    const labelText = document.createElement('span');
+    labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    labelText.textContent = `${token.name} · ${token.displayName}`;
+    labelText.title = token.address;
+    
+    const removeButton = document.createElement('button');
+    removeButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_REMOVE);
+    removeButton.textContent = '✕';
+    removeButton.title = 'Remove token';
+    removeButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      handleRemoveCustomToken(token.address);
+    });
+    
+    tokenItem.appendChild(labelText);
+    tokenItem.appendChild(removeButton);
+    tokenList.appendChild(tokenItem);
+  });
+}
+
+/**
+ * Handles adding a custom token from the token form
+ * New tokens are registered and enabled right away so they show up in the currency list
+ * @param address - Token contract address as entered
+ * @param name - Short label as entered
+ * @param displayName - Optional longer name
+ * @returns Error message, or null if the token was added
+ */
+function handleAddCustomToken(address: string, name: string, displayName: string): string | null {
+  const result = validateCustomToken(address, name, displayName, currentSettings.customTokens);
+  if (!result.valid) {
+    return result.error;
+  }
+  
+  currentSettings.customTokens = [...currentSettings.customTokens, result.token];
+  currentSettings.enabledCurrencies = [...currentSettings.enabledCurrencies, result.token.address];
+  applyCustomTokens(currentSettings.customTokens);
+  
+  updateCustomTokenList();
+  updateCurrencyList();
+  return null;
+}
+
+/**
+ * Handles removing a custom token along with its enabled state, rate override and alert rules
+ * @param address - Address of the token to remove
+ */
+function handleRemoveCustomToken(address: string): void {
+  currentSettings.customTokens = currentSettings.customTokens.filter(token => token.address !== address);
+  currentSettings.enabledCurrencies = currentSettings.enabledCurrencies.filter(key => key !== address);
+  currentSettings.priceAlertRules = currentSettings.priceAlertRules.filter(rule => rule.conversion !== address);
+  const { [address]: _removedOverride, ...remainingOverrides } = currentSettings.rateOverrides;
+  currentSettings.rateOverrides = remainingOverrides;
+  applyCustomTokens(currentSettings.customTokens);
+  
+  updateCustomTokenList();
+  updateCurrencyList();
+  updateRateOverrideList();
+  updatePriceAlertList();
+}
+
+/**
+ * Creates the custom token section with the token list and a form to add tokens
+ * Reuses price alert list/form CSS classes for consistency
+ * @returns HTMLElement - Custom token section element
+ */
+function createCustomTokenSection(): HTMLElement {
+  const tokenSection = document.createElement('div');
+  tokenSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  tokenSection.setAttribute('data-custom-token-section', ''); // Identifier for custom token section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Custom Ronin Tokens';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Token list, filled by updateCustomTokenList
+  const tokenList = document.createElement('div');
+  tokenList.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_LIST);
+  
+  // Add form: "<label> <name> <address> [Add]"
+  const tokenForm = document.createElement('div');
+  tokenForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const nameInput = document.createElement('input');
+  nameInput.type = 'text';
+  nameInput.placeholder = 'Label (AXS)';
+  nameInput.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  
+  const displayNameInput = document.createElement('input');
+  displayNameInput.type = 'text';
+  displayNameInput.placeholder = 'Name (optional)';
+  displayNameInput.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  displayNameInput.style.width = '120px';
+  
+  const addressInput = document.createElement('input');
+  addressInput.type = 'text';
+  addressInput.placeholder = '0x... or ronin:...';
+  addressInput.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  addressInput.style.flex = '1';
+  addressInput.style.minWidth = '200px';
+  
+  const addButton = document.createElement('button');
+  addButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_ADD);
+  addButton.textContent = 'Add';
+  
+  // Validation error shown below the form
+  const errorText = document.createElement('span');
+  errorText.classList.add(CONFIG.CSS_CLASSES.CUSTOM_TOKEN_ERROR);
+  
+  addButton.addEventListener('click', (e) => {
+    e.stopPropagation();
+    const error = handleAddCustomToken(addressInput.value, nameInput.value, displayNameInput.value);
+    errorText.textContent = error || '';
+    
+    if (!error) {
+      nameInput.value = '';
+      displayNameInput.value = '';
+      addressInput.value = '';
+    }
+  });
+  
+  tokenForm.appendChild(nameInput);
+  tokenForm.appendChild(displayNameInput);
+  tokenForm.appendChild(addressInput);
+  tokenForm.appendChild(addButton);
+  
+  tokenSection.appendChild(sectionTitle);
+  tokenSection.appendChild(tokenList);
+  tokenSection.appendChild(tokenForm);
+  tokenSection.appendChild(errorText);
+  
+  return tokenSection;
+}
+
+/**
+ * Re-renders the rate override list from current settings
+ */
+function updateRateOverrideList(): void {
+  const overrideList = formRoot?.querySelector(`[data-rate-override-section] .${CONFIG.CSS_CLASSES.PRICE_ALERT_LIST}`);
+  if (!overrideList) return;
+  
+  overrideList.innerHTML = '';
+  
+  const overriddenKeys = Object.keys(currentSettings.rateOverrides).filter(isValidConversion);
+  if (overriddenKeys.length === 0) {
+    const emptyText = document.createElement('span');
+    emptyText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    emptyText.textContent = 'All currencies use the API rate';
+    overrideList.appendChild(emptyText);
+    return;
+  }
+  
+  overriddenKeys.forEach(conversionKey => {
+    const overrideItem = document.createElement('div');
+    overrideItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM, CONFIG.CSS_CLASSES.PRICE_ALERT_ITEM);
+    
+    const labelText = document.createElement('span');
+    labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    labelText.textContent = describeRateOverride(conversionKey, currentSettings.rateOverrides[conversionKey]);
+    
+    const removeButton = document.createElement('button');
+    removeButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_REMOVE);
+    removeButton.textContent = '✕';
+    removeButton.title = 'Use API rate';
+    removeButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      handleRemoveRateOverride(conversionKey);
+    });
+    
+    overrideItem.appendChild(labelText);
+    overrideItem.appendChild(removeButton);
+    overrideList.appendChild(overrideItem);
+  });
+}
+
+/**
+ * Handles setting a rate override from the override form (replaces any existing one)
+ * @param conversionKey - Currency to override
+ * @param mode - How the value replaces the API rate
+ * @param value - Rate or multiplier entered by the user
+ * @returns true if the override was set, false if the value is invalid
+ */
+function handleSetRateOverride(conversionKey: ConversionKey, mode: RateOverrideMode, value: number): boolean {
+  if (!isValidOverrideValue(value)) {
+    return false;
+  }
+  
+  currentSettings.rateOverrides = { ...currentSettings.rateOverrides, [conversionKey]: { mode, value } };
+  updateRateOverrideList();
+  return true;
+}
+
+/**
+ * Handles removing a rate override so the currency uses the API rate again
+ * @param conversionKey - Currency whose override is removed
+ */
+function handleRemoveRateOverride(conversionKey: ConversionKey): void {
+  const { [conversionKey]: _removed, ...remainingOverrides } = currentSettings.rateOverrides;
+  currentSettings.rateOverrides = remainingOverrides;
+  updateRateOverrideList();
+}
+
+/**
+ * Creates the rate override section with the override list and a form to set overrides
+ * Reuses price alert list/form CSS classes for consistency
+ * @returns HTMLElement - Rate override section element
+ */
+function createRateOverrideSection(): HTMLElement {
+  const overrideSection = document.createElement('div');
+  overrideSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  overrideSection.setAttribute('data-rate-override-section', ''); // Identifier for rate override section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Custom Exchange Rates';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Override list, filled by updateRateOverrideList
+  const overrideList = document.createElement('div');
+  overrideList.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_LIST);
+  
+  // Set form: "<currency> <mode> <value> [Set]"
+  const overrideForm = document.createElement('div');
+  overrideForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const conversionSelect = document.createElement('select');
+  conversionSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  conversionSelect.setAttribute('data-conversion-select', ''); // Refilled when custom tokens change
+  populateConversionOptions(conversionSelect);
+  
+  const modeSelect = document.createElement('select');
+  modeSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  (Object.keys(RATE_OVERRIDE_MODE_LABELS) as RateOverrideMode[]).forEach(mode => {
+    const option = document.createElement('option');
+    option.value = mode;
+    option.textContent = RATE_OVERRIDE_MODE_LABELS[mode];
+    modeSelect.appendChild(option);
+  });
+  
+  const valueInput = document.createElement('input');
+  valueInput.type = 'number';
+  valueInput.min = '0';
+  valueInput.step = 'any';
+  valueInput.placeholder = 'Value';
+  valueInput.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  
+  const setButton = document.createElement('button');
+  setButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_ADD);
+  setButton.textContent = 'Set';
+  setButton.addEventListener('click', (e) => {
+    e.stopPropagation();
+    const updated = handleSetRateOverride(
+      conversionSelect.value,
+      modeSelect.value as RateOverrideMode,
+      parseFloat(valueInput.value)
+    );
+    
+    if (updated) {
+      valueInput.value = '';
+    } else {
+      valueInput.focus();
+    }
+  });
+  
+  overrideForm.appendChild(conversionSelect);
+  overrideForm.appendChild(modeSelect);
+  overrideForm.appendChild(valueInput);
+  overrideForm.appendChild(setButton);
+  
+  overrideSection.appendChild(sectionTitle);
+  overrideSection.appendChild(overrideList);
+  overrideSection.appendChild(overrideForm);
+  
+  return overrideSection;
+}
+
+/**
+ * Creates the number format section with locale, precision and compact notation controls
+ * @returns HTMLElement - Number format section element
+ */
+function createNumberFormatSection(): HTMLElement {
+  const formatSection = document.createElement('div');
+  formatSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  formatSection.setAttribute('data-number-format-section', ''); // Identifier for number format section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Number Format';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Locale and precision selects (reusing price alert form classes)
+  const formatForm = document.createElement('div');
+  formatForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const localeSelect = document.createElement('select');
+  localeSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  localeSelect.setAttribute('data-number-locale', '');
+  const localeOptions: Record<string, string> = { '': 'Browser language', ...CONFIG.NUMBER_FORMAT.LOCALES };
+  Object.entries(localeOptions).forEach(([locale, label]) => {
+    const option = document.createElement('option');
+    option.value = locale;
+    option.textContent = label;
+    localeSelect.appendChild(option);
+  });
+  localeSelect.addEventListener('change', () => {
+    handleNumberFormatChange({ locale: localeSelect.value });
+  });
+  
+  const precisionSelect = document.createElement('select');
+  precisionSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  precisionSelect.setAttribute('data-number-precision', '');
+  const autoOption = document.createElement('option');
+  autoOption.value = 'auto';
+  autoOption.textContent = 'Auto decimals';
+  precisionSelect.appendChild(autoOption);
+  for (let decimals = 0; decimals <= CONFIG.NUMBER_FORMAT.MAX_PRECISION; decimals++) {
+    const option = document.createElement('option');
+    option.value = String(decimals);
+    option.textContent = `${decimals} decimals`;
+    precisionSelect.appendChild(option);
+  }
+  precisionSelect.addEventListener('change', () => {
+    handleNumberFormatChange({
+      precision: precisionSelect.value === 'auto' ? null : parseInt(precisionSelect.value, 10)
+    });
+  });
+  
+  formatForm.appendChild(localeSelect);
+  formatForm.appendChild(precisionSelect);
+  
+  // Compact notation toggle using helper function
+  const compactSection = createSettingsToggleSection(
+    'Compact Large Numbers (1.2M)',
+    currentSettings.numberFormat.compact,
+    (enabled: boolean) => handleNumberFormatChange({ compact: enabled }),
+    'data-compact-numbers'
+  );
+  compactSection.style.marginTop = '12px';
+  compactSection.style.marginBottom = '8px';
+  
+  // Live preview of the selected format
+  const preview = document.createElement('span');
+  preview.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT, CONFIG.CSS_CLASSES.NUMBER_FORMAT_PREVIEW);
+  
+  formatSection.appendChild(sectionTitle);
+  formatSection.appendChild(formatForm);
+  formatSection.appendChild(compactSection);
+  formatSection.appendChild(preview);
+  
+  return formatSection;
+}
+
+/**
+ * Fills a select with one option per available conversion, keeping the selection if still valid
+ * @param select - Select element to fill
+ */
+function populateConversionOptions(select: HTMLSelectElement): void {
+  const previousValue = select.value;
+  select.innerHTML = '';
+  
+  getAllValidConversions().forEach(conversionKey => {
+    const option = document.createElement('option');
+    option.value = conversionKey;
+    option.textContent = getConversionDisplayText(conversionKey, 'name');
+    option.selected = conversionKey === previousValue;
+    select.appendChild(option);
+  });
+}
+
+/**
+ * Creates the price alert section with the rule list and a form to add rules
+ * Alerts are checked by the background worker, so they work with the converter off
+ * @returns HTMLElement - Price alert section element
+ */
+function createPriceAlertSection(): HTMLElement {
+  const alertSection = document.createElement('div');
+  alertSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  alertSection.setAttribute('data-price-alert-section', ''); // Identifier for price alert section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Price Alerts';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Rule list, filled by updatePriceAlertList
+  const alertList = document.createElement('div');
+  alertList.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_LIST);
+  
+  // Add form: "PHORSE / <currency> <type> <value> [in <window>] [Add]"
+  const alertForm = document.createElement('div');
+  alertForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const conversionSelect = document.createElement('select');
+  conversionSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  conversionSelect.setAttribute('data-conversion-select', ''); // Refilled when custom tokens change
+  populateConversionOptions(conversionSelect);
+  
+  const typeSelect = document.createElement('select');
+  typeSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  (Object.keys(PRICE_ALERT_TYPE_LABELS) as PriceAlertType[]).forEach(type => {
+    const option = document.createElement('option');
+    option.value = type;
+    option.textContent = PRICE_ALERT_TYPE_LABELS[type];
+    typeSelect.appendChild(option);
+  });
+  
+  const valueInput = document.createElement('input');
+  valueInput.type = 'number';
+  valueInput.min = '0';
+  valueInput.step = 'any';
+  valueInput.placeholder = 'Value';
+  valueInput.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  
+  const windowSelect = document.createElement('select');
+  windowSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  CONFIG.PRICE_ALERTS.WINDOW_OPTIONS_HOURS.forEach(hours => {
+    const option = document.createElement('option');
+    option.value = String(hours);
+    option.textContent = `in ${formatAlertWindow(hours)}`;
+    option.selected = hours === CONFIG.PRICE_ALERTS.DEFAULT_WINDOW_HOURS;
+    windowSelect.appendChild(option);
+  });
+  
+  // Window only applies to rise/drop rules
+  const updateWindowVisibility = () => {
+    windowSelect.style.display = isChangeAlert(typeSelect.value as PriceAlertType) ? '' : 'none';
+  };
+  typeSelect.addEventListener('change', updateWindowVisibility);
+  updateWindowVisibility();
+  
+  const addButton = document.createElement('button');
+  addButton.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_ADD);
+  addButton.textContent = 'Add';
+  addButton.addEventListener('click', (e) => {
+    e.stopPropagation();
+    const added = handleAddPriceAlert(
+      conversionSelect.value,
+      typeSelect.value as PriceAlertType,
+      parseFloat(valueInput.value),
+      parseInt(windowSelect.value, 10)
+    );
+    
+    if (added) {
+      valueInput.value = '';
+    } else {
+      valueInput.focus();
+    }
+  });
+  
+  alertForm.appendChild(conversionSelect);
+  alertForm.appendChild(typeSelect);
+  alertForm.appendChild(valueInput);
+  alertForm.appendChild(windowSelect);
+  alertForm.appendChild(addButton);
+  
+  alertSection.appendChild(sectionTitle);
+  alertSection.appendChild(alertList);
+  alertSection.appendChild(alertForm);
+  
+  return alertSection;
+}
+
+/**
+ * Creates the marketplace list section with checkboxes for all available marketplaces
+ * Reuses currency list CSS classes for consistency
+ * @returns HTMLElement - Marketplace list section element
+ */
+function createMarketplaceListSection(): HTMLElement {
+  const marketplaceSection = document.createElement('div');
+  marketplaceSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  marketplaceSection.setAttribute('data-marketplace-section', ''); // Identifier for marketplace section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Available Marketplaces';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Marketplace list container (reusing currency container class)
+  const marketplaceContainer = document.createElement('div');
+  marketplaceContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_CONTAINER);
+  
+  // Generate marketplace items for all available marketplaces
+  const allMarketplaces = [
+    { key: 'ronin', name: 'Ronin Market' },
+    { key: 'opensea', name: 'OpenSea' }
+  ];
+  
+  allMarketplaces.forEach(marketplace => {
+    const marketplaceItem = document.createElement('div');
+    marketplaceItem.classList.add(CONFIG.CSS_CLASSES.CURRENCY_ITEM);
+    
+    // Hidden checkbox input (first element for CSS selectors)
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX);
+    checkbox.dataset.marketplace = marketplace.key; // Use marketplace data attribute
+    checkbox.checked = currentSettings.enabledMarketplaces.includes(marketplace.key);
+    
+    // Visual checkbox container (second element for CSS + selector)
+    const checkboxContainer = document.createElement('div');
+    checkboxContainer.classList.add(CONFIG.CSS_CLASSES.CURRENCY_CHECKBOX_CONTAINER);
+    
+    // Marketplace label (third element) - reusing currency label class for consistency
+    const labelText = document.createElement('span');
+    labelText.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LABEL_TEXT);
+    labelText.textContent = marketplace.name; // No emojis, just clean names
+    
+    // Create closure-safe event handlers for this marketplace
+    const createCheckboxHandler = (marketplaceKey: string) => (e: Event) => {
+      e.stopPropagation();
+      const checkboxElement = e.target as HTMLInputElement;
+      // Use setTimeout to ensure browser's automatic state change completes first
+      setTimeout(() => {
+        handleMarketplaceToggle(marketplaceKey, checkboxElement.checked);
+      }, 0);
+    };
+    
+    const createLabelHandler = (marketplaceKey: string, checkboxElement: HTMLInputElement) => (e: Event) => {
+      e.stopPropagation();
+      e.preventDefault();
+      // Toggle state and handle immediately
+      checkboxElement.checked = !checkboxElement.checked;
+      handleMarketplaceToggle(marketplaceKey, checkboxElement.checked);
+    };
+    
+    // Add event listeners with proper closure capture
+    checkbox.addEventListener('change', createCheckboxHandler(marketplace.key));
+    labelText.addEventListener('click', createLabelHandler(marketplace.key, checkbox));
+    
+    // Assemble with checkbox inside container for proper positioning
+    checkboxContainer.appendChild(checkbox);
+    marketplaceItem.appendChild(checkboxContainer);
+    marketplaceItem.appendChild(labelText);
+    marketplaceContainer.appendChild(marketplaceItem);
+  });
+  
+  marketplaceSection.appendChild(sectionTitle);
+  marketplaceSection.appendChild(marketplaceContainer);
+  
+  return marketplaceSection;
+}
+
+/**
+ * Creates the energy notification section with the lead time and per-horse mute list
+ * Notifications are sent by the background worker, so they work with the game closed
+ * @returns HTMLElement - Energy notification section element
+ */
+function createEnergyNotificationSection(): HTMLElement {
+  const notificationSection = document.createElement('div');
+  notificationSection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  notificationSection.setAttribute('data-energy-notification-section', ''); // Identifier for energy notification section
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Notify Before Recharge';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Lead time select (reusing price alert form classes)
+  const leadForm = document.createElement('div');
+  leadForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const leadSelect = document.createElement('select');
+  leadSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  leadSelect.setAttribute('data-energy-lead', '');
+  CONFIG.ENERGY_NOTIFICATIONS.LEAD_OPTIONS_MINUTES.forEach(minutes => {
+    const option = document.createElement('option');
+    option.value = String(minutes);
+    option.textContent = `${minutes} min before`;
+    leadSelect.appendChild(option);
+  });
+  leadSelect.addEventListener('change', () => {
+    handleEnergyNotificationChange({ leadMinutes: parseInt(leadSelect.value, 10) });
+  });
+  
+  leadForm.appendChild(leadSelect);
+  
+  // Horses to notify about (reusing currency container class)
+  const horseList = document.createElement('div');
+  horseList.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_CONTAINER, CONFIG.CSS_CLASSES.ENERGY_NOTIFICATION_HORSES);
+  horseList.style.marginTop = '10px';
+  
+  notificationSection.appendChild(sectionTitle);
+  notificationSection.appendChild(leadForm);
+  notificationSection.appendChild(horseList);
+  
+  return notificationSection;
+}
+
+/**
+ * Creates the horse history section with the retention select
+ * @returns HTMLElement - Horse history section element
+ */
+function createHorseHistorySection(): HTMLElement {
+  const historySection = document.createElement('div');
+  historySection.classList.add(CONFIG.CSS_CLASSES.CURRENCY_LIST_SECTION);
+  historySection.style.marginTop = '20px';
+  
+  // Section title
+  const sectionTitle = document.createElement('label');
+  sectionTitle.classList.add(CONFIG.CSS_CLASSES.SETTINGS_LABEL);
+  sectionTitle.textContent = 'Keep Horse History';
+  sectionTitle.style.marginBottom = '10px';
+  sectionTitle.style.display = 'block';
+  
+  // Retention select (reusing price alert form classes)
+  const retentionForm = document.createElement('div');
+  retentionForm.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_FORM);
+  
+  const retentionSelect = document.createElement('select');
+  retentionSelect.classList.add(CONFIG.CSS_CLASSES.PRICE_ALERT_INPUT);
+  retentionSelect.setAttribute('data-history-retention', '');
+  CONFIG.HORSE_HISTORY.RETENTION_OPTIONS_DAYS.forEach(days => {
+    const option = document.createElement('option');
+    option.value = String(days);
+    option.textContent = `${days} days`;
+    retentionSelect.appendChild(option);
+  });
+  retentionSelect.addEventListener('change', () => {
+    currentSettings.horseHistoryRetentionDays = parseInt(retentionSelect.value, 10);
+  });
+  
+  retentionForm.appendChild(retentionSelect);
+  
+  historySection.appendChild(sectionTitle);
+  historySection.appendChild(retentionForm);
+  
+  return historySection;
+}
+
+/**
+ * Updates the horse history retention select to reflect current state
+ */
+function updateHorseHistoryUI(): void {
+  const retentionSelect = formRoot?.querySelector('select[data-history-retention]') as HTMLSelectElement | null;
+  
+  if (retentionSelect) {
+    retentionSelect.value = String(currentSettings.horseHistoryRetentionDays);
+  }
+}
+
+/**
+ * Creates the settings form with every settings section and the save button
+ * Call refreshSettingsForm to load stored settings into it
+ * @param onSaved - Called with the settings after they were saved
+ * @returns HTMLElement - Settings form element (styled as a modal body)
+ */
+export function createSettingsForm(onSaved: (settings: AllSettings) => void): HTMLElement {
+  const body = document.createElement('div');
+  body.classList.add(CONFIG.CSS_CLASSES.MODAL_BODY);
+  formRoot = body;
+  onSettingsSaved = onSaved;
+  
+  // Price Converter Section using helper function
+  const converterSection = createSettingsToggleSection(
+    'Enable Price Converter',
+    currentSettings.converterEnabled,
+    handleToggleChange
+  );
+  
+  // Currency list section (only visible when converter is enabled)
+  const currencyListSection = createCurrencyListSection();
+  
+  // Custom token section, right after the currency list it extends
+  const customTokenSection = createCustomTokenSection();
+  
+  // Rate override section for currencies whose API rate differs from the one players use
+  const rateOverrideSection = createRateOverrideSection();
+  
+  // Number format section (locale, precision, compact notation)
+  const numberFormatSection = createNumberFormatSection();
+  
+  // Price alert section, right after the currency list
+  const priceAlertSection = createPriceAlertSection();
+  
+  // Inline annotations Section - converted values next to PHORSE amounts across the game
+  const inlineAnnotationsSection = createSettingsToggleSection(
+    'Convert PHORSE Amounts on Page',
+    currentSettings.inlineAnnotationsEnabled,
+    handleInlineAnnotationsToggleChange,
+    'data-inline-annotations'
+  );
+  inlineAnnotationsSection.style.marginTop = '20px';
+  
+  // Marketplace Links Section using helper function
+  const marketplaceSection = createSettingsToggleSection(
+    'Enable Marketplace Links',
+    currentSettings.marketplaceLinksEnabled,
+    handleMarketplaceToggleChange,
+    'data-marketplace'
+  );
+  marketplaceSection.style.marginTop = '20px';
+  
+  // Marketplace list section (only visible when marketplace links are enabled)
+  const marketplaceListSection = createMarketplaceListSection();
+  
+  // Energy Recovery Section using helper function
+  const energyRecoverySection = createSettingsToggleSection(
+    'Enable Energy Recovery Info',
+    currentSettings.energyRecoveryEnabled,
+    handleEnergyRecoveryToggleChange,
+    'data-energy-recovery'
+  );
+  energyRecoverySection.style.marginTop = '20px';
+  
+  // Energy Notifications Section - opt-in background warnings before energy is wasted
+  const energyNotificationToggleSection = createSettingsToggleSection(
+    'Notify When Energy Will Be Wasted',
+    currentSettings.energyNotifications.enabled,
+    (enabled: boolean) => handleEnergyNotificationChange({ enabled }),
+    'data-energy-notifications'
+  );
+  energyNotificationToggleSection.style.marginTop = '20px';
+  
+  // Lead time and horse list (only visible when energy notifications are enabled)
+  const energyNotificationSection = createEnergyNotificationSection();
+  
+  // Horse history retention - per-horse snapshots behind the level projections
+  const horseHistorySection = createHorseHistorySection();
+  
+  // Settings Button Section - the options page stays available when the gear button is hidden
+  const settingsButtonSection = createSettingsToggleSection(
+    'Show Settings Button in Game',
+    currentSettings.settingsModalEnabled,
+    handleSettingsButtonToggleChange,
+    'data-settings-button'
+  );
+  settingsButtonSection.style.marginTop = '20px';
+  
+  // Modal footer with save button
+  const footer = document.createElement('div');
+  footer.classList.add(CONFIG.CSS_CLASSES.MODAL_FOOTER);
+  
+  const saveButton = document.createElement('button');
+  saveButton.classList.add(CONFIG.CSS_CLASSES.SAVE_BUTTON);
+  saveButton.textContent = 'Save';
+  
+  // Add save button event listener
+  saveButton.addEventListener('click', async () => {
+    await handleSaveSettings();
+  });
+  
+  footer.appendChild(saveButton);
+  
+  // Assemble modal body with all sections
+  body.appendChild(converterSection);
+  body.appendChild(currencyListSection);
+  body.appendChild(customTokenSection);
+  body.appendChild(rateOverrideSection);
+  body.appendChild(numberFormatSection);
+  body.appendChild(priceAlertSection);
+  body.appendChild(inlineAnnotationsSection);
+  body.appendChild(marketplaceSection);
+  body.appendChild(marketplaceListSection);
+  body.appendChild(energyRecoverySection);
+  body.appendChild(energyNotificationToggleSection);
+  body.appendChild(energyNotificationSection);
+  body.appendChild(horseHistorySection);
+  body.appendChild(settingsButtonSection);
+  body.appendChild(footer);
+  
+  return body;
+}
+
+/**
+ * Loads current settings from storage and shows them in every section
+ * @returns Promise that resolves when the form is up to date
+ */
+export async function refreshSettingsForm(): Promise<void> {
+  // Load current settings from storage using centralized function
+  const [settings, analysis] = await Promise.all([loadAllSettings(), loadHorseAnalysisData()]);
+  currentSettings = settings;
+  knownHorses = analysis?.horses ?? [];
+  
+  // Custom tokens extend the currency list and conversion selects
+  applyCustomTokens(currentSettings.customTokens);
+  updateCurrencyList();
+  
+  // Update toggle state and currency list in UI
+  updateToggleUI();
+  updateCurrencyListVisibility();
+  updateCurrencyCheckboxes();
+  
+  // Update marketplace toggle state and marketplace list in UI
+  updateMarketplaceToggleUI();
+  updateMarketplaceListVisibility();
+  updateMarketplaceCheckboxes();
+  
+  // Update energy recovery, inline annotations and settings button toggle states in UI
+  updateEnergyRecoveryToggleUI();
+  updateInlineAnnotationsToggleUI();
+  updateSettingsButtonToggleUI();
+  updateEnergyNotificationUI();
+  updateHorseHistoryUI();
+  
+  // Update custom token, rate override and price alert rule lists in UI
+  updateCustomTokenList();
+  updateRateOverrideList();
+  updateNumberFormatUI();
+  updatePriceAlertList();
+}
+
+/**
+ * Drops edits that were never saved
+ * Custom tokens are registered while editing, so the saved ones are registered again
+ */
+export function discardSettingsChanges(): void {
+  syncCustomTokens().catch(() => {});
+}
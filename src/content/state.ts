@@ -1,6 +1,6 @@
-import { CONFIG, debugLog, type ConversionKey } from './config';
-import { loadUserPreferredCurrency, getUserPreferredCurrencyStorageItem } from './storage';
-import { isValidConversion, createConversionValidationError, isConversionEnabled, getFirstEnabledConversion } from './utils/validation';
+import { CONFIG, debugLog, type ConversionKey, type ConverterDisplayMode } from './config';
+import { loadUserPreferredCurrency, getUserPreferredCurrencyStorageItem, loadConverterDisplayMode, saveConverterDisplayMode, loadPinnedCurrencies, savePinnedCurrencies } from './storage';
+import { isValidConversion, createConversionValidationError, isConversionEnabled, getFirstEnabledConversion, getEnabledConversions } from './utils/validation';
 
 /**
  * State management for runtime conversion state
@@ -12,6 +12,13 @@ import { isValidConversion, createConversionValidationError, isConversionEnabled
 // Private state - not exported to prevent direct access
 let currentConversion: ConversionKey = CONFIG.DEFAULT_CURRENCY;
 
+// Callbacks notified whenever the current conversion changes
+const conversionChangeListeners = new Set<(conversion: ConversionKey) => void>();
+
+// Multi-display state - pinned currencies are shown together when mode is 'multi'
+let displayMode: ConverterDisplayMode = 'single';
+let pinnedConversions: ConversionKey[] = CONFIG.MULTI_DISPLAY.DEFAULT_PINNED.slice();
+
 // Coordination flags to prevent redundant initializations
 let isInitializing = false;
 let isReconnecting = false;
@@ -42,6 +49,48 @@ export function setCurrentConversion(newConversion: ConversionKey): void {
   const storageItem = getUserPreferredCurrencyStorageItem();
   storageItem.setValue(newConversion).catch(error => {
   });
+  
+  notifyConversionChanged();
+}
+
+/**
+ * Adopts the preferred currency stored by another tab, without persisting it again
+ * @param storedConversion - Conversion key read from storage
+ * @returns Promise that resolves to true if the current conversion changed
+ */
+export async function applyStoredConversion(storedConversion: ConversionKey): Promise<boolean> {
+  if (storedConversion === currentConversion || !isValidConversion(storedConversion)) {
+    return false;
+  }
+
+  // The other tab may have a currency this tab has not enabled yet
+  if (!(await isConversionEnabled(storedConversion))) {
+    return false;
+  }
+
+  currentConversion = storedConversion;
+  debugLog('Current conversion synced from storage:', storedConversion);
+  notifyConversionChanged();
+  return true;
+}
+
+/**
+ * Subscribes to changes of the current conversion
+ * @param listener - Called with the new conversion key
+ * @returns Unsubscribe function
+ */
+export function onConversionChanged(listener: (conversion: ConversionKey) => void): () => void {
+  conversionChangeListeners.add(listener);
+  return () => {
+    conversionChangeListeners.delete(listener);
+  };
+}
+
+/**
+ * Notifies conversion change listeners of the current conversion
+ */
+function notifyConversionChanged(): void {
+  conversionChangeListeners.forEach(listener => listener(currentConversion));
 }
 
 /**
@@ -61,6 +110,7 @@ export async function ensureCurrentConversionIsEnabled(): Promise<void> {
       storageItem.setValue(fallbackConversion).catch(error => {
       });
       
+      notifyConversionChanged();
     }
   } catch (error) {
     debugLog('Error ensuring conversion is enabled:', error);
@@ -93,6 +143,94 @@ export async function initializeConversionState(): Promise<void> {
   }
 }
 
+// ============= MULTI-DISPLAY STATE MANAGEMENT =============
+
+/**
+ * Gets the converter display mode
+ * @returns 'single' for the selected currency only, 'multi' for all pinned currencies
+ */
+export function getDisplayMode(): ConverterDisplayMode {
+  return displayMode;
+}
+
+/**
+ * Sets the converter display mode with persistence
+ * @param mode - New display mode
+ */
+export function setDisplayMode(mode: ConverterDisplayMode): void {
+  displayMode = mode;
+  debugLog(`Converter display mode set to: ${mode}`);
+  
+  saveConverterDisplayMode(mode).catch(() => {
+  });
+}
+
+/**
+ * Gets the pinned conversions shown in multi-display mode
+ * @returns Pinned conversion keys in display order
+ */
+export function getPinnedConversions(): ConversionKey[] {
+  return pinnedConversions.slice();
+}
+
+/**
+ * Pins or unpins a conversion, keeping between MIN_PINNED and MAX_PINNED pinned
+ * @param conversion - The conversion to toggle
+ * @returns true if the pinned list changed, false if a limit prevented it
+ */
+export function togglePinnedConversion(conversion: ConversionKey): boolean {
+  const isPinned = pinnedConversions.includes(conversion);
+  
+  if (isPinned && pinnedConversions.length <= CONFIG.MULTI_DISPLAY.MIN_PINNED) {
+    return false;
+  }
+  if (!isPinned && pinnedConversions.length >= CONFIG.MULTI_DISPLAY.MAX_PINNED) {
+    return false;
+  }
+  
+  pinnedConversions = isPinned
+    ? pinnedConversions.filter(key => key !== conversion)
+    : [...pinnedConversions, conversion];
+  
+  savePinnedCurrencies(pinnedConversions).catch(() => {
+  });
+  return true;
+}
+
+/**
+ * Initializes multi-display state from storage
+ * Pinned currencies that are no longer enabled are dropped; a list left shorter than MIN_PINNED
+ * is topped up from the default pins, then from the other enabled conversions
+ * @returns Promise that resolves when display state is initialized
+ */
+export async function initializeDisplayState(): Promise<void> {
+  try {
+    const [mode, pinned, enabled] = await Promise.all([
+      loadConverterDisplayMode(),
+      loadPinnedCurrencies(),
+      getEnabledConversions()
+    ]);
+    
+    displayMode = mode;
+    pinnedConversions = pinned
+      .filter(key => enabled.includes(key))
+      .slice(0, CONFIG.MULTI_DISPLAY.MAX_PINNED);
+    
+    const backfill = [...CONFIG.MULTI_DISPLAY.DEFAULT_PINNED, ...enabled]
+      .filter(key => enabled.includes(key));
+    for (const key of backfill) {
+      if (pinnedConversions.length >= CONFIG.MULTI_DISPLAY.MIN_PINNED) break;
+      if (!pinnedConversions.includes(key)) {
+        pinnedConversions.push(key);
+      }
+    }
+    debugLog('Initialized display state:', displayMode, pinnedConversions);
+  } catch (error) {
+    debugLog('Error initializing display state:', error);
+    displayMode = 'single';
+  }
+}
+
 // ============= COORDINATION FLAGS MANAGEMENT =============
 
 /**
@@ -1,6 +1,15 @@
-import { CONFIG, debugLog, type ConversionKey } from './config';
+import { CONFIG, debugLog, type ConversionKey, type ConverterDisplayMode } from './config';
 import { storage } from '#imports';
 import { isValidConversion } from './utils/validation';
+import type { PriceData } from './api';
+import type { PriceHistoryPoint } from './utils/price-history';
+import type { PriceAlertRule, PriceAlertState } from './utils/price-alerts';
+import type { CustomToken } from './utils/custom-tokens';
+import type { RateOverrides } from './utils/rate-overrides';
+import type { NumberFormatSettings } from './utils/number-format';
+import type { LedgerEntry } from './utils/balance-ledger';
+import { DEFAULT_ENERGY_NOTIFICATION_SETTINGS, type EnergyNotificationSettings } from './utils/energy-notifications';
+import type { HorseHistory } from './utils/horse-history';
 
 /**
  * Storage module for persisting user preferences using WXT Storage API
@@ -15,6 +24,7 @@ interface StoredHorseStats {
   spirit: { base: number; bonus?: number; };
   speed: { base: number; bonus?: number; };
   energy: { current: number; max: number; };
+  energyRecovery6h?: number; // Missing in data stored by older versions
 }
 
 interface StoredHorseInfo {
@@ -28,6 +38,8 @@ interface StoredHorseInfo {
   stats: StoredHorseStats;
   items: Array<{ name: string; imageSrc: string; quantity?: number; }>;
   imageSrc?: string;
+  lastSeen?: string; // ISO timestamp the card was last rendered (missing in data stored by older versions)
+  missingSince?: string; // ISO timestamp of the first analysis that did not render the card since it was last seen
 }
 
 interface StoredHorseAnalysis {
@@ -35,11 +47,40 @@ interface StoredHorseAnalysis {
   timestamp: string;
 }
 
+// Shared price cache written by the background service worker
+interface StoredPriceCache {
+  rates: PriceData;
+  fetchedAt: number; // Epoch milliseconds of the successful fetch
+  sources: string[]; // Ids of the price providers that supplied the rates
+}
+
+// Price cache as stored before providers were pluggable (version 1): the raw SkyMavis response
+interface StoredPriceCacheV1 {
+  data?: { result?: PriceData; };
+  fetchedAt: number;
+}
+
+// Last PHORSE balance seen on the game page
+interface StoredBalance {
+  balance: number;
+  timestamp: number; // Epoch milliseconds when the balance was read
+}
+
 // WXT storage item definition with automatic validation and fallback
 const userPreferredCurrency = storage.defineItem<ConversionKey>('local:user_preferred_currency', {
   fallback: CONFIG.DEFAULT_CURRENCY,
 });
 
+// WXT storage item for converter display mode (single selected currency or several pinned)
+const converterDisplayMode = storage.defineItem<ConverterDisplayMode>('local:converter_display_mode', {
+  fallback: 'single', // Current single-currency behavior by default
+});
+
+// WXT storage item for currencies pinned in multi-display mode
+const pinnedCurrencies = storage.defineItem<ConversionKey[]>('local:pinned_currencies', {
+  fallback: CONFIG.MULTI_DISPLAY.DEFAULT_PINNED,
+});
+
 // WXT storage item for price converter enabled/disabled setting
 const priceConverterEnabled = storage.defineItem<boolean>('local:price_converter_enabled', {
   fallback: true, // Default to enabled (same as current CONFIG.FEATURES.PRICE_CONVERTER_ENABLED)
@@ -50,11 +91,83 @@ const enabledCurrencies = storage.defineItem<ConversionKey[]>('local:enabled_cur
   fallback: ['usd', 'ron'], // Default to USD and RON enabled
 });
 
+// WXT storage item for user-defined Ronin tokens (conversion targets next to the built-in ones)
+const customTokens = storage.defineItem<CustomToken[]>('local:custom_tokens', {
+  fallback: [], // Only built-in tokens by default
+});
+
+// WXT storage item for per-currency exchange-rate overrides
+const rateOverrides = storage.defineItem<RateOverrides>('local:rate_overrides', {
+  fallback: {}, // API rates for every currency by default
+});
+
+// WXT storage item for number format preferences (locale, precision, compact notation)
+const numberFormatSettings = storage.defineItem<NumberFormatSettings>('local:number_format', {
+  fallback: { locale: '', precision: null, compact: true }, // Browser locale, automatic precision
+});
+
 // WXT storage item for horse analysis data
 const horseAnalysisData = storage.defineItem<StoredHorseAnalysis | null>('local:horse_analysis_data', {
   fallback: null, // No data by default
 });
 
+// WXT storage item for per-horse snapshot history (latest analysis stays in horse_analysis_data)
+const horseHistory = storage.defineItem<HorseHistory>('local:horse_history', {
+  fallback: {}, // Filled on every horse analysis
+});
+
+// WXT storage item for how many days of horse history are kept
+const horseHistoryRetentionDays = storage.defineItem<number>('local:horse_history_retention_days', {
+  fallback: CONFIG.HORSE_HISTORY.DEFAULT_RETENTION_DAYS,
+});
+
+// WXT storage item for the shared token price cache
+const priceCache = storage.defineItem<StoredPriceCache | null>('local:price_cache', {
+  fallback: null, // No prices until the first successful fetch
+  version: 2,
+  migrations: {
+    // v1 stored the raw SkyMavis response ({ data: { result } }) before providers were pluggable
+    2: (oldCache: StoredPriceCacheV1 | null): StoredPriceCache | null => oldCache?.data?.result
+      ? { rates: oldCache.data.result, fetchedAt: oldCache.fetchedAt, sources: ['skymavis'] }
+      : null
+  }
+});
+
+// WXT storage item for the downsampled PHORSE/token price time series
+const priceHistory = storage.defineItem<PriceHistoryPoint[]>('local:price_history', {
+  fallback: [], // Filled by the background worker on every price refresh
+});
+
+// WXT storage item for user-defined price alert rules
+const priceAlertRules = storage.defineItem<PriceAlertRule[]>('local:price_alert_rules', {
+  fallback: [], // No alerts until the user adds one
+});
+
+// WXT storage item for the last trigger time of each alert rule (cooldown tracking)
+const priceAlertState = storage.defineItem<PriceAlertState>('local:price_alert_state', {
+  fallback: {},
+});
+
+// WXT storage item for the PHORSE balance ledger (one entry per observed balance change)
+const balanceLedger = storage.defineItem<LedgerEntry[]>('local:balance_ledger', {
+  fallback: [], // Filled by the converter while the game is open
+});
+
+// WXT storage item for the last known PHORSE balance (shown by the toolbar popup)
+const lastBalance = storage.defineItem<StoredBalance | null>('local:last_balance', {
+  fallback: null, // Unknown until the game page has been opened
+});
+
+// WXT storage item for energy full/waste notification preferences
+const energyNotificationSettings = storage.defineItem<EnergyNotificationSettings>('local:energy_notifications', {
+  fallback: structuredClone(DEFAULT_ENERGY_NOTIFICATION_SETTINGS), // Opt-in - a copy, so the shared defaults are never handed out
+});
+
+// WXT storage item for the last recharge notified about (epoch milliseconds)
+const energyNotifiedRecharge = storage.defineItem<number>('local:energy_notified_recharge', {
+  fallback: 0,
+});
+
 // WXT storage item for marketplace links enabled/disabled setting
 const marketplaceLinksEnabled = storage.defineItem<boolean>('local:marketplace_links_enabled', {
   fallback: true, // Default to enabled (both marketplaces enabled by default)
@@ -70,6 +183,11 @@ const energyRecoveryEnabled = storage.defineItem<boolean>('local:energy_recovery
   fallback: true, // Default to enabled (same as current behavior)
 });
 
+// WXT storage item for inline PHORSE amount annotations enabled/disabled setting
+const inlineAnnotationsEnabled = storage.defineItem<boolean>('local:inline_annotations_enabled', {
+  fallback: true, // Default to enabled
+});
+
 // WXT storage item for settings modal enabled/disabled setting
 const settingsModalEnabled = storage.defineItem<boolean>('local:settings_modal_enabled', {
   fallback: true, // Default to enabled (same as previous CONFIG.FEATURES.SETTINGS_MODAL_ENABLED)
@@ -131,6 +249,54 @@ export function getUserPreferredCurrencyStorageItem() {
   return userPreferredCurrency;
 }
 
+/**
+ * Loads converter display mode from WXT storage
+ * @returns Promise that resolves to 'single' or 'multi'
+ */
+export async function loadConverterDisplayMode(): Promise<ConverterDisplayMode> {
+  try {
+    const mode = await converterDisplayMode.getValue();
+    return mode;
+  } catch (error) {
+    return 'single';
+  }
+}
+
+/**
+ * Saves converter display mode to WXT storage
+ * @param mode - Display mode to persist
+ */
+export async function saveConverterDisplayMode(mode: ConverterDisplayMode): Promise<void> {
+  try {
+    await converterDisplayMode.setValue(mode);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads pinned currencies for multi-display mode from WXT storage
+ * @returns Promise that resolves to pinned conversion keys in display order
+ */
+export async function loadPinnedCurrencies(): Promise<ConversionKey[]> {
+  try {
+    const pinned = await pinnedCurrencies.getValue();
+    return pinned;
+  } catch (error) {
+    return CONFIG.MULTI_DISPLAY.DEFAULT_PINNED.slice();
+  }
+}
+
+/**
+ * Saves pinned currencies for multi-display mode to WXT storage
+ * @param currencies - Pinned conversion keys in display order
+ */
+export async function savePinnedCurrencies(currencies: ConversionKey[]): Promise<void> {
+  try {
+    await pinnedCurrencies.setValue(currencies);
+  } catch (error) {
+  }
+}
+
 /**
  * Loads price converter enabled setting from WXT storage
  * @returns Promise that resolves to boolean indicating if converter is enabled
@@ -195,6 +361,86 @@ export function getEnabledCurrenciesStorageItem() {
   return enabledCurrencies;
 }
 
+/**
+ * Loads user-defined tokens from WXT storage
+ * @returns Promise that resolves to the custom tokens
+ */
+export async function loadCustomTokens(): Promise<CustomToken[]> {
+  try {
+    const tokens = await customTokens.getValue();
+    return tokens;
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Saves user-defined tokens to WXT storage
+ * @param tokens - Custom tokens to persist
+ */
+export async function saveCustomTokens(tokens: CustomToken[]): Promise<void> {
+  try {
+    await customTokens.setValue(tokens);
+  } catch (error) {
+  }
+}
+
+/**
+ * Gets WXT storage item for custom tokens (for advanced use cases)
+ * @returns WXT storage item instance
+ */
+export function getCustomTokensStorageItem() {
+  return customTokens;
+}
+
+/**
+ * Loads exchange-rate overrides from WXT storage
+ * @returns Promise that resolves to overrides keyed by conversion key
+ */
+export async function loadRateOverrides(): Promise<RateOverrides> {
+  try {
+    const overrides = await rateOverrides.getValue();
+    return overrides;
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Saves exchange-rate overrides to WXT storage
+ * @param overrides - Overrides keyed by conversion key
+ */
+export async function saveRateOverrides(overrides: RateOverrides): Promise<void> {
+  try {
+    await rateOverrides.setValue(overrides);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads number format preferences from WXT storage
+ * @returns Promise that resolves to the number format settings
+ */
+export async function loadNumberFormatSettings(): Promise<NumberFormatSettings> {
+  try {
+    const settings = await numberFormatSettings.getValue();
+    return settings;
+  } catch (error) {
+    return { locale: '', precision: null, compact: true };
+  }
+}
+
+/**
+ * Saves number format preferences to WXT storage
+ * @param settings - Number format settings to persist
+ */
+export async function saveNumberFormatSettings(settings: NumberFormatSettings): Promise<void> {
+  try {
+    await numberFormatSettings.setValue(settings);
+  } catch (error) {
+  }
+}
+
 /**
  * Saves horse analysis data to WXT storage
  * @param data - The horse analysis data to save
@@ -219,6 +465,14 @@ export async function loadHorseAnalysisData(): Promise<StoredHorseAnalysis | nul
   }
 }
 
+/**
+ * Gets the horse analysis storage item for watching changes
+ * @returns WXT storage item for horse analysis data
+ */
+export function getHorseAnalysisDataStorageItem() {
+  return horseAnalysisData;
+}
+
 /**
  * Clears horse analysis data from storage
  */
@@ -229,6 +483,264 @@ export async function clearHorseAnalysisData(): Promise<void> {
   }
 }
 
+/**
+ * Loads the per-horse snapshot history from WXT storage
+ * @returns Promise that resolves to snapshots keyed by horse id
+ */
+export async function loadHorseHistory(): Promise<HorseHistory> {
+  try {
+    const history = await horseHistory.getValue();
+    return history;
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Saves the per-horse snapshot history to WXT storage
+ * @param history - Snapshots keyed by horse id, oldest first
+ */
+export async function saveHorseHistory(history: HorseHistory): Promise<void> {
+  try {
+    await horseHistory.setValue(history);
+  } catch (error) {
+    // The history can outgrow the storage quota - keep the cause visible
+    debugLog('Error saving horse history:', error);
+  }
+}
+
+/**
+ * Loads how many days of horse history are kept
+ * @returns Promise that resolves to the retention in days
+ */
+export async function loadHorseHistoryRetentionDays(): Promise<number> {
+  try {
+    const days = await horseHistoryRetentionDays.getValue();
+    return days;
+  } catch (error) {
+    return CONFIG.HORSE_HISTORY.DEFAULT_RETENTION_DAYS;
+  }
+}
+
+/**
+ * Saves how many days of horse history are kept
+ * @param days - Retention in days
+ */
+export async function saveHorseHistoryRetentionDays(days: number): Promise<void> {
+  try {
+    await horseHistoryRetentionDays.setValue(days);
+  } catch (error) {
+  }
+}
+
+/**
+ * Saves the shared price cache to WXT storage
+ * @param cache - Price data with its fetch timestamp
+ */
+export async function savePriceCache(cache: StoredPriceCache): Promise<void> {
+  try {
+    await priceCache.setValue(cache);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads the shared price cache from WXT storage
+ * @returns Promise that resolves to the cached prices or null if never fetched
+ */
+export async function loadPriceCache(): Promise<StoredPriceCache | null> {
+  try {
+    const cache = await priceCache.getValue();
+    return cache;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Gets WXT storage item for the price cache (for advanced use cases)
+ * @returns WXT storage item instance
+ */
+export function getPriceCacheStorageItem() {
+  return priceCache;
+}
+
+/**
+ * Saves the price history time series to WXT storage
+ * @param history - Downsampled price points, oldest first
+ */
+export async function savePriceHistory(history: PriceHistoryPoint[]): Promise<void> {
+  try {
+    await priceHistory.setValue(history);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads the price history time series from WXT storage
+ * @returns Promise that resolves to price points, oldest first
+ */
+export async function loadPriceHistory(): Promise<PriceHistoryPoint[]> {
+  try {
+    const history = await priceHistory.getValue();
+    return history;
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Loads price alert rules from WXT storage
+ * @returns Promise that resolves to the user's alert rules
+ */
+export async function loadPriceAlertRules(): Promise<PriceAlertRule[]> {
+  try {
+    const rules = await priceAlertRules.getValue();
+    return rules;
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Saves price alert rules to WXT storage
+ * @param rules - Alert rules to persist
+ */
+export async function savePriceAlertRules(rules: PriceAlertRule[]): Promise<void> {
+  try {
+    await priceAlertRules.setValue(rules);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads the last trigger time of each alert rule from WXT storage
+ * @returns Promise that resolves to trigger times keyed by rule id
+ */
+export async function loadPriceAlertState(): Promise<PriceAlertState> {
+  try {
+    const state = await priceAlertState.getValue();
+    return state;
+  } catch (error) {
+    return {};
+  }
+}
+
+/**
+ * Saves the last trigger time of each alert rule to WXT storage
+ * @param state - Trigger times keyed by rule id
+ */
+export async function savePriceAlertState(state: PriceAlertState): Promise<void> {
+  try {
+    await priceAlertState.setValue(state);
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads the balance ledger from WXT storage
+ * @returns Promise that resolves to ledger entries, oldest first
+ */
+export async function loadBalanceLedger(): Promise<LedgerEntry[]> {
+  try {
+    const entries = await balanceLedger.getValue();
+    return entries;
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Saves the balance ledger to WXT storage
+ * @param entries - Ledger entries, oldest first
+ */
+export async function saveBalanceLedger(entries: LedgerEntry[]): Promise<void> {
+  try {
+    await balanceLedger.setValue(entries);
+  } catch (error) {
+  }
+}
+
+/**
+ * Saves the last known PHORSE balance to WXT storage
+ * @param balance - Balance read from the game page
+ */
+export async function saveLastBalance(balance: number): Promise<void> {
+  try {
+    await lastBalance.setValue({ balance, timestamp: Date.now() });
+  } catch (error) {
+  }
+}
+
+/**
+ * Loads the last known PHORSE balance from WXT storage
+ * @returns Promise that resolves to the balance and when it was read, or null if never seen
+ */
+export async function loadLastBalance(): Promise<StoredBalance | null> {
+  try {
+    const stored = await lastBalance.getValue();
+    return stored;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Loads energy notification preferences from WXT storage
+ * @returns Promise that resolves to the energy notification settings
+ */
+export async function loadEnergyNotificationSettings(): Promise<EnergyNotificationSettings> {
+  try {
+    // getValue returns the fallback object itself when nothing is stored - callers get their own copy
+    return structuredClone(await energyNotificationSettings.getValue());
+  } catch (error) {
+    return structuredClone(DEFAULT_ENERGY_NOTIFICATION_SETTINGS);
+  }
+}
+
+/**
+ * Saves energy notification preferences to WXT storage
+ * @param settings - Energy notification settings to persist
+ */
+export async function saveEnergyNotificationSettings(settings: EnergyNotificationSettings): Promise<void> {
+  try {
+    await energyNotificationSettings.setValue(settings);
+  } catch (error) {
+  }
+}
+
+/**
+ * Gets the energy notification settings storage item for watching changes
+ * @returns WXT storage item for energy notification settings
+ */
+export function getEnergyNotificationSettingsStorageItem() {
+  return energyNotificationSettings;
+}
+
+/**
+ * Loads the last recharge energy notifications were checked for
+ * @returns Promise that resolves to epoch milliseconds of the recharge, 0 if never
+ */
+export async function loadEnergyNotifiedRecharge(): Promise<number> {
+  try {
+    const rechargeAt = await energyNotifiedRecharge.getValue();
+    return rechargeAt;
+  } catch (error) {
+    return 0;
+  }
+}
+
+/**
+ * Saves the last recharge energy notifications were checked for
+ * @param rechargeAt - Epoch milliseconds of the recharge
+ */
+export async function saveEnergyNotifiedRecharge(rechargeAt: number): Promise<void> {
+  try {
+    await energyNotifiedRecharge.setValue(rechargeAt);
+  } catch (error) {
+  }
+}
+
 /**
  * Loads marketplace links enabled setting from WXT storage
  * @returns Promise that resolves to boolean indicating if marketplace links are enabled
@@ -325,6 +837,30 @@ export function getEnergyRecoverySettingsStorageItem() {
   return energyRecoveryEnabled;
 }
 
+/**
+ * Loads inline annotations enabled setting from WXT storage
+ * @returns Promise that resolves to boolean indicating if PHORSE amounts on the page are annotated
+ */
+export async function loadInlineAnnotationsSettings(): Promise<boolean> {
+  try {
+    const isEnabled = await inlineAnnotationsEnabled.getValue();
+    return isEnabled;
+  } catch (error) {
+    return true; // Default to enabled
+  }
+}
+
+/**
+ * Saves inline annotations enabled setting to WXT storage
+ * @param enabled - Boolean indicating if PHORSE amounts on the page should be annotated
+ */
+export async function saveInlineAnnotationsSettings(enabled: boolean): Promise<void> {
+  try {
+    await inlineAnnotationsEnabled.setValue(enabled);
+  } catch (error) {
+  }
+}
+
 /**
  * Loads settings modal enabled setting from WXT storage
  * @returns Promise that resolves to boolean indicating if settings modal is enabled
@@ -390,14 +926,125 @@ export function getHorseAnalyzerSettingsStorageItem() {
 }
 
 /**
- * Interface for all application settings
+ * Group of user preferences that changed in storage
+ * - currency: preferred currency (converter dropdown)
+ * - display: display mode or pinned currencies (converter dropdown)
+ * - settings: any setting saved from the settings modal
+ */
+export type PreferenceChange = 'currency' | 'display' | 'settings';
+
+/**
+ * Watches user preferences for changes made by any tab or extension page
+ * @param onChange - Called with the group of the changed item
+ * @returns Function that stops watching
+ * @example
+ * const unwatch = watchPreferences(change => debugLog(`${change} changed`));
  */
-export interface AllSettings {
-  converterEnabled: boolean;
-  enabledCurrencies: ConversionKey[];
-  marketplaceLinksEnabled: boolean;
-  enabledMarketplaces: string[];
-  energyRecoveryEnabled: boolean;
+export function watchPreferences(onChange: (change: PreferenceChange) => void): () => void {
+  const unwatchers = [
+    userPreferredCurrency.watch(() => onChange('currency')),
+    converterDisplayMode.watch(() => onChange('display')),
+    pinnedCurrencies.watch(() => onChange('display')),
+    ...[
+      priceConverterEnabled,
+      enabledCurrencies,
+      customTokens,
+      rateOverrides,
+      numberFormatSettings,
+      marketplaceLinksEnabled,
+      enabledMarketplaces,
+      energyRecoveryEnabled,
+      inlineAnnotationsEnabled,
+      energyNotificationSettings,
+      horseHistoryRetentionDays,
+      settingsModalEnabled
+    ].map(item => item.watch(() => onChange('settings')))
+  ];
+
+  return () => {
+    unwatchers.forEach(unwatch => unwatch());
+  };
+}
+
+/**
+ * Storage item and accessors of one settings field
+ * The item's fallback is the setting's default
+ */
+interface SettingsField<T> {
+  item: { fallback: T; };
+  load: () => Promise<T>;
+  save: (value: T) => Promise<void>;
+}
+
+/**
+ * Creates a settings field, inferring its value type from the storage item
+ * @param item - Storage item holding the setting
+ * @param load - Loads the setting (with any validation)
+ * @param save - Saves the setting
+ * @returns Settings field
+ */
+function settingsField<T>(item: { fallback: T; }, load: () => Promise<T>, save: (value: T) => Promise<void>): SettingsField<T> {
+  return { item, load, save };
+}
+
+// Settings schema - every setting with its storage item and accessors
+// AllSettings, the defaults and loadAllSettings/saveAllSettings are derived from it, so the
+// settings modal and the options page always read and write the same items
+const SETTINGS_FIELDS = {
+  converterEnabled: settingsField(priceConverterEnabled, loadConverterSettings, saveConverterSettings),
+  enabledCurrencies: settingsField(enabledCurrencies, loadEnabledCurrencies, saveEnabledCurrencies),
+  customTokens: settingsField(customTokens, loadCustomTokens, saveCustomTokens),
+  rateOverrides: settingsField(rateOverrides, loadRateOverrides, saveRateOverrides),
+  numberFormat: settingsField(numberFormatSettings, loadNumberFormatSettings, saveNumberFormatSettings),
+  marketplaceLinksEnabled: settingsField(marketplaceLinksEnabled, loadMarketplaceSettings, saveMarketplaceSettings),
+  enabledMarketplaces: settingsField(enabledMarketplaces, loadEnabledMarketplaces, saveEnabledMarketplaces),
+  energyRecoveryEnabled: settingsField(energyRecoveryEnabled, loadEnergyRecoverySettings, saveEnergyRecoverySettings),
+  inlineAnnotationsEnabled: settingsField(inlineAnnotationsEnabled, loadInlineAnnotationsSettings, saveInlineAnnotationsSettings),
+  priceAlertRules: settingsField(priceAlertRules, loadPriceAlertRules, savePriceAlertRules),
+  energyNotifications: settingsField(energyNotificationSettings, loadEnergyNotificationSettings, saveEnergyNotificationSettings),
+  horseHistoryRetentionDays: settingsField(horseHistoryRetentionDays, loadHorseHistoryRetentionDays, saveHorseHistoryRetentionDays),
+  settingsModalEnabled: settingsField(settingsModalEnabled, loadSettingsModalSettings, saveSettingsModalSettings)
+};
+
+type SettingsKey = keyof typeof SETTINGS_FIELDS;
+
+/**
+ * All application settings, one value per settings field
+ */
+export type AllSettings = { [K in SettingsKey]: typeof SETTINGS_FIELDS[K] extends SettingsField<infer T> ? T : never };
+
+const SETTINGS_KEYS = Object.keys(SETTINGS_FIELDS) as SettingsKey[];
+
+/**
+ * Gets the settings field of a key, typed for that key
+ * @param key - Settings key
+ * @returns Settings field
+ */
+function getSettingsField<K extends SettingsKey>(key: K): SettingsField<AllSettings[K]> {
+  const fields: { [F in SettingsKey]: SettingsField<AllSettings[F]> } = SETTINGS_FIELDS;
+  return fields[key];
+}
+
+/**
+ * Gets the default value of every setting - the fallbacks of the storage items
+ * @returns New object with default settings
+ */
+export function getDefaultSettings(): AllSettings {
+  const settings: Partial<AllSettings> = {};
+  SETTINGS_KEYS.forEach(<K extends SettingsKey>(key: K) => {
+    // Copied so callers can edit the defaults without changing the fallbacks
+    settings[key] = structuredClone(getSettingsField(key).item.fallback);
+  });
+  return settings as AllSettings; // Every settings key was set above
+}
+
+/**
+ * Loads one setting into a settings object
+ * @param settings - Settings to update
+ * @param key - Settings key
+ */
+async function loadSetting<K extends SettingsKey>(settings: AllSettings, key: K): Promise<void> {
+  settings[key] = await getSettingsField(key).load();
 }
 
 /**
@@ -405,41 +1052,33 @@ export interface AllSettings {
  * @returns Promise that resolves to object with all current settings
  */
 export async function loadAllSettings(): Promise<AllSettings> {
+  const settings = getDefaultSettings();
   try {
-    const [
-      converterEnabled,
-      enabledCurrencies,
-      marketplaceLinksEnabled,
-      enabledMarketplaces,
-      energyRecoveryEnabled
-    ] = await Promise.all([
-      loadConverterSettings(),
-      loadEnabledCurrencies(),
-      loadMarketplaceSettings(),
-      loadEnabledMarketplaces(),
-      loadEnergyRecoverySettings()
-    ]);
-
-    const settings = {
-      converterEnabled,
-      enabledCurrencies,
-      marketplaceLinksEnabled,
-      enabledMarketplaces,
-      energyRecoveryEnabled
-    };
-
+    await Promise.all(SETTINGS_KEYS.map(key => loadSetting(settings, key)));
     return settings;
   } catch (error) {
     // Return default fallback settings
-    return {
-      converterEnabled: true,
-      enabledCurrencies: ['usd', 'ron'],
-      marketplaceLinksEnabled: true,
-      enabledMarketplaces: ['ronin', 'opensea'],
-      energyRecoveryEnabled: true
-    };
+    return getDefaultSettings();
   }
 }
 
+/**
+ * Saves one setting of a settings object
+ * @param settings - Settings to save from
+ * @param key - Settings key
+ */
+async function saveSetting<K extends SettingsKey>(settings: AllSettings, key: K): Promise<void> {
+  await getSettingsField(key).save(settings[key]);
+}
+
+/**
+ * Saves all application settings to storage in parallel
+ * @param settings - Complete settings to save
+ * @returns Promise that resolves when every setting is saved
+ */
+export async function saveAllSettings(settings: AllSettings): Promise<void> {
+  await Promise.all(SETTINGS_KEYS.map(key => saveSetting(settings, key)));
+}
+
 // Export types for use in other modules
-export type { StoredHorseInfo, StoredHorseAnalysis, StoredHorseStats };
\ No newline at end of file
+export type { StoredHorseInfo, StoredHorseAnalysis, StoredHorseStats, StoredPriceCache, StoredBalance };
\ No newline at end of file
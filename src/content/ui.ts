@@ -1,11 +1,27 @@
 import { CONFIG, debugLog, getConversionDisplayText, type ConversionKey } from './config';
-import { getConvertedPrice } from './api';
-import { getCurrentConversion, setCurrentConversion } from './state';
-import { formatPrice } from './utils/formatting';
-import { createDropdownOptions, createDropdownButton, setupDropdownToggle, type DropdownCallbacks } from './utils/dropdown';
+import { getConvertedPrice, getPriceCacheStatus, getPriceDataSources, onPriceDataUpdated, refreshAllTokenPrices } from './api';
+import { getCurrentConversion, setCurrentConversion, onConversionChanged, getDisplayMode, setDisplayMode, getPinnedConversions, togglePinnedConversion } from './state';
+import { formatPrice, formatTime } from './utils/formatting';
+import { createDropdownOptions, createDropdownButton, setupDropdownToggle, updateDropdownOptionsState, type DropdownCallbacks } from './utils/dropdown';
+import { createPinnedValues } from './utils/pinned-values';
+import { createPriceTrend } from './utils/price-trend';
+import { describeRateOverride, getRateOverride } from './utils/rate-overrides';
+import { recordBalanceChange } from './utils/balance-ledger';
+import { saveLastBalance } from './storage';
+import { showLedgerModal } from './modals/ledger-modal';
+import { showDashboardModal } from './modals/dashboard-modal';
+import { createCalculatorPopover } from './utils/calculator-popover';
+import { getEnabledConversions } from './utils/validation';
+import { isEditableTarget } from './utils/hotkeys';
+import { describeRpcError } from '../shared/rpc';
 
 // Removed WeakMap cache - elements recreate frequently in SPA navigation
 
+// How often the stale marker is re-evaluated while no new prices arrive
+const PRICE_STATUS_CHECK_INTERVAL = 30000;
+// How long a failed manual refresh message stays visible
+const REFRESH_ERROR_DISPLAY_TIME = 3000;
+
 /**
  * Creates a WXT UI component for currency conversion display
  * Replaces manual DOM manipulation with native WXT component
@@ -42,16 +58,126 @@ export function createCurrencyConversionUI(ctx: any) {
       dropdownContainer.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_CONTAINER);
       dropdownContainer.classList.add(CONFIG.CSS_CLASSES.GRID_DROPDOWN);
       
-      // Create dropdown button using utility
-      const dropdownButtonComponents = createDropdownButton(getCurrentConversion());
-      const { element: dropdownButton, updateSelection } = dropdownButtonComponents;
-      
       // Create converted price span (defined here so it can be used in callbacks)
       const convertedPrice = document.createElement('span');
       convertedPrice.classList.add(CONFIG.CSS_CLASSES.CONVERTED_PRICE);
       convertedPrice.classList.add(CONFIG.CSS_CLASSES.TEXT_CENTER);
       convertedPrice.classList.add(CONFIG.CSS_CLASSES.GRID_CONVERTED);
       
+      // Value and freshness marker live inside the converted price cell
+      const convertedValue = document.createElement('span');
+      convertedValue.classList.add(CONFIG.CSS_CLASSES.CONVERTED_VALUE);
+      const priceStatus = document.createElement('span');
+      priceStatus.classList.add(CONFIG.CSS_CLASSES.PRICE_STATUS);
+      
+      // Sparkline with 24h/7d change; history loads asynchronously
+      const priceTrend = createPriceTrend(getCurrentConversion());
+      
+      // Stacked values for pinned currencies (only visible in multi-display mode)
+      const pinnedValues = createPinnedValues();
+      
+      convertedPrice.appendChild(convertedValue);
+      convertedPrice.appendChild(pinnedValues.element);
+      convertedPrice.appendChild(priceTrend.element);
+      convertedPrice.appendChild(priceStatus);
+      
+      // Recalculates the converted price(s) for the current balance and selection or pins
+      const renderConvertedPrice = (): string => {
+        const status = getPriceCacheStatus();
+        
+        // Explicit error state - no price has ever been fetched
+        if (!status.hasData || status.fetchedAt === null) {
+          convertedPrice.classList.remove(CONFIG.CSS_CLASSES.CONVERTED_MULTI);
+          convertedPrice.classList.add(CONFIG.CSS_CLASSES.PRICE_ERROR);
+          convertedPrice.title = 'No price data yet - click ⟳ to retry';
+          convertedValue.textContent = 'Price unavailable';
+          priceStatus.textContent = '';
+          return convertedValue.textContent;
+        }
+        
+        const isMulti = getDisplayMode() === 'multi';
+        const conversions = isMulti ? getPinnedConversions() : [getCurrentConversion()];
+        const balanceText = balanceElement.textContent || '0';
+        let renderedText: string;
+        
+        convertedPrice.classList.toggle(CONFIG.CSS_CLASSES.CONVERTED_MULTI, isMulti);
+        
+        if (isMulti) {
+          // Rows mark their own missing rates
+          renderedText = pinnedValues.render(conversions, balanceText);
+          convertedPrice.classList.remove(CONFIG.CSS_CLASSES.PRICE_ERROR);
+        } else {
+          const conversion = conversions[0];
+          try {
+            const value = getConvertedPrice(conversion, balanceText);
+            convertedValue.textContent = formatPrice(value, conversion);
+            convertedPrice.classList.remove(CONFIG.CSS_CLASSES.PRICE_ERROR);
+          } catch (error) {
+            debugLog('Error converting price:', error);
+            convertedValue.textContent = 'Rate unavailable';
+            convertedPrice.classList.add(CONFIG.CSS_CLASSES.PRICE_ERROR);
+          }
+          renderedText = convertedValue.textContent;
+          
+          // Overridden values are marked so they aren't mistaken for the API rate
+          convertedValue.classList.toggle(CONFIG.CSS_CLASSES.PRICE_OVERRIDDEN, getRateOverride(conversion) !== undefined);
+        }
+        
+        priceTrend.setConversion(getCurrentConversion());
+        
+        // Last known price is shown with a marker once it exceeds the cache TTL
+        const asOf = `as of ${formatTime(status.fetchedAt)}`;
+        const overrideLines = conversions
+          .filter(conversion => getRateOverride(conversion) !== undefined)
+          .map(conversion => `Custom rate: ${describeRateOverride(conversion, getRateOverride(conversion)!)}`);
+        convertedPrice.title = [`Prices ${asOf} (${getPriceDataSources().join(', ')})`, ...overrideLines].join('\n');
+        
+        const statusParts: string[] = [];
+        if (overrideLines.length > 0) statusParts.push('custom rate');
+        if (status.isStale) statusParts.push(`stale · ${asOf}`);
+        priceStatus.textContent = statusParts.join(' · ');
+        priceStatus.classList.toggle(CONFIG.CSS_CLASSES.PRICE_STATUS_STALE, status.isStale);
+        
+        return renderedText;
+      };
+      
+      // Forces a background refetch; the pushed update re-renders the price
+      const handleRefresh = async (): Promise<void> => {
+        try {
+          await refreshAllTokenPrices();
+          debugLog('Manual price refresh complete');
+        } catch (error) {
+          debugLog('Manual price refresh failed:', error);
+          priceStatus.textContent = `refresh failed: ${describeRpcError(error)}`;
+          priceStatus.classList.add(CONFIG.CSS_CLASSES.PRICE_STATUS_STALE);
+          setTimeout(renderConvertedPrice, REFRESH_ERROR_DISPLAY_TIME);
+          return;
+        }
+        renderConvertedPrice();
+      };
+      
+      // Create dropdown button using utility
+      const dropdownButtonComponents = createDropdownButton(getCurrentConversion(), { onRefresh: handleRefresh });
+      const { element: dropdownButton, updateSelection, updatePinnedSelection } = dropdownButtonComponents;
+      
+      // Options container is created below; mode/pin handlers only run after it exists
+      let optionsContainer: HTMLElement;
+      
+      // Syncs the button label and option pins with the display mode
+      const updateDropdownState = (): void => {
+        const mode = getDisplayMode();
+        updateDropdownOptionsState(optionsContainer, mode, getPinnedConversions());
+        
+        if (mode === 'multi') {
+          updatePinnedSelection(getPinnedConversions());
+        } else {
+          updateSelection(getCurrentConversion());
+        }
+      };
+      
+      // Quick-convert calculator, opened from the dropdown or the hotkey
+      const calculator = createCalculatorPopover(await getEnabledConversions(), dropdownContainer);
+      
       // Create dropdown options using utility (now async)
       const dropdownCallbacks: DropdownCallbacks = {
         onSelectionChange: (newCurrency: ConversionKey) => {
@@ -62,18 +188,41 @@ export function createCurrencyConversionUI(ctx: any) {
           setCurrentConversion(newCurrency);
           
           // Update converted price immediately
-          const newConvertedValue = getConvertedPrice(newCurrency, balanceElement.textContent || '0');
-          convertedPrice.textContent = formatPrice(newConvertedValue);
+          renderConvertedPrice();
           
           debugLog(`Currency changed to: ${newCurrency}`);
+        },
+        onPinToggle: (conversion: ConversionKey) => {
+          if (!togglePinnedConversion(conversion)) {
+            debugLog(`Pin limit reached (${CONFIG.MULTI_DISPLAY.MIN_PINNED}-${CONFIG.MULTI_DISPLAY.MAX_PINNED}) - ${conversion} unchanged`);
+            return;
+          }
+          updateDropdownState();
+          renderConvertedPrice();
+        },
+        onModeToggle: () => {
+          setDisplayMode(getDisplayMode() === 'multi' ? 'single' : 'multi');
+          updateDropdownState();
+          renderConvertedPrice();
+        },
+        onOpenLedger: () => {
+          showLedgerModal().catch(error => debugLog('Error opening balance ledger:', error));
+        },
+        onOpenDashboard: () => {
+          showDashboardModal().catch(error => debugLog('Error opening stable dashboard:', error));
+        },
+        onOpenCalculator: () => {
+          calculator.open(getCurrentConversion());
         }
       };
       
-      const optionsContainer = await createDropdownOptions(dropdownCallbacks);
+      optionsContainer = await createDropdownOptions(dropdownCallbacks);
+      updateDropdownState();
       
       // Assemble dropdown
       dropdownContainer.appendChild(dropdownButton);
       dropdownContainer.appendChild(optionsContainer);
+      dropdownContainer.appendChild(calculator.element);
       
       // Setup dropdown toggle behavior
       const cleanupDropdown = setupDropdownToggle(
@@ -83,11 +232,46 @@ export function createCurrencyConversionUI(ctx: any) {
       );
 
       // Calculate and display initial converted price
-      const convertedValue = getConvertedPrice(getCurrentConversion(), balanceElement.textContent || '0');
-      convertedPrice.textContent = formatPrice(convertedValue);
+      renderConvertedPrice();
+      priceTrend.reload();
+
+      // Re-render whenever the background pushes fresh prices
+      const unsubscribePrices = onPriceDataUpdated(() => {
+        renderConvertedPrice();
+        priceTrend.reload();
+        calculator.refresh();
+        debugLog('Converted price updated with refreshed rates');
+      });
+      
+      // Follow currency changes made elsewhere (e.g. another game tab)
+      const unsubscribeConversion = onConversionChanged(() => {
+        updateDropdownState();
+        renderConvertedPrice();
+      });
+      
+      // Re-evaluate the stale marker even when no new prices arrive
+      const priceStatusTimer = setInterval(renderConvertedPrice, PRICE_STATUS_CHECK_INTERVAL);
 
+      // Calculator hotkey (ignored while typing in the page)
+      const hotkeyHandler = (e: KeyboardEvent) => {
+        if (e.altKey && !e.shiftKey && !e.ctrlKey && !e.metaKey && e.code === CONFIG.QUICK_CONVERT.HOTKEY_CODE && !isEditableTarget(e.target)) {
+          e.preventDefault();
+          calculator.toggle(getCurrentConversion());
+        }
+      };
+      document.addEventListener('keydown', hotkeyHandler);
+      
       // Balance change detection via polling
       let lastBalance = balanceElement.textContent || '0';
+      
+      // Remember the balance for the toolbar popup (0 means the wallet is not connected)
+      const rememberBalance = (balance: number): void => {
+        if (balance > 0) {
+          saveLastBalance(balance).catch(() => {
+          });
+        }
+      };
+      rememberBalance(parseFloat(lastBalance) || 0);
       const balancePoller = setInterval(() => {
         const currentBalance = balanceElement.textContent || '0';
         if (currentBalance !== lastBalance) {
@@ -105,11 +289,18 @@ export function createCurrencyConversionUI(ctx: any) {
             // The observer will automatically handle any new horse elements
           }
           
+          // Only real earnings/spending go to the ledger, not wallet (dis)connections
+          if (lastBalanceNum > 0 && currentBalanceNum > 0) {
+            recordBalanceChange(lastBalanceNum, currentBalanceNum).catch(error => {
+              debugLog('Error recording balance change:', error);
+            });
+          }
+          
+          rememberBalance(currentBalanceNum);
           lastBalance = currentBalance;
           // Update converted price when balance changes
-          const newConvertedValue = getConvertedPrice(getCurrentConversion(), currentBalance);
-          convertedPrice.textContent = formatPrice(newConvertedValue);
-          debugLog(`Balance changed to: ${currentBalance}, converted: ${formatPrice(newConvertedValue)}`);
+          const newConvertedText = renderConvertedPrice();
+          debugLog(`Balance changed to: ${currentBalance}, converted: ${newConvertedText}`);
         }
       }, 500);
 
@@ -129,6 +320,12 @@ export function createCurrencyConversionUI(ctx: any) {
       // Return cleanup function for unmounting
       return () => {
         clearInterval(balancePoller);
+        clearInterval(priceStatusTimer);
+        unsubscribePrices();
+        unsubscribeConversion();
+        priceTrend.destroy();
+        calculator.destroy();
+        document.removeEventListener('keydown', hotkeyHandler);
         cleanupDropdown();
         debugLog('Currency conversion UI unmounted');
       };
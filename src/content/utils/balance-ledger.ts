@@ -0,0 +1,205 @@
+/**
+ * Balance ledger utilities
+ * Records PHORSE balance changes with the rates cached at that moment and
+ * summarizes them into daily or weekly earnings and spending
+ */
+
+import { CONFIG, debugLog, type ConversionKey } from '../config';
+import { getCachedPriceData, getConversionRate, type PriceData } from '../api';
+import { loadBalanceLedger, saveBalanceLedger } from '../storage';
+import { trimRatesForHistory } from './price-history';
+
+/**
+ * A single observed balance change
+ */
+export interface LedgerEntry {
+  timestamp: number;         // Epoch milliseconds when the change was seen
+  amount: number;            // PHORSE delta (positive = earned, negative = spent)
+  balance: number;           // PHORSE balance after the change
+  rates: PriceData | null;   // Rates cached at that moment (trimmed like price history), null if none yet
+}
+
+/**
+ * Period used to group ledger entries
+ */
+export type LedgerPeriod = 'day' | 'week';
+
+/**
+ * Earnings and spending within one period
+ * Values are in the requested conversion; entries recorded without rates only count towards the PHORSE totals
+ */
+export interface LedgerPeriodSummary {
+  start: number;             // Epoch milliseconds of the period start (local midnight / Monday)
+  earned: number;
+  spent: number;             // Positive amount
+  net: number;
+  phorseNet: number;
+  entryCount: number;
+  unpricedCount: number;     // Entries without rates, missing from earned/spent/net
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Balances are shown with a handful of decimals - drop float noise from subtraction
+const AMOUNT_PRECISION = 1e8;
+
+/**
+ * Creates a ledger entry for a balance change using the currently cached rates
+ * @param previousBalance - PHORSE balance before the change
+ * @param currentBalance - PHORSE balance after the change
+ * @param timestamp - Time of the change in epoch milliseconds
+ * @returns New ledger entry
+ * @example
+ * createLedgerEntry(1500, 1620) // { amount: 120, balance: 1620, ... }
+ */
+export function createLedgerEntry(previousBalance: number, currentBalance: number, timestamp: number = Date.now()): LedgerEntry {
+  const rates = getCachedPriceData();
+
+  return {
+    timestamp,
+    amount: Math.round((currentBalance - previousBalance) * AMOUNT_PRECISION) / AMOUNT_PRECISION,
+    balance: currentBalance,
+    rates: rates ? trimRatesForHistory(rates) : null
+  };
+}
+
+/**
+ * Appends an entry to the ledger, applying retention limits
+ * The same change observed by several open tabs is only stored once
+ * @param entries - Existing entries, oldest first
+ * @param entry - Entry to append
+ * @returns New ledger array, oldest first
+ */
+export function appendLedgerEntry(entries: LedgerEntry[], entry: LedgerEntry): LedgerEntry[] {
+  const isDuplicate = entries.some(existing =>
+    existing.amount === entry.amount &&
+    existing.balance === entry.balance &&
+    Math.abs(existing.timestamp - entry.timestamp) < CONFIG.BALANCE_LEDGER.DEDUPE_WINDOW_MS
+  );
+  if (isDuplicate) {
+    return entries;
+  }
+
+  const cutoff = entry.timestamp - CONFIG.BALANCE_LEDGER.RETENTION_DAYS * DAY_MS;
+  return [...entries, entry]
+    .filter(existing => existing.timestamp >= cutoff)
+    .slice(-CONFIG.BALANCE_LEDGER.MAX_ENTRIES);
+}
+
+/**
+ * Records a balance change in the stored ledger
+ * @param previousBalance - PHORSE balance before the change
+ * @param currentBalance - PHORSE balance after the change
+ */
+export async function recordBalanceChange(previousBalance: number, currentBalance: number): Promise<void> {
+  const entry = createLedgerEntry(previousBalance, currentBalance);
+  if (entry.amount === 0) return;
+
+  const entries = await loadBalanceLedger();
+  const updated = appendLedgerEntry(entries, entry);
+  if (updated !== entries) {
+    await saveBalanceLedger(updated);
+    debugLog(`Ledger entry recorded: ${entry.amount} PHORSE`);
+  }
+}
+
+/**
+ * Gets the value of a ledger entry in a conversion at the rates recorded with it
+ * Rate overrides are left out - they describe today's rate, not the one the entry was recorded at
+ * @param entry - Ledger entry
+ * @param conversionKey - Target conversion (e.g., 'usd')
+ * @returns Signed value, or null if the entry has no usable rate
+ */
+export function getLedgerEntryValue(entry: LedgerEntry, conversionKey: ConversionKey): number | null {
+  if (!entry.rates) return null;
+
+  try {
+    return entry.amount * getConversionRate(entry.rates, conversionKey);
+  } catch (error) {
+    // Conversion added after the entry was recorded
+    return null;
+  }
+}
+
+/**
+ * Gets the start of the period containing a timestamp, in local time
+ * Weeks start on Monday
+ * @param timestamp - Epoch milliseconds
+ * @param period - 'day' or 'week'
+ * @returns Epoch milliseconds of the period start
+ */
+export function getLedgerPeriodStart(timestamp: number, period: LedgerPeriod): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+
+  if (period === 'week') {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    date.setDate(date.getDate() - daysSinceMonday);
+  }
+
+  return date.getTime();
+}
+
+/**
+ * Gets the start of the period before the given one
+ * Uses calendar arithmetic so DST changes don't shift period boundaries
+ * @param start - Period start in epoch milliseconds
+ * @param period - 'day' or 'week'
+ * @returns Epoch milliseconds of the previous period start
+ */
+function getPreviousPeriodStart(start: number, period: LedgerPeriod): number {
+  const date = new Date(start);
+  date.setDate(date.getDate() - (period === 'week' ? 7 : 1));
+  return date.getTime();
+}
+
+/**
+ * Summarizes ledger entries per day or week in a conversion
+ * Periods without entries are included so the view shows a continuous range
+ * @param entries - Ledger entries, oldest first
+ * @param conversionKey - Conversion the values are expressed in
+ * @param period - 'day' or 'week'
+ * @param count - Number of periods to return, ending with the current one
+ * @param now - Current time in epoch milliseconds
+ * @returns Period summaries, newest first
+ * @example
+ * summarizeLedger(entries, 'usd', 'day', 7) // last 7 days, today first
+ */
+export function summarizeLedger(
+  entries: LedgerEntry[],
+  conversionKey: ConversionKey,
+  period: LedgerPeriod,
+  count: number,
+  now: number = Date.now()
+): LedgerPeriodSummary[] {
+  const summaries = new Map<number, LedgerPeriodSummary>();
+
+  let start = getLedgerPeriodStart(now, period);
+  for (let i = 0; i < count; i++) {
+    summaries.set(start, { start, earned: 0, spent: 0, net: 0, phorseNet: 0, entryCount: 0, unpricedCount: 0 });
+    start = getPreviousPeriodStart(start, period);
+  }
+
+  entries.forEach(entry => {
+    const summary = summaries.get(getLedgerPeriodStart(entry.timestamp, period));
+    if (!summary) return; // Outside the requested range
+
+    summary.entryCount++;
+    summary.phorseNet += entry.amount;
+
+    const value = getLedgerEntryValue(entry, conversionKey);
+    if (value === null) {
+      summary.unpricedCount++;
+      return;
+    }
+
+    if (value >= 0) {
+      summary.earned += value;
+    } else {
+      summary.spent -= value;
+    }
+    summary.net += value;
+  });
+
+  return Array.from(summaries.values());
+}
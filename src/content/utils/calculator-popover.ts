@@ -0,0 +1,238 @@
+/**
+ * Quick-convert calculator popover for the currency converter
+ * Converts an amount between PHORSE and any enabled currency in either direction,
+ * using the same cached rates as getConvertedPrice
+ */
+
+import { CONFIG, debugLog, getConversionDisplayText, type ConversionKey } from '../config';
+import { getConvertedPrice, getPhorseAmount } from '../api';
+import { formatPrice } from './formatting';
+import { formatNumber } from './number-format';
+
+/**
+ * Conversion direction of the calculator
+ * - fromPhorse: PHORSE amount in, currency value out
+ * - toPhorse: currency amount in, PHORSE amount out
+ */
+export type CalculatorDirection = 'fromPhorse' | 'toPhorse';
+
+// Significant digits kept in the copied value
+const COPY_PRECISION = 8;
+
+/**
+ * Parses an amount typed by the user
+ * Accepts a comma as decimal separator when there is no dot (e.g. "350,5")
+ * @param text - Input text
+ * @returns Parsed amount, or NaN if the input is not a number
+ */
+function parseInputAmount(text: string): number {
+  const compact = text.replace(/\s/g, '');
+  const normalized = compact.includes('.') ? compact.replace(/,/g, '') : compact.replace(',', '.');
+  return normalized ? Number(normalized) : NaN;
+}
+
+/**
+ * Creates the calculator popover element
+ * @param conversions - Enabled conversions offered in the currency select
+ * @param anchor - Element the popover belongs to; clicks inside it don't close the popover
+ * @returns Object containing the element and functions to open, close, refresh and destroy it
+ * @example
+ * const calculator = createCalculatorPopover(['usd', 'ars', 'ron'], dropdownContainer);
+ * dropdownContainer.appendChild(calculator.element);
+ * calculator.open('ars');
+ */
+export function createCalculatorPopover(conversions: ConversionKey[], anchor: HTMLElement) {
+  let direction: CalculatorDirection = 'fromPhorse';
+  let lastResult: number | null = null;
+  let copyFeedbackTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const element = document.createElement('div');
+  element.classList.add(CONFIG.CSS_CLASSES.CALCULATOR);
+  element.title = `Quick convert (${CONFIG.QUICK_CONVERT.HOTKEY_LABEL})`;
+
+  // Input row: amount and its unit
+  const inputRow = document.createElement('div');
+  inputRow.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_ROW);
+
+  const amountInput = document.createElement('input');
+  amountInput.type = 'text';
+  amountInput.inputMode = 'decimal';
+  amountInput.placeholder = 'Amount';
+  amountInput.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_INPUT);
+
+  const inputUnit = document.createElement('span');
+
+  // Output row: result, its unit and copy button
+  const outputRow = document.createElement('div');
+  outputRow.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_ROW);
+
+  const result = document.createElement('span');
+  result.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_RESULT);
+
+  const outputUnit = document.createElement('span');
+
+  // The currency select moves between the input and output unit slots on swap
+  const phorseLabel = document.createElement('span');
+  phorseLabel.textContent = 'PHORSE';
+
+  const currencySelect = document.createElement('select');
+  currencySelect.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_INPUT);
+  conversions.forEach(conversion => {
+    const option = document.createElement('option');
+    option.value = conversion;
+    option.textContent = getConversionDisplayText(conversion, 'name');
+    currencySelect.appendChild(option);
+  });
+
+  const swapButton = document.createElement('button');
+  swapButton.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_BUTTON);
+  swapButton.textContent = '⇅';
+  swapButton.title = 'Swap direction';
+
+  const copyButton = document.createElement('button');
+  copyButton.classList.add(CONFIG.CSS_CLASSES.CALCULATOR_BUTTON);
+  copyButton.textContent = '📋';
+  copyButton.title = 'Copy result';
+
+  inputRow.appendChild(amountInput);
+  inputRow.appendChild(inputUnit);
+  outputRow.appendChild(result);
+  outputRow.appendChild(outputUnit);
+  outputRow.appendChild(copyButton);
+  element.appendChild(inputRow);
+  element.appendChild(swapButton);
+  element.appendChild(outputRow);
+
+  /**
+   * Places the unit labels for the current direction
+   */
+  const renderUnits = (): void => {
+    const [inputLabel, outputLabel] = direction === 'fromPhorse' ? [phorseLabel, currencySelect] : [currencySelect, phorseLabel];
+    inputUnit.replaceChildren(inputLabel);
+    outputUnit.replaceChildren(outputLabel);
+  };
+
+  /**
+   * Recalculates the result from the input, selected currency and direction
+   */
+  const renderResult = (): void => {
+    const amount = parseInputAmount(amountInput.value);
+    const conversion = currencySelect.value;
+    lastResult = null;
+
+    if (!Number.isFinite(amount)) {
+      result.textContent = amountInput.value.trim() ? 'Invalid amount' : '—';
+      return;
+    }
+
+    try {
+      if (direction === 'fromPhorse') {
+        lastResult = getConvertedPrice(conversion, amount);
+        result.textContent = formatPrice(lastResult, conversion);
+      } else {
+        lastResult = getPhorseAmount(conversion, amount);
+        result.textContent = formatNumber(lastResult);
+      }
+    } catch (error) {
+      debugLog(`Quick convert failed for ${conversion}:`, error);
+      result.textContent = 'Rate unavailable';
+    }
+  };
+
+  /**
+   * Copies the unformatted result so it can be pasted into other tools
+   */
+  const copyResult = async (): Promise<void> => {
+    if (lastResult === null) return;
+
+    try {
+      await navigator.clipboard.writeText(String(Number(lastResult.toPrecision(COPY_PRECISION))));
+      copyButton.textContent = '✓';
+    } catch (error) {
+      debugLog('Error copying quick convert result:', error);
+      copyButton.textContent = '✗';
+    }
+
+    if (copyFeedbackTimeout) clearTimeout(copyFeedbackTimeout);
+    copyFeedbackTimeout = setTimeout(() => {
+      copyButton.textContent = '📋';
+    }, CONFIG.QUICK_CONVERT.COPY_FEEDBACK_MS);
+  };
+
+  const close = (): void => {
+    element.classList.remove('open');
+  };
+
+  const open = (conversion?: ConversionKey): void => {
+    if (conversion && conversions.includes(conversion)) {
+      currencySelect.value = conversion;
+    }
+    element.classList.add('open');
+    renderResult();
+    amountInput.focus();
+    amountInput.select();
+  };
+
+  amountInput.addEventListener('input', renderResult);
+  currencySelect.addEventListener('change', renderResult);
+
+  swapButton.addEventListener('click', () => {
+    // Carry the result over so a swap converts it back
+    if (lastResult !== null) {
+      amountInput.value = String(Number(lastResult.toPrecision(COPY_PRECISION)));
+    }
+    direction = direction === 'fromPhorse' ? 'toPhorse' : 'fromPhorse';
+    renderUnits();
+    renderResult();
+  });
+
+  copyButton.addEventListener('click', () => {
+    copyResult();
+  });
+
+  // Keep the game from reacting to keys typed into the calculator
+  element.addEventListener('keydown', (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      close();
+    }
+    e.stopPropagation();
+  });
+
+  // Close when clicking outside the converter
+  const documentClickHandler = (e: Event) => {
+    if (!anchor.contains(e.target as Node)) {
+      close();
+    }
+  };
+  document.addEventListener('click', documentClickHandler);
+
+  // Clicks inside the popover must not toggle the dropdown
+  element.addEventListener('click', (e: Event) => {
+    e.stopPropagation();
+  });
+
+  renderUnits();
+  renderResult();
+
+  return {
+    element,
+    open,
+    close,
+    /** Opens the popover, or closes it if it is open */
+    toggle: (conversion?: ConversionKey) => {
+      if (element.classList.contains('open')) {
+        close();
+      } else {
+        open(conversion);
+      }
+    },
+    isOpen: () => element.classList.contains('open'),
+    /** Recalculates the result (e.g. after new prices arrive) */
+    refresh: renderResult,
+    destroy: () => {
+      document.removeEventListener('click', documentClickHandler);
+      if (copyFeedbackTimeout) clearTimeout(copyFeedbackTimeout);
+      element.remove();
+    }
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Custom token utilities
+ * Validates user-defined Ronin tokens and registers them as conversion targets
+ * next to the built-in CONFIG.CONVERSION_TYPES.tokens
+ */
+
+import { CONFIG, debugLog, setCustomTokens, type ConversionInfo } from '../config';
+import { loadCustomTokens } from '../storage';
+
+/**
+ * A user-defined Ronin token
+ */
+export interface CustomToken {
+  address: string;      // Lowercase 0x address, also used as the conversion key
+  name: string;         // Short label shown in the dropdown (e.g. "AXS")
+  displayName: string;  // Longer name shown in the settings list (e.g. "Axie Infinity Shard")
+}
+
+/**
+ * Result of validating custom token input
+ */
+export type CustomTokenValidation =
+  | { valid: true; token: CustomToken }
+  | { valid: false; error: string };
+
+// Ronin addresses are 20-byte hex, written with either a 0x or ronin: prefix
+const RONIN_ADDRESS_PATTERN = /^(?:0x|ronin:)([0-9a-fA-F]{40})$/;
+
+const MAX_TOKEN_NAME_LENGTH = 10;
+
+/**
+ * Normalizes a Ronin address to lowercase 0x form
+ * @param input - Address as entered (0x... or ronin:...)
+ * @returns Normalized address, or null if the format is invalid
+ * @example
+ * normalizeRoninAddress('ronin:97A9107C1793BC407D6F527B77E7FFF4D812BECE') // returns '0x97a9107c1793bc407d6f527b77e7fff4d812bece'
+ * normalizeRoninAddress('0x123') // returns null
+ */
+export function normalizeRoninAddress(input: string): string | null {
+  const match = input.trim().match(RONIN_ADDRESS_PATTERN);
+  return match ? `0x${match[1].toLowerCase()}` : null;
+}
+
+/**
+ * Validates custom token input against the address format and existing tokens
+ * @param address - Token contract address as entered
+ * @param name - Short label as entered
+ * @param displayName - Optional longer name (defaults to the label)
+ * @param existing - Custom tokens already defined
+ * @returns The normalized token, or an error message for the settings form
+ */
+export function validateCustomToken(
+  address: string,
+  name: string,
+  displayName: string,
+  existing: CustomToken[]
+): CustomTokenValidation {
+  const normalizedAddress = normalizeRoninAddress(address);
+  if (!normalizedAddress) {
+    return { valid: false, error: 'Address must be 0x or ronin: followed by 40 hex characters' };
+  }
+
+  const builtInAddresses = [CONFIG.PHORSE_ADDRESS, ...Object.values(CONFIG.CONVERSION_TYPES.tokens).map(token => token.address)];
+  if (builtInAddresses.includes(normalizedAddress) || existing.some(token => token.address === normalizedAddress)) {
+    return { valid: false, error: 'This token is already available' };
+  }
+
+  const label = name.trim().toUpperCase();
+  if (!label || label.length > MAX_TOKEN_NAME_LENGTH) {
+    return { valid: false, error: `Label must be 1-${MAX_TOKEN_NAME_LENGTH} characters` };
+  }
+
+  return {
+    valid: true,
+    token: { address: normalizedAddress, name: label, displayName: displayName.trim() || label }
+  };
+}
+
+/**
+ * Converts custom tokens to conversion entries keyed by address
+ * @param tokens - Custom tokens
+ * @returns Conversion info map to merge with the built-in tokens
+ */
+export function toConversionEntries(tokens: CustomToken[]): Record<string, ConversionInfo> {
+  const entries: Record<string, ConversionInfo> = {};
+
+  tokens.forEach(token => {
+    entries[token.address] = {
+      address: token.address,
+      symbol: '🌐',
+      name: token.name,
+      displayName: token.displayName,
+      custom: true
+    };
+  });
+
+  return entries;
+}
+
+/**
+ * Registers custom tokens as conversion targets in this context
+ * @param tokens - Custom tokens to register (replaces any previously registered)
+ */
+export function applyCustomTokens(tokens: CustomToken[]): void {
+  setCustomTokens(toConversionEntries(tokens));
+}
+
+/**
+ * Loads custom tokens from storage and registers them
+ * Must run before conversions are validated (state init, price fetch)
+ */
+export async function syncCustomTokens(): Promise<void> {
+  const tokens = await loadCustomTokens();
+  applyCustomTokens(tokens);
+  debugLog(`Registered ${tokens.length} custom token(s)`);
+}
@@ -3,7 +3,7 @@
  * Extracted from ui.ts to improve modularity and reusability
  */
 
-import { CONFIG, getConversionDisplayText, type ConversionKey } from '../config';
+import { CONFIG, getAllTokens, getConversionDisplayText, type ConversionKey, type ConverterDisplayMode } from '../config';
 import { getAllValidConversions, getEnabledConversions } from './validation';
 
 /**
@@ -12,6 +12,16 @@ import { getAllValidConversions, getEnabledConversions } from './validation';
 export interface DropdownCallbacks {
   /** Called when a user selects a new currency option */
   onSelectionChange: (newSelection: ConversionKey) => void;
+  /** Called instead of onSelectionChange when an option is clicked in multi-display mode */
+  onPinToggle?: (conversion: ConversionKey) => void;
+  /** Called when the single/multi-display toggle row is clicked (row is only shown if provided) */
+  onModeToggle?: () => void;
+  /** Called when the balance ledger row is clicked (row is only shown if provided) */
+  onOpenLedger?: () => void;
+  /** Called when the stable dashboard row is clicked (row is only shown if provided) */
+  onOpenDashboard?: () => void;
+  /** Called when the quick-convert row is clicked (row is only shown if provided) */
+  onOpenCalculator?: () => void;
 }
 
 /**
@@ -28,7 +38,8 @@ export async function createDropdownOptions(callbacks: DropdownCallbacks): Promi
   
   // Separate fiat and tokens
   const enabledFiat = enabledConversions.filter(key => CONFIG.CONVERSION_TYPES.fiat[key]);
-  const enabledTokens = enabledConversions.filter(key => CONFIG.CONVERSION_TYPES.tokens[key]);
+  const allTokens = getAllTokens();
+  const enabledTokens = enabledConversions.filter(key => allTokens[key]);
   
   // Add fiat currencies first
   enabledFiat.forEach(conversionKey => {
@@ -41,11 +52,57 @@ export async function createDropdownOptions(callbacks: DropdownCallbacks): Promi
     const option = createDropdownOption(conversionKey);
     optionsContainer.appendChild(option);
   });
+  
+  // Action rows go last so the currency list keeps its order
+  if (callbacks.onModeToggle) {
+    const modeToggle = document.createElement('div');
+    modeToggle.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_OPTION, CONFIG.CSS_CLASSES.DROPDOWN_MODE_TOGGLE);
+    modeToggle.dataset.action = 'toggle-mode';
+    optionsContainer.appendChild(modeToggle);
+  }
+  
+  if (callbacks.onOpenCalculator) {
+    const calculatorAction = document.createElement('div');
+    calculatorAction.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_OPTION, CONFIG.CSS_CLASSES.DROPDOWN_ACTION);
+    calculatorAction.dataset.action = 'open-calculator';
+    calculatorAction.textContent = `🧮 Quick convert (${CONFIG.QUICK_CONVERT.HOTKEY_LABEL})`;
+    optionsContainer.appendChild(calculatorAction);
+  }
+  
+  if (callbacks.onOpenLedger) {
+    const ledgerAction = document.createElement('div');
+    ledgerAction.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_OPTION, CONFIG.CSS_CLASSES.DROPDOWN_ACTION);
+    ledgerAction.dataset.action = 'open-ledger';
+    ledgerAction.textContent = '📒 Balance ledger';
+    optionsContainer.appendChild(ledgerAction);
+  }
+  
+  if (callbacks.onOpenDashboard) {
+    const dashboardAction = document.createElement('div');
+    dashboardAction.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_OPTION, CONFIG.CSS_CLASSES.DROPDOWN_ACTION);
+    dashboardAction.dataset.action = 'open-dashboard';
+    dashboardAction.textContent = '🐴 Stable dashboard';
+    optionsContainer.appendChild(dashboardAction);
+  }
 
   // Add event listener for option selection
   optionsContainer.addEventListener('click', (e: Event) => {
     const target = e.target as HTMLElement;
-    if (target.dataset.value) {
+    
+    if (target.dataset.action === 'toggle-mode' && callbacks.onModeToggle) {
+      // Keep the list open so pins can be picked right away
+      e.stopPropagation();
+      callbacks.onModeToggle();
+    } else if (target.dataset.action === 'open-calculator' && callbacks.onOpenCalculator) {
+      callbacks.onOpenCalculator();
+    } else if (target.dataset.action === 'open-ledger' && callbacks.onOpenLedger) {
+      callbacks.onOpenLedger();
+    } else if (target.dataset.action === 'open-dashboard' && callbacks.onOpenDashboard) {
+      callbacks.onOpenDashboard();
+    } else if (target.dataset.value && optionsContainer.dataset.mode === 'multi' && callbacks.onPinToggle) {
+      e.stopPropagation();
+      callbacks.onPinToggle(target.dataset.value);
+    } else if (target.dataset.value) {
       callbacks.onSelectionChange(target.dataset.value);
     }
   });
@@ -53,6 +110,28 @@ export async function createDropdownOptions(callbacks: DropdownCallbacks): Promi
   return optionsContainer;
 }
 
+/**
+ * Updates dropdown options for the display mode and pinned currencies
+ * In multi-display mode options act as pin checkboxes instead of single selection
+ * @param optionsContainer - Element returned by createDropdownOptions
+ * @param mode - Current display mode
+ * @param pinned - Currently pinned conversions
+ * @example
+ * updateDropdownOptionsState(options, 'multi', ['usd', 'ars', 'ron']);
+ */
+export function updateDropdownOptionsState(optionsContainer: HTMLElement, mode: ConverterDisplayMode, pinned: ConversionKey[]): void {
+  optionsContainer.dataset.mode = mode;
+  
+  optionsContainer.querySelectorAll<HTMLElement>(`.${CONFIG.CSS_CLASSES.DROPDOWN_OPTION}[data-value]`).forEach(option => {
+    option.classList.toggle(CONFIG.CSS_CLASSES.DROPDOWN_OPTION_PINNED, mode === 'multi' && pinned.includes(option.dataset.value || ''));
+  });
+  
+  const modeToggle = optionsContainer.querySelector<HTMLElement>(`.${CONFIG.CSS_CLASSES.DROPDOWN_MODE_TOGGLE}`);
+  if (modeToggle) {
+    modeToggle.textContent = mode === 'multi' ? '↩ Show one currency' : `📌 Show several currencies (${CONFIG.MULTI_DISPLAY.MIN_PINNED}-${CONFIG.MULTI_DISPLAY.MAX_PINNED})`;
+  }
+}
+
 /**
  * Creates a single dropdown option element
  * @param conversionKey - The conversion key for this option
@@ -70,16 +149,25 @@ function createDropdownOption(conversionKey: ConversionKey): HTMLElement {
   return option;
 }
 
+/**
+ * Optional controls rendered inside the dropdown button
+ */
+export interface DropdownButtonOptions {
+  /** Called when the refresh control is clicked; the control spins until the promise settles */
+  onRefresh?: () => Promise<void>;
+}
+
 /**
  * Creates the dropdown button (shows current selection)
  * @param currentSelection - The currently selected conversion
- * @returns Object containing the button element, selection span, arrow, and update function
+ * @param options - Optional extra controls (e.g. price refresh)
+ * @returns Object containing the button element, selection span, arrow, refresh control, and update functions
  * @example
- * const { element, updateSelection } = createDropdownButton('usd');
+ * const { element, updateSelection } = createDropdownButton('usd', { onRefresh: refreshPrices });
  * container.appendChild(element);
  * updateSelection('eur'); // Updates the displayed selection
  */
-export function createDropdownButton(currentSelection: ConversionKey) {
+export function createDropdownButton(currentSelection: ConversionKey, options: DropdownButtonOptions = {}) {
   const dropdownButton = document.createElement('div');
   dropdownButton.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_BUTTON);
   
@@ -94,14 +182,48 @@ export function createDropdownButton(currentSelection: ConversionKey) {
   dropdownArrow.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_ARROW);
   
   dropdownButton.appendChild(currentSelectionSpan);
+  
+  // Refresh control (sits between selection and arrow so the arrow keeps its rounded corner)
+  let refreshControl: HTMLElement | null = null;
+  if (options.onRefresh) {
+    const onRefresh = options.onRefresh;
+    const refreshSpan = document.createElement('span');
+    refreshSpan.textContent = '⟳';
+    refreshSpan.title = 'Refresh prices';
+    refreshSpan.classList.add(CONFIG.CSS_CLASSES.DROPDOWN_REFRESH);
+    
+    refreshSpan.addEventListener('click', async (e: Event) => {
+      // Don't toggle the options list
+      e.stopPropagation();
+      if (refreshSpan.classList.contains('refreshing')) return;
+      
+      refreshSpan.classList.add('refreshing');
+      try {
+        await onRefresh();
+      } finally {
+        refreshSpan.classList.remove('refreshing');
+      }
+    });
+    
+    dropdownButton.appendChild(refreshSpan);
+    refreshControl = refreshSpan;
+  }
+  
   dropdownButton.appendChild(dropdownArrow);
 
   return {
     element: dropdownButton,
     selectionSpan: currentSelectionSpan,
     arrow: dropdownArrow,
+    refreshControl,
     updateSelection: (newSelection: ConversionKey) => {
       currentSelectionSpan.textContent = getConversionDisplayText(newSelection, 'name');
+      currentSelectionSpan.title = '';
+    },
+    /** Shows the pinned count instead of a single selection (multi-display mode) */
+    updatePinnedSelection: (pinned: ConversionKey[]) => {
+      currentSelectionSpan.textContent = `📌 ${pinned.length} pinned`;
+      currentSelectionSpan.title = pinned.map(key => getConversionDisplayText(key, 'name')).join(', ');
     }
   };
 }
@@ -0,0 +1,89 @@
+/**
+ * Energy notification utilities
+ * Settings model and waste warnings shared by the settings form and the
+ * background notification scheduler
+ */
+
+import { CONFIG } from '../config';
+import type { StoredHorseAnalysis } from '../storage';
+import { getHorseEnergyWaste, getNextEnergyRecharge, projectHorseEnergy } from './energy-status';
+
+/**
+ * User energy notification preferences
+ */
+export interface EnergyNotificationSettings {
+  enabled: boolean;          // Opt-in - off by default
+  leadMinutes: number;       // Notify this long before the recharge
+  mutedHorseIds: number[];   // Horses never notified about
+}
+
+export const DEFAULT_ENERGY_NOTIFICATION_SETTINGS: EnergyNotificationSettings = {
+  enabled: false,
+  leadMinutes: CONFIG.ENERGY_NOTIFICATIONS.DEFAULT_LEAD_MINUTES,
+  mutedHorseIds: []
+};
+
+/**
+ * A horse that will waste energy at the next recharge
+ */
+export interface EnergyWasteWarning {
+  horseId: number;
+  horseName: string;
+  full: boolean;       // Already at max energy - the whole recharge is wasted
+  waste: number;       // Energy above max at the recharge
+  rechargeAt: number;  // Epoch milliseconds of the recharge
+}
+
+/**
+ * Gets when to notify about a recharge
+ * @param rechargeAt - Epoch milliseconds of the recharge
+ * @param leadMinutes - Minutes to notify before it
+ * @returns Epoch milliseconds of the notification
+ */
+export function getEnergyNotificationTime(rechargeAt: number, leadMinutes: number): number {
+  return rechargeAt - leadMinutes * 60 * 1000;
+}
+
+/**
+ * Finds the unmuted horses that will waste energy at the next recharge
+ * Energy is projected from the stored analysis, so this works with the game closed
+ * @param analysis - Stored horse analysis
+ * @param settings - Energy notification settings
+ * @param now - Reference time in epoch milliseconds
+ * @returns One warning per wasting horse, most waste first
+ */
+export function findEnergyWasteWarnings(
+  analysis: StoredHorseAnalysis,
+  settings: EnergyNotificationSettings,
+  now: number = Date.now()
+): EnergyWasteWarning[] {
+  const storedAt = new Date(analysis.timestamp).getTime();
+  const rechargeAt = getNextEnergyRecharge(now);
+
+  return analysis.horses
+    .filter(horse => !settings.mutedHorseIds.includes(horse.id))
+    .map(horse => {
+      const currentEnergy = projectHorseEnergy(horse, storedAt, now);
+      return {
+        horseId: horse.id,
+        horseName: horse.name,
+        full: currentEnergy >= horse.stats.energy.max,
+        waste: getHorseEnergyWaste(horse, currentEnergy),
+        rechargeAt
+      };
+    })
+    .filter(warning => warning.waste > 0)
+    .sort((a, b) => b.waste - a.waste);
+}
+
+/**
+ * Describes a warning for a notification
+ * @param warning - The warning to describe
+ * @param now - Reference time in epoch milliseconds
+ * @returns Message such as "Horse #1234 will waste 14 energy at the next recharge in ~25 min" (the recharge time is an estimate)
+ */
+export function describeEnergyWasteWarning(warning: EnergyWasteWarning, now: number = Date.now()): string {
+  const minutes = Math.max(0, Math.round((warning.rechargeAt - now) / (60 * 1000)));
+  const when = minutes > 0 ? `in ~${minutes} min` : 'now';
+  return `Horse #${warning.horseId} will waste ${warning.waste} energy at the next recharge ${when}`;
+}
@@ -5,24 +5,11 @@ import { CONFIG, debugLog, calculateEnergyRecoveryPer6Hours } from '../config';
 import { loadEnergyRecoverySettings } from '../storage';
 import { createTooltip, type Tooltip } from './tooltip';
 import { extractHorseData, type HorseInfo } from './horse-data-extractor';
+import { isHorseActivelyLosingEnergy } from './energy-status';
 
 // Track tooltip instances for cleanup
 const activeTooltips: Tooltip[] = [];
 
-
-/**
- * Determines if a horse is actively losing energy (racing/working)
- * @param horse - Horse data object
- * @returns true if horse is actively losing energy, false if it's recovering
- */
-function isHorseActivelyLosingEnergy(horse: HorseInfo): boolean {
-  const status = horse.status || 'UNKNOWN';
-  
-  // Only horses in active states will actually lose energy
-  const activeStates = ['RACING', 'BUSY', 'WORKING'];
-  return activeStates.includes(status.toUpperCase());
-}
-
 /**
  * Extracts energy values from text like "ENERGY: 4/12"
  * @param text - The energy text from DOM element
@@ -55,6 +42,16 @@ function findEnergyElement(horseElement: HTMLElement): HTMLElement | null {
   return null;
 }
 
+/**
+ * Checks whether a horse card shows its energy recovery info
+ * @param horseElement - Horse card element
+ * @returns true if the info is present, or if the card has no energy line to add it to
+ */
+export function hasEnergyRecoveryInfo(horseElement: HTMLElement): boolean {
+  const energyElement = findEnergyElement(horseElement);
+  return !energyElement || energyElement.querySelector('[data-horse-id]') !== null;
+}
+
 /**
  * Creates a recovery span element with proper calculation and styling
  * @param horse - Horse data object
@@ -238,7 +235,7 @@ export function cleanupTooltips(): void {
 // ============= ENERGY POLLING SYSTEM =============
 // Cache for previous energy values to detect changes
 const energyCache = new Map<number, number>();
-let pollingInterval: number | null = null;
+let pollingInterval: ReturnType<typeof setInterval> | null = null;
 const POLLING_INTERVAL = 500; // Check every 500ms
 
 /**
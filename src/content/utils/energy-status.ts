@@ -0,0 +1,187 @@
+/**
+ * Energy status of horses outside the horse cards
+ * Recharge schedule, energy projected from stored analysis data and
+ * full/wasting counts, shared by the energy recovery info, the toolbar popup and
+ * the background energy notifications and icon badge
+ */
+
+import { CONFIG, calculateEnergyRecoveryPer6Hours } from '../config';
+import type { StoredHorseInfo } from '../storage';
+
+/**
+ * Energy state of a horse at the next recharge
+ * - full: energy is at max, the whole recharge is wasted
+ * - wasting: part of the recharge would exceed max energy
+ * - recovering: the whole recharge can be used
+ * - losing: horse is racing/working and loses energy instead
+ */
+export type HorseEnergyState = 'full' | 'wasting' | 'recovering' | 'losing';
+
+/**
+ * How urgently a horse should race, most urgent first
+ * - full: energy is at max, the next recharge is lost entirely
+ * - wasting: part of the next recharge would exceed max energy
+ * - ready: energy is near max (CONFIG.ACTION_BADGE.NEAR_MAX_RATIO)
+ */
+export type HorseUrgency = 'full' | 'wasting' | 'ready';
+
+/**
+ * A horse that should race soon
+ */
+export interface ActionableHorse {
+  id: number;
+  name: string;
+  urgency: HorseUrgency;
+}
+
+/**
+ * Horse counts per energy state
+ */
+export interface HorseEnergySummary {
+  total: number;
+  full: number;
+  wasting: number;
+  recovering: number;
+  losing: number;
+}
+
+/**
+ * Determines if a horse is actively losing energy (racing/working)
+ * @param horse - Horse data object
+ * @returns true if horse is actively losing energy, false if it's recovering
+ */
+export function isHorseActivelyLosingEnergy(horse: Pick<StoredHorseInfo, 'status'>): boolean {
+  const status = horse.status || 'UNKNOWN';
+
+  // Only horses in active states will actually lose energy
+  const activeStates = ['RACING', 'BUSY', 'WORKING'];
+  return activeStates.includes(status.toUpperCase());
+}
+
+/**
+ * Gets the energy a horse recovers per recharge
+ * @param horse - Stored horse data (older data has no energyRecovery6h)
+ * @returns Energy recovered every CONFIG.ENERGY_RECHARGE.INTERVAL_HOURS
+ */
+export function getHorseRecoveryPerRecharge(horse: StoredHorseInfo): number {
+  return horse.stats.energyRecovery6h || calculateEnergyRecoveryPer6Hours(horse.stats.level || 1);
+}
+
+/**
+ * Gets the estimated time of the next energy recharge
+ * The schedule is not published by the game; CONFIG.ENERGY_RECHARGE holds the observed one
+ * (every INTERVAL_HOURS, OFFSET_HOURS after 00:00 UTC), so callers should present it as an estimate
+ * @param now - Reference time in epoch milliseconds
+ * @returns Epoch milliseconds of the next recharge
+ * @example
+ * getNextEnergyRecharge(Date.UTC(2025, 0, 1, 7, 30)) // returns Date.UTC(2025, 0, 1, 12)
+ */
+export function getNextEnergyRecharge(now: number = Date.now()): number {
+  const interval = CONFIG.ENERGY_RECHARGE.INTERVAL_HOURS * 60 * 60 * 1000;
+  const offset = CONFIG.ENERGY_RECHARGE.OFFSET_HOURS * 60 * 60 * 1000;
+  return (Math.floor((now - offset) / interval) + 1) * interval + offset;
+}
+
+/**
+ * Counts the estimated recharges between two times
+ * @param since - Start time in epoch milliseconds (exclusive)
+ * @param until - End time in epoch milliseconds (inclusive)
+ * @returns Number of recharges in the range
+ */
+export function countEnergyRecharges(since: number, until: number): number {
+  const interval = CONFIG.ENERGY_RECHARGE.INTERVAL_HOURS * 60 * 60 * 1000;
+  const offset = CONFIG.ENERGY_RECHARGE.OFFSET_HOURS * 60 * 60 * 1000;
+  return Math.max(0, Math.floor((until - offset) / interval) - Math.floor((since - offset) / interval));
+}
+
+/**
+ * Projects a horse's current energy from data stored earlier
+ * Recovering horses gain their recharge at every recharge since the horse was last seen, up to max;
+ * racing/working horses are left as stored
+ * @param horse - Stored horse data
+ * @param storedAt - When the data was stored, in epoch milliseconds (used for horses without lastSeen)
+ * @param now - Reference time in epoch milliseconds
+ * @returns Projected current energy
+ */
+export function projectHorseEnergy(horse: StoredHorseInfo, storedAt: number, now: number = Date.now()): number {
+  const { current, max } = horse.stats.energy;
+  if (isHorseActivelyLosingEnergy(horse)) {
+    return current;
+  }
+  const seenAt = horse.lastSeen ? Date.parse(horse.lastSeen) : storedAt;
+  return Math.min(max, current + countEnergyRecharges(seenAt, now) * getHorseRecoveryPerRecharge(horse));
+}
+
+/**
+ * Gets the energy state of a horse at the next recharge
+ * @param horse - Stored horse data
+ * @param currentEnergy - Current energy (defaults to the stored value)
+ * @returns The horse's energy state
+ */
+export function getHorseEnergyState(horse: StoredHorseInfo, currentEnergy: number = horse.stats.energy.current): HorseEnergyState {
+  if (isHorseActivelyLosingEnergy(horse)) {
+    return 'losing';
+  }
+
+  const max = horse.stats.energy.max;
+  if (currentEnergy >= max) {
+    return 'full';
+  }
+  return getHorseRecoveryPerRecharge(horse) > max - currentEnergy ? 'wasting' : 'recovering';
+}
+
+/**
+ * Gets the energy a horse would waste at the next recharge
+ * @param horse - Stored horse data
+ * @param currentEnergy - Current energy (defaults to the stored value)
+ * @returns Recovered energy above max, 0 for racing/working horses
+ */
+export function getHorseEnergyWaste(horse: StoredHorseInfo, currentEnergy: number = horse.stats.energy.current): number {
+  if (isHorseActivelyLosingEnergy(horse)) {
+    return 0;
+  }
+  const room = Math.max(0, horse.stats.energy.max - currentEnergy);
+  return Math.max(0, getHorseRecoveryPerRecharge(horse) - room);
+}
+
+/**
+ * Counts horses per energy state, projecting stored energy to the present
+ * @param horses - Stored horses
+ * @param storedAt - When the horses were stored, in epoch milliseconds
+ * @param now - Reference time in epoch milliseconds
+ * @returns Horse counts per energy state
+ */
+export function summarizeHorseEnergy(horses: StoredHorseInfo[], storedAt: number, now: number = Date.now()): HorseEnergySummary {
+  const summary: HorseEnergySummary = { total: horses.length, full: 0, wasting: 0, recovering: 0, losing: 0 };
+
+  horses.forEach(horse => {
+    summary[getHorseEnergyState(horse, projectHorseEnergy(horse, storedAt, now))]++;
+  });
+
+  return summary;
+}
+
+/**
+ * Finds horses that are ready to race or will waste energy, projecting stored energy to the present
+ * @param horses - Stored horses
+ * @param storedAt - When the horses were stored, in epoch milliseconds
+ * @param now - Reference time in epoch milliseconds
+ * @returns Actionable horses, most urgent first
+ */
+export function findActionableHorses(horses: StoredHorseInfo[], storedAt: number, now: number = Date.now()): ActionableHorse[] {
+  const urgencyOrder: HorseUrgency[] = ['full', 'wasting', 'ready'];
+  const actionable: ActionableHorse[] = [];
+
+  horses.forEach(horse => {
+    const energy = projectHorseEnergy(horse, storedAt, now);
+    const state = getHorseEnergyState(horse, energy);
+
+    if (state === 'full' || state === 'wasting') {
+      actionable.push({ id: horse.id, name: horse.name, urgency: state });
+    } else if (state === 'recovering' && energy >= horse.stats.energy.max * CONFIG.ACTION_BADGE.NEAR_MAX_RATIO) {
+      actionable.push({ id: horse.id, name: horse.name, urgency: 'ready' });
+    }
+  });
+
+  return actionable.sort((a, b) => urgencyOrder.indexOf(a.urgency) - urgencyOrder.indexOf(b.urgency));
+}
@@ -3,6 +3,9 @@
  * Extracted from ui.ts for better modularity and reusability
  */
 
+import type { ConversionKey } from '../config';
+import { formatConversionValue, formatNumber } from './number-format';
+
 /**
  * Calculates the converted price value of a token balance
  * @param balanceText - The balance text to parse (e.g., "123.45")
@@ -17,15 +20,43 @@ export function calculateConvertedPrice(balanceText: string, tokenPrice: number)
 }
 
 /**
- * Formats a numeric price value for display with consistent formatting
+ * Formats a numeric price value for display using the user's number format settings
  * @param value - The price value to format
- * @returns The formatted price with 2 decimal places
+ * @param conversionKey - Currency or token the value is in (adds its symbol or name)
+ * @returns The formatted price
  * @example
+ * formatPrice(1234.567, 'usd') // returns "$1,234.57"
+ * formatPrice(0.0000031, 'wbtc') // returns "0.0000031 WBTC"
  * formatPrice(123.456) // returns "123.46"
- * formatPrice(0) // returns "0.00"
  */
-export function formatPrice(value: number): string {
-  return value.toFixed(2);
+export function formatPrice(value: number, conversionKey?: ConversionKey): string {
+  return conversionKey ? formatConversionValue(value, conversionKey) : formatNumber(value);
+}
+
+/**
+ * Formats a percent change with an explicit sign
+ * @param value - Percent change (e.g. 3.456 for +3.456%), or null if unknown
+ * @returns Signed percentage with 1 decimal, or an em dash when unknown
+ * @example
+ * formatPercentChange(3.456) // returns "+3.5%"
+ * formatPercentChange(-0.04) // returns "-0.0%"
+ * formatPercentChange(null) // returns "—"
+ */
+export function formatPercentChange(value: number | null): string {
+  if (value === null) return '—';
+  const sign = value >= 0 ? '+' : '-';
+  return `${sign}${Math.abs(value).toFixed(1)}%`;
+}
+
+/**
+ * Formats a timestamp as a short local clock time
+ * @param timestamp - Epoch milliseconds
+ * @returns Time in HH:MM format using the browser locale
+ * @example
+ * formatTime(Date.now()) // returns "14:05"
+ */
+export function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
 /**
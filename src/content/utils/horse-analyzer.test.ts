@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { mergeHorseAnalysis } from './horse-analyzer';
+import { diffStableAnalyses } from './stable-diff';
+import type { StoredHorseAnalysis, StoredHorseInfo } from '../storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 10, 12);
+
+function horse(id: number, seenAt: number): StoredHorseInfo {
+  return {
+    id,
+    name: `Horse ${id}`,
+    gender: 'Male',
+    rarity: 'Common',
+    generation: 1,
+    breeds: { used: 0, total: 3 },
+    status: 'Resting',
+    stats: {
+      level: 5,
+      exp: { current: '100', required: '300' },
+      power: 40,
+      spirit: { base: 10 },
+      speed: { base: 10 },
+      energy: { current: 48, max: 48 }
+    },
+    items: [],
+    lastSeen: new Date(seenAt).toISOString()
+  };
+}
+
+function analysis(horses: StoredHorseInfo[], at: number): StoredHorseAnalysis {
+  return { horses, timestamp: new Date(at).toISOString() };
+}
+
+describe('mergeHorseAnalysis', () => {
+  it('keeps the stable when a view after a two-day break renders a subset', () => {
+    const twoDaysAgo = NOW - 48 * HOUR_MS;
+    const previous = analysis([horse(1, twoDaysAgo), horse(2, twoDaysAgo), horse(3, twoDaysAgo)], twoDaysAgo);
+
+    const merged = analysis(mergeHorseAnalysis(previous, [horse(1, NOW)], NOW), NOW);
+    const diff = diffStableAnalyses(previous, merged);
+
+    expect(merged.horses.map(h => h.id)).toEqual([1, 2, 3]);
+    expect(merged.horses[1].missingSince).toBe(new Date(NOW).toISOString());
+    expect(diff.lost).toEqual([]);
+    expect(diff.gained).toEqual([]);
+  });
+
+  it('drops a horse once every view of a retention window missed it', () => {
+    const missingSince = new Date(NOW - 25 * HOUR_MS).toISOString();
+    const previous = analysis([horse(1, NOW - 26 * HOUR_MS), { ...horse(2, NOW - 26 * HOUR_MS), missingSince }], NOW - 26 * HOUR_MS);
+
+    const merged = analysis(mergeHorseAnalysis(previous, [horse(1, NOW)], NOW), NOW);
+
+    expect(merged.horses.map(h => h.id)).toEqual([1]);
+    expect(diffStableAnalyses(previous, merged).lost).toEqual([{ id: 2, name: 'Horse 2' }]);
+  });
+
+  it('keeps a horse still within the window since the first view without it', () => {
+    const missingSince = new Date(NOW - 23 * HOUR_MS).toISOString();
+    const stored = analysis([{ ...horse(2, NOW - 72 * HOUR_MS), missingSince }], NOW - HOUR_MS);
+
+    const merged = mergeHorseAnalysis(stored, [horse(1, NOW)], NOW);
+
+    expect(merged.map(h => h.id)).toEqual([1, 2]);
+    expect(merged[1].missingSince).toBe(missingSince);
+  });
+
+  it('clears the missing mark when a view renders the horse again', () => {
+    const stored = analysis([{ ...horse(1, NOW - 30 * HOUR_MS), missingSince: new Date(NOW - 20 * HOUR_MS).toISOString() }], NOW - HOUR_MS);
+
+    const merged = mergeHorseAnalysis(stored, [horse(1, NOW)], NOW);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].missingSince).toBeUndefined();
+  });
+});
@@ -1,16 +1,48 @@
 // ============= HORSE ANALYZER MODULE =============
 // Single Responsibility: Orchestrate horse analysis and data storage
 
-import { debugLog } from '../config';
-import { saveHorseAnalysisData, loadHorseAnalysisData, type StoredHorseAnalysis } from '../storage';
+import { CONFIG, debugLog } from '../config';
+import { saveHorseAnalysisData, loadHorseAnalysisData, type StoredHorseAnalysis, type StoredHorseInfo } from '../storage';
 import { extractHorseData, type HorseInfo } from './horse-data-extractor';
 import { addMarketplaceButtons, cleanupMarketplaceButtons } from './marketplace-buttons';
 import { addEnergyRecoveryInfo, cleanupEnergyRecoveryInfo, cleanupTooltips } from './energy-recovery';
+import { recordHorseSnapshots } from './horse-history';
+import { addLevelProjections } from './level-projection';
+import { diffStableAnalyses, hasStableChanges } from './stable-diff';
+import { showStableDiffPanel } from './stable-diff-panel';
 
 // Track last analysis to avoid duplicates
 let lastAnalysisTimestamp = 0;
 const ANALYSIS_COOLDOWN = 3000; // 3 seconds cooldown between analyses
 
+// Analysis stored by the last session, compared with every analysis of this session until
+// the summary is dismissed
+let previousSessionAnalysis: StoredHorseAnalysis | null = null;
+
+/**
+ * Merges freshly rendered horses into the stored analysis by horse id
+ * A view may render only part of the stable, so stored horses missing from it are kept.
+ * The retention window starts at the first view that did not render a horse, not when it was
+ * last seen - after a break, the first partial view must not drop the horses it leaves out.
+ * A horse is dropped once every view for CONFIG.HORSE_ANALYSIS.UNSEEN_RETENTION_HOURS missed it
+ * @param stored - Stored analysis, if any
+ * @param fresh - Horses rendered now, with their lastSeen set
+ * @param now - Analysis time in epoch milliseconds
+ * @returns Merged horses - fresh ones in page order, then the kept stored ones
+ */
+export function mergeHorseAnalysis(stored: StoredHorseAnalysis | null, fresh: StoredHorseInfo[], now: number): StoredHorseInfo[] {
+  const freshIds = new Set(fresh.map(horse => horse.id));
+  const timestamp = new Date(now).toISOString();
+  const cutoff = now - CONFIG.HORSE_ANALYSIS.UNSEEN_RETENTION_HOURS * 60 * 60 * 1000;
+
+  const kept = (stored?.horses ?? [])
+    .filter(horse => !freshIds.has(horse.id))
+    .map(horse => ({ ...horse, missingSince: horse.missingSince ?? timestamp }))
+    .filter(horse => Date.parse(horse.missingSince) >= cutoff);
+
+  return [...fresh, ...kept];
+}
+
 /**
  * Main function to analyze all horses on the page
  * @returns Promise<HorseInfo[]> Fresh analysis data from current DOM
@@ -51,23 +83,48 @@ export async function analyzeHorses(): Promise<HorseInfo[]> {
   }
   
   // Output to console - simple table
-  console.log(`🐴 Found ${horses.length} horses`);
-  
-  // Store analysis data
-  const analysisData = {
-    horses: horses.map(h => {
-      // Remove HTMLElement reference for storage
-      const { element, ...horseWithoutElement } = h;
-      return horseWithoutElement;
-    }),
-    timestamp: new Date().toISOString()
+  debugLog(`🐴 Found ${horses.length} horses`);
+  
+  // Merge with the stored analysis - this view may show only part of the stable
+  const timestamp = new Date(now).toISOString();
+  const freshHorses: StoredHorseInfo[] = horses.map(h => {
+    // Remove HTMLElement reference for storage
+    const { element, ...horseWithoutElement } = h;
+    return { ...horseWithoutElement, lastSeen: timestamp };
+  });
+  const analysisData: StoredHorseAnalysis = {
+    horses: mergeHorseAnalysis(await loadHorseAnalysisData(), freshHorses, now),
+    timestamp
   };
   
   // Store in window for immediate access
   (window as any).__horseAnalysisData = analysisData;
   
   // Save to persistent storage
-  await saveHorseAnalysisData(analysisData as StoredHorseAnalysis);
+  await saveHorseAnalysisData(analysisData);
+  
+  // Keep per-horse history - the analysis above only holds the latest state
+  await recordHorseSnapshots(freshHorses, now).catch(error => {
+    debugLog('Error recording horse history:', error);
+  });
+  
+  // Project level-ups from the history including the snapshots just recorded
+  await addLevelProjections(horses).catch(error => {
+    debugLog('Error refreshing level projections:', error);
+  });
+  
+  // Show what changed since the last session
+  // The merged analysis keeps horses this view did not render, so they are not reported as gone
+  // until views have missed them for a whole retention window, and the summary grows as later
+  // views add horses
+  if (previousSessionAnalysis) {
+    const diff = diffStableAnalyses(previousSessionAnalysis, analysisData);
+    if (hasStableChanges(diff)) {
+      showStableDiffPanel(diff, () => {
+        previousSessionAnalysis = null;
+      });
+    }
+  }
   
   debugLog('Horse analysis complete. Data stored in memory and storage');
   
@@ -85,6 +142,7 @@ export async function initializeHorseAnalyzer(): Promise<void> {
   const storedData = await loadHorseAnalysisData();
   if (storedData) {
     (window as any).__horseAnalysisData = storedData;
+    previousSessionAnalysis = storedData;
     debugLog('Loaded horse data from storage:', storedData.horses.length, 'horses');
   } else {
     debugLog('No stored horse data found');
@@ -117,15 +175,20 @@ export async function getHorseById(id: number): Promise<HorseInfo | null> {
 }
 
 /**
- * Filters horses by specific criteria
+ * Criteria for filterHorses - every given criterion must match
  */
-export async function filterHorses(criteria: {
+export interface HorseFilterCriteria {
   rarity?: string;
   status?: string;
   minLevel?: number;
   maxLevel?: number;
   lowEnergy?: boolean;
-}): Promise<HorseInfo[]> {
+}
+
+/**
+ * Filters horses by specific criteria
+ */
+export async function filterHorses(criteria: HorseFilterCriteria): Promise<HorseInfo[]> {
   const horses = await getHorses();
   if (horses.length === 0) {
     return [];
@@ -0,0 +1,165 @@
+// ============= HORSE COMPARE MODULE =============
+// Single Responsibility: Let the user tick horse cards for comparison and open the
+// comparison once enough are ticked
+
+import { CONFIG, debugLog } from '../config';
+import type { HorseInfo } from './horse-data-extractor';
+
+// Horse ids in the order they were ticked
+let selectedHorseIds: number[] = [];
+
+// Opens the comparison, set while the compare selection is running
+let compareHandler: ((horseIds: number[]) => void) | null = null;
+
+// Floating bar with the selection count and compare button
+let compareBar: HTMLElement | null = null;
+
+/**
+ * Gets the ticked horses
+ * @returns Horse ids in the order they were ticked
+ */
+function getSelectedHorseIds(): number[] {
+  return [...selectedHorseIds];
+}
+
+/**
+ * Syncs every checkbox on the page with the selection
+ * Unticked boxes are disabled once the maximum is ticked
+ */
+function updateCheckboxes(): void {
+  const full = selectedHorseIds.length >= CONFIG.HORSE_COMPARE.MAX_HORSES;
+
+  document.querySelectorAll<HTMLInputElement>(`.${CONFIG.CSS_CLASSES.HORSE_COMPARE_TOGGLE} input`).forEach(checkbox => {
+    const horseId = Number(checkbox.dataset.compareHorseId);
+    checkbox.checked = selectedHorseIds.includes(horseId);
+    checkbox.disabled = full && !checkbox.checked;
+  });
+}
+
+/**
+ * Shows, updates or removes the compare bar for the current selection
+ */
+function updateCompareBar(): void {
+  if (selectedHorseIds.length === 0 || !compareHandler) {
+    compareBar?.remove();
+    compareBar = null;
+    return;
+  }
+
+  if (!compareBar) {
+    compareBar = document.createElement('div');
+    compareBar.classList.add(CONFIG.CSS_CLASSES.HORSE_COMPARE_BAR);
+
+    const compareButton = document.createElement('button');
+    compareButton.dataset.action = 'compare';
+    compareButton.addEventListener('click', () => {
+      if (selectedHorseIds.length >= CONFIG.HORSE_COMPARE.MIN_HORSES) {
+        compareHandler?.(getSelectedHorseIds());
+      }
+    });
+
+    const clearButton = document.createElement('button');
+    clearButton.textContent = 'Clear';
+    clearButton.addEventListener('click', clearCompareSelection);
+
+    compareBar.appendChild(compareButton);
+    compareBar.appendChild(clearButton);
+    document.body.appendChild(compareBar);
+  }
+
+  const count = selectedHorseIds.length;
+  const missing = CONFIG.HORSE_COMPARE.MIN_HORSES - count;
+  const compareButton = compareBar.querySelector<HTMLButtonElement>('[data-action="compare"]')!;
+  compareButton.disabled = missing > 0;
+  compareButton.textContent = missing > 0
+    ? `Tick ${missing} more horse${missing === 1 ? '' : 's'} to compare`
+    : `⚖️ Compare ${count} horses`;
+}
+
+/**
+ * Ticks or unticks a horse
+ * @param horseId - Horse id
+ * @param selected - Whether the horse should be ticked
+ */
+function setHorseSelected(horseId: number, selected: boolean): void {
+  selectedHorseIds = selectedHorseIds.filter(id => id !== horseId);
+  if (selected && selectedHorseIds.length < CONFIG.HORSE_COMPARE.MAX_HORSES) {
+    selectedHorseIds.push(horseId);
+  }
+
+  updateCheckboxes();
+  updateCompareBar();
+}
+
+/**
+ * Checks whether the compare selection is running, so cards should have a compare checkbox
+ * @returns true between startHorseCompare and cleanupHorseCompare
+ */
+export function isHorseCompareRunning(): boolean {
+  return compareHandler !== null;
+}
+
+/**
+ * Unticks every horse
+ */
+export function clearCompareSelection(): void {
+  selectedHorseIds = [];
+  updateCheckboxes();
+  updateCompareBar();
+}
+
+/**
+ * Adds a compare checkbox to each horse card
+ * @param horses - Horses with their card elements
+ */
+export function addCompareCheckboxes(horses: HorseInfo[]): void {
+  if (!compareHandler) return;
+
+  horses.forEach(horse => {
+    const card = horse.element;
+    if (!card || card.querySelector(`.${CONFIG.CSS_CLASSES.HORSE_COMPARE_TOGGLE}`)) return;
+
+    const label = document.createElement('label');
+    label.classList.add(CONFIG.CSS_CLASSES.HORSE_COMPARE_TOGGLE);
+    label.title = `Compare (${CONFIG.HORSE_COMPARE.MIN_HORSES}-${CONFIG.HORSE_COMPARE.MAX_HORSES} horses)`;
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.dataset.compareHorseId = String(horse.id);
+    checkbox.addEventListener('change', () => setHorseSelected(horse.id, checkbox.checked));
+
+    // Keep the game from handling the click as a click on the card
+    label.addEventListener('click', e => e.stopPropagation());
+
+    label.appendChild(checkbox);
+    label.appendChild(document.createTextNode('Compare'));
+    card.classList.add(CONFIG.CSS_CLASSES.HORSE_COMPARE_CARD);
+    card.appendChild(label);
+  });
+
+  updateCheckboxes();
+}
+
+/**
+ * Starts the compare selection
+ * @param onCompare - Opens the comparison for the ticked horse ids
+ */
+export function startHorseCompare(onCompare: (horseIds: number[]) => void): void {
+  compareHandler = onCompare;
+  updateCompareBar();
+  debugLog('Horse compare started');
+}
+
+/**
+ * Removes the compare checkboxes and bar and forgets the selection
+ */
+export function cleanupHorseCompare(): void {
+  compareHandler = null;
+  selectedHorseIds = [];
+
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.HORSE_COMPARE_TOGGLE}`).forEach(element => element.remove());
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.HORSE_COMPARE_CARD}`).forEach(element => {
+    element.classList.remove(CONFIG.CSS_CLASSES.HORSE_COMPARE_CARD);
+  });
+  updateCompareBar();
+}
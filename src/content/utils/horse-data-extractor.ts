@@ -67,7 +67,7 @@ function safeTextExtract(element: Element | null, defaultValue: string = ''): st
 /**
  * Parses numeric value from text, handling K/M suffixes
  */
-function parseNumericValue(text: string): number {
+export function parseNumericValue(text: string): number {
   const cleaned = text.replace(/[^0-9.KM]/gi, '');
   if (cleaned.includes('K')) {
     return parseFloat(cleaned.replace('K', '')) * 1000;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, horsesToCsv } from './horse-export';
+import type { StoredHorseInfo } from '../storage';
+
+const horse: StoredHorseInfo = {
+  id: 1234,
+  name: 'Thunder',
+  gender: 'Male',
+  rarity: 'Rare',
+  generation: 1,
+  breeds: { used: 1, total: 3 },
+  status: 'Racing',
+  stats: {
+    level: 5,
+    exp: { current: '120', required: '300' },
+    power: 40,
+    spirit: { base: 10, bonus: 2 },
+    speed: { base: 12 },
+    energy: { current: 4, max: 12 }
+  },
+  items: []
+};
+
+describe('escapeCsvValue', () => {
+  it('leaves plain values as they are', () => {
+    expect(escapeCsvValue('Thunder')).toBe('Thunder');
+    expect(escapeCsvValue(-5)).toBe('-5');
+  });
+
+  it('quotes separators, quotes and line breaks', () => {
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('a\nb')).toBe('"a\nb"');
+  });
+
+  it.each(['=1+1', '+1', '-1', '@SUM(A1)', '\t=1', '\r=1'])('keeps %j from running as a formula', text => {
+    expect(escapeCsvValue(text).replace(/^"/, '')).toMatch(/^'/);
+  });
+});
+
+describe('horsesToCsv', () => {
+  it('exports a formula-like horse name as text', () => {
+    const csv = horsesToCsv({
+      horses: [{ ...horse, name: '=HYPERLINK("http://evil.example","Click")' }],
+      timestamp: '2024-06-03T12:00:00.000Z'
+    });
+    const [, row] = csv.split('\r\n');
+
+    expect(row).toContain('"\'=HYPERLINK(""http://evil.example"",""Click"")"');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Horse export utilities
+ * Writes the stored stable to CSV (nested fields flattened into dotted columns) or
+ * JSON and downloads it as a file
+ */
+
+import { CONFIG, debugLog } from '../config';
+import { loadHorseAnalysisData, type StoredHorseAnalysis, type StoredHorseInfo } from '../storage';
+
+export type HorseExportFormat = 'csv' | 'json';
+
+type CsvValue = string | number;
+
+const MIME_TYPES: Record<HorseExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json'
+};
+
+// Columns every horse has, in export order; item columns follow
+const HORSE_COLUMNS: Array<[string, (horse: StoredHorseInfo) => CsvValue]> = [
+  ['id', horse => horse.id],
+  ['name', horse => horse.name],
+  ['gender', horse => horse.gender],
+  ['rarity', horse => horse.rarity],
+  ['generation', horse => horse.generation],
+  ['breeds.used', horse => horse.breeds.used],
+  ['breeds.total', horse => horse.breeds.total],
+  ['status', horse => horse.status],
+  ['stats.level', horse => horse.stats.level],
+  ['stats.exp.current', horse => horse.stats.exp.current],
+  ['stats.exp.required', horse => horse.stats.exp.required],
+  ['stats.power', horse => horse.stats.power],
+  ['stats.spirit.base', horse => horse.stats.spirit.base],
+  ['stats.spirit.bonus', horse => horse.stats.spirit.bonus || 0],
+  ['stats.speed.base', horse => horse.stats.speed.base],
+  ['stats.speed.bonus', horse => horse.stats.speed.bonus || 0],
+  ['stats.energy.current', horse => horse.stats.energy.current],
+  ['stats.energy.max', horse => horse.stats.energy.max],
+  ['stats.energyRecovery6h', horse => horse.stats.energyRecovery6h ?? ''],
+  ['imageSrc', horse => horse.imageSrc ?? '']
+];
+
+/**
+ * Gets the CSV column names
+ * @param itemSlots - Number of item column groups (the most items any horse has)
+ * @returns Column names in export order
+ */
+export function getCsvColumns(itemSlots: number): string[] {
+  const columns = ['analyzedAt', ...HORSE_COLUMNS.map(([column]) => column)];
+  for (let slot = 1; slot <= itemSlots; slot++) {
+    columns.push(`items.${slot}.name`, `items.${slot}.quantity`, `items.${slot}.imageSrc`);
+  }
+  return columns;
+}
+
+/**
+ * Flattens a horse into one CSV row
+ * Missing bonuses export as 0; item slots the horse does not fill stay empty
+ * @param horse - Stored horse
+ * @param analyzedAt - ISO timestamp of the analysis
+ * @param itemSlots - Number of item column groups in the file
+ * @returns Column name to value, in column order
+ * @example
+ * flattenHorse(horse, '2024-06-03T12:00:00.000Z', 2)['items.1.quantity'] // 3
+ */
+export function flattenHorse(horse: StoredHorseInfo, analyzedAt: string, itemSlots: number): Record<string, CsvValue> {
+  const row: Record<string, CsvValue> = { analyzedAt };
+
+  HORSE_COLUMNS.forEach(([column, getValue]) => {
+    row[column] = getValue(horse);
+  });
+
+  for (let slot = 1; slot <= itemSlots; slot++) {
+    const item = horse.items[slot - 1];
+    row[`items.${slot}.name`] = item?.name ?? '';
+    row[`items.${slot}.quantity`] = item?.quantity ?? '';
+    row[`items.${slot}.imageSrc`] = item?.imageSrc ?? '';
+  }
+
+  return row;
+}
+
+// Leading characters that make spreadsheet apps read a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a CSV value
+ * Text that a spreadsheet would run as a formula gets a leading ' so it stays text; the value
+ * is then quoted when it contains a separator, quote or line break
+ * @param value - Cell value
+ * @returns Escaped cell
+ * @example
+ * escapeCsvValue('=HYPERLINK("http://x")') // "'=HYPERLINK(""http://x"")"
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts a stored analysis to CSV - one row per horse, dotted column names for nested fields
+ * @param analysis - Stored horse analysis
+ * @returns CSV text with a header row
+ */
+export function horsesToCsv(analysis: StoredHorseAnalysis): string {
+  const itemSlots = Math.max(0, ...analysis.horses.map(horse => horse.items.length));
+  const columns = getCsvColumns(itemSlots);
+  const rows = analysis.horses.map(horse => {
+    const row = flattenHorse(horse, analysis.timestamp, itemSlots);
+    return columns.map(column => row[column]);
+  });
+
+  return [columns, ...rows]
+    .map(cells => cells.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Converts a stored analysis to JSON, keeping every field as stored
+ * @param analysis - Stored horse analysis
+ * @returns Indented JSON text
+ */
+export function horsesToJson(analysis: StoredHorseAnalysis): string {
+  return JSON.stringify({ analyzedAt: analysis.timestamp, horses: analysis.horses }, null, 2);
+}
+
+/**
+ * Triggers a download of a text file
+ * @param content - File content
+ * @param filename - Suggested file name
+ * @param mimeType - Content type
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports the stored stable and downloads it
+ * @param format - File format
+ * @returns Promise that resolves to the number of exported horses (0 when nothing is stored)
+ */
+export async function exportStable(format: HorseExportFormat): Promise<number> {
+  const analysis = await loadHorseAnalysisData();
+  if (!analysis || analysis.horses.length === 0) {
+    debugLog('Stable export skipped: no stored horses');
+    return 0;
+  }
+
+  // Byte order mark so spreadsheet apps read names as UTF-8
+  const content = format === 'csv' ? `\uFEFF${horsesToCsv(analysis)}` : horsesToJson(analysis);
+  const date = analysis.timestamp.slice(0, 10);
+  downloadTextFile(content, `${CONFIG.HORSE_EXPORT.FILENAME_PREFIX}-${date}.${format}`, MIME_TYPES[format]);
+
+  debugLog(`Exported ${analysis.horses.length} horses as ${format.toUpperCase()}`);
+  return analysis.horses.length;
+}
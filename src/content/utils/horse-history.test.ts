@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CONFIG } from '../config';
+import { appendHorseSnapshots, createHorseSnapshot, type HorseHistory } from './horse-history';
+import type { StoredHorseInfo } from '../storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31, 12);
+
+function horse(id: number, energy: number): StoredHorseInfo {
+  return {
+    id,
+    name: `Horse ${id}`,
+    gender: 'Female',
+    rarity: 'Common',
+    generation: 1,
+    breeds: { used: 0, total: 3 },
+    status: 'Resting',
+    stats: {
+      level: 5,
+      exp: { current: '100', required: '300' },
+      power: 40,
+      spirit: { base: 10 },
+      speed: { base: 10 },
+      energy: { current: energy, max: 48 }
+    },
+    items: []
+  };
+}
+
+/**
+ * Builds a history with one snapshot per horse and timestamp
+ * @param entries - [horse id, timestamps] pairs
+ */
+function historyOf(...entries: Array<[number, number[]]>): HorseHistory {
+  const history: HorseHistory = {};
+  entries.forEach(([id, timestamps]) => {
+    history[id] = timestamps.map((timestamp, index) => createHorseSnapshot(horse(id, index), timestamp));
+  });
+  return history;
+}
+
+function countSnapshots(history: HorseHistory): number {
+  return Object.values(history).reduce((total, snapshots) => total + snapshots.length, 0);
+}
+
+describe('appendHorseSnapshots', () => {
+  const { MAX_SNAPSHOTS_PER_HORSE, MAX_TOTAL_SNAPSHOTS } = CONFIG.HORSE_HISTORY;
+
+  beforeEach(() => {
+    CONFIG.HORSE_HISTORY.MAX_SNAPSHOTS_PER_HORSE = 3;
+    CONFIG.HORSE_HISTORY.MAX_TOTAL_SNAPSHOTS = 5;
+  });
+
+  afterEach(() => {
+    CONFIG.HORSE_HISTORY.MAX_SNAPSHOTS_PER_HORSE = MAX_SNAPSHOTS_PER_HORSE;
+    CONFIG.HORSE_HISTORY.MAX_TOTAL_SNAPSHOTS = MAX_TOTAL_SNAPSHOTS;
+  });
+
+  it('appends a snapshot for each analyzed horse', () => {
+    const updated = appendHorseSnapshots({}, [horse(1, 48), horse(2, 12)], NOW, 30);
+
+    expect(updated[1]).toEqual([createHorseSnapshot(horse(1, 48), NOW)]);
+    expect(updated[2]).toHaveLength(1);
+  });
+
+  it('skips horses whose state did not change and returns the same history', () => {
+    const history = appendHorseSnapshots({}, [horse(1, 48)], NOW - 1000, 30);
+
+    expect(appendHorseSnapshots(history, [horse(1, 48)], NOW, 30)).toBe(history);
+  });
+
+  it('drops snapshots older than the retention, keeping the one at the cutoff', () => {
+    const history = historyOf([1, [NOW - 31 * DAY_MS, NOW - 30 * DAY_MS]]);
+
+    const updated = appendHorseSnapshots(history, [], NOW, 30);
+
+    expect(updated[1].map(snapshot => snapshot.timestamp)).toEqual([NOW - 30 * DAY_MS]);
+  });
+
+  it('removes a horse left with no snapshots after retention', () => {
+    const history = historyOf([1, [NOW - 40 * DAY_MS]], [2, [NOW - DAY_MS]]);
+
+    const updated = appendHorseSnapshots(history, [], NOW, 30);
+
+    expect(Object.keys(updated)).toEqual(['2']);
+  });
+
+  it('keeps the newest snapshots of a horse up to the per-horse cap', () => {
+    const history = historyOf([1, [NOW - 3000, NOW - 2000, NOW - 1000]]);
+
+    const updated = appendHorseSnapshots(history, [horse(1, 48)], NOW, 30);
+
+    expect(updated[1].map(snapshot => snapshot.timestamp)).toEqual([NOW - 2000, NOW - 1000, NOW]);
+  });
+
+  it('drops the oldest analyses of the stable beyond the total cap', () => {
+    const history = historyOf([1, [NOW - 3000, NOW - 2000]], [2, [NOW - 2000, NOW - 1000]]);
+
+    // Six snapshots, one over the cap: the oldest analysis goes
+    const updated = appendHorseSnapshots(history, [horse(3, 48), horse(4, 48)], NOW, 30);
+
+    expect(countSnapshots(updated)).toBeLessThanOrEqual(5);
+    expect(updated[1].map(snapshot => snapshot.timestamp)).toEqual([NOW - 2000]);
+    expect(updated[3]).toHaveLength(1);
+  });
+
+  it('drops every snapshot sharing the last dropped timestamp, staying within the total cap', () => {
+    const history = historyOf([1, [NOW - 2000]], [2, [NOW - 2000]], [3, [NOW - 1000]], [4, [NOW - 1000]]);
+
+    // Six snapshots, one over the cap - both snapshots of the oldest analysis go
+    const updated = appendHorseSnapshots(history, [horse(5, 48), horse(6, 48)], NOW, 30);
+
+    expect(countSnapshots(updated)).toBe(4);
+    expect(Object.keys(updated).sort()).toEqual(['3', '4', '5', '6']);
+  });
+});
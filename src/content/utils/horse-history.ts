@@ -0,0 +1,235 @@
+/**
+ * Horse history utilities
+ * Append-only per-horse snapshots recorded on every horse analysis, with
+ * retention limits and queries such as "energy of horse 42 over the last 7 days"
+ */
+
+import { CONFIG, debugLog } from '../config';
+import { loadHorseHistory, loadHorseHistoryRetentionDays, saveHorseHistory, type StoredHorseInfo } from '../storage';
+import { parseNumericValue } from './horse-data-extractor';
+
+/**
+ * State of one horse at one analysis
+ */
+export interface HorseSnapshot {
+  timestamp: number;   // Epoch milliseconds of the analysis
+  level: number;
+  exp: { current: string; required: string; };
+  power: number;
+  spirit: { base: number; bonus?: number; };
+  speed: { base: number; bonus?: number; };
+  energy: { current: number; max: number; };
+  status: string;
+  items: Array<{ name: string; quantity?: number; }>;
+}
+
+/**
+ * Snapshots per horse id, oldest first
+ */
+export type HorseHistory = Record<string, HorseSnapshot[]>;
+
+/**
+ * Numeric values that can be charted over time
+ */
+export type HorseMetric = 'level' | 'exp' | 'power' | 'spirit' | 'speed' | 'energy';
+
+/**
+ * One value of a metric at one snapshot
+ */
+export interface HorseMetricPoint {
+  timestamp: number;
+  value: number;
+}
+
+/**
+ * Time range of a history query (epoch milliseconds, both optional and inclusive)
+ */
+export interface HorseHistoryRange {
+  since?: number;
+  until?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a snapshot of a stored horse
+ * Item images are left out - they never change and take most of the space
+ * @param horse - Horse from the analysis
+ * @param timestamp - Time of the analysis in epoch milliseconds
+ * @returns New snapshot
+ */
+export function createHorseSnapshot(horse: StoredHorseInfo, timestamp: number): HorseSnapshot {
+  const { level, exp, power, spirit, speed, energy } = horse.stats;
+
+  return {
+    timestamp,
+    level,
+    exp: { ...exp },
+    power,
+    spirit: { ...spirit },
+    speed: { ...speed },
+    energy: { ...energy },
+    status: horse.status,
+    items: horse.items.map(item => item.quantity === undefined ? { name: item.name } : { name: item.name, quantity: item.quantity })
+  };
+}
+
+/**
+ * Checks whether two snapshots hold the same horse state
+ * @param a - First snapshot
+ * @param b - Second snapshot
+ * @returns true if everything but the timestamp is equal
+ */
+function isSameHorseState(a: HorseSnapshot, b: HorseSnapshot): boolean {
+  const { timestamp: _a, ...stateA } = a;
+  const { timestamp: _b, ...stateB } = b;
+  return JSON.stringify(stateA) === JSON.stringify(stateB);
+}
+
+/**
+ * Drops the oldest snapshots of the whole stable beyond CONFIG.HORSE_HISTORY.MAX_TOTAL_SNAPSHOTS
+ * Snapshots of one analysis share a timestamp and are dropped together, so the history
+ * may end up below the cap
+ * @param history - Horse history
+ * @returns Capped history, or the same object if it is within the cap
+ */
+function capTotalSnapshots(history: HorseHistory): HorseHistory {
+  const timestamps = Object.values(history).flatMap(snapshots => snapshots.map(snapshot => snapshot.timestamp));
+  const excess = timestamps.length - CONFIG.HORSE_HISTORY.MAX_TOTAL_SNAPSHOTS;
+  if (excess <= 0) return history;
+
+  const lastDropped = timestamps.sort((a, b) => a - b)[excess - 1];
+  const capped: HorseHistory = {};
+  Object.entries(history).forEach(([horseId, snapshots]) => {
+    const kept = snapshots.filter(snapshot => snapshot.timestamp > lastDropped);
+    if (kept.length > 0) capped[horseId] = kept;
+  });
+  return capped;
+}
+
+/**
+ * Appends snapshots of analyzed horses, skipping horses whose state did not change
+ * since their last snapshot, and applies the retention limits to every horse
+ * @param history - Existing history
+ * @param horses - Horses from the analysis
+ * @param timestamp - Time of the analysis in epoch milliseconds
+ * @param retentionDays - Snapshots older than this many days are dropped
+ * @returns New history, or the same object if nothing changed
+ */
+export function appendHorseSnapshots(
+  history: HorseHistory,
+  horses: StoredHorseInfo[],
+  timestamp: number,
+  retentionDays: number = CONFIG.HORSE_HISTORY.DEFAULT_RETENTION_DAYS
+): HorseHistory {
+  const cutoff = timestamp - retentionDays * DAY_MS;
+  const updated: HorseHistory = {};
+  let changed = false;
+
+  // Retention applies to horses that were not analyzed this time too
+  Object.entries(history).forEach(([horseId, snapshots]) => {
+    const kept = snapshots.filter(snapshot => snapshot.timestamp >= cutoff);
+    if (kept.length !== snapshots.length) changed = true;
+    if (kept.length > 0) updated[horseId] = kept;
+  });
+
+  horses.forEach(horse => {
+    const snapshot = createHorseSnapshot(horse, timestamp);
+    const snapshots = updated[horse.id] ?? [];
+    const last = snapshots[snapshots.length - 1];
+    if (last && isSameHorseState(last, snapshot)) return;
+
+    updated[horse.id] = [...snapshots, snapshot].slice(-CONFIG.HORSE_HISTORY.MAX_SNAPSHOTS_PER_HORSE);
+    changed = true;
+  });
+
+  return changed ? capTotalSnapshots(updated) : history;
+}
+
+/**
+ * Records snapshots of analyzed horses in the stored history
+ * Runs under a Web Lock so game tabs analyzing at the same time do not overwrite each other's snapshots
+ * @param horses - Horses from the analysis
+ * @param timestamp - Time of the analysis in epoch milliseconds
+ */
+export async function recordHorseSnapshots(horses: StoredHorseInfo[], timestamp: number = Date.now()): Promise<void> {
+  await navigator.locks.request(CONFIG.HORSE_HISTORY.LOCK_NAME, async () => {
+    const [history, retentionDays] = await Promise.all([loadHorseHistory(), loadHorseHistoryRetentionDays()]);
+    const updated = appendHorseSnapshots(history, horses, timestamp, retentionDays);
+    if (updated !== history) {
+      await saveHorseHistory(updated);
+      debugLog(`Horse history updated (${Object.keys(updated).length} horses)`);
+    }
+  });
+}
+
+/**
+ * Gets the snapshots of a horse within a time range
+ * @param history - Horse history
+ * @param horseId - Horse id
+ * @param range - Time range (defaults to everything kept)
+ * @returns Snapshots, oldest first
+ */
+export function queryHorseSnapshots(history: HorseHistory, horseId: number, range: HorseHistoryRange = {}): HorseSnapshot[] {
+  const { since = -Infinity, until = Infinity } = range;
+  return (history[horseId] ?? []).filter(snapshot => snapshot.timestamp >= since && snapshot.timestamp <= until);
+}
+
+/**
+ * Reads a numeric metric from a snapshot
+ * Spirit and speed include their item bonus
+ * @param snapshot - Horse snapshot
+ * @param metric - Metric to read
+ * @returns Metric value
+ */
+export function getHorseMetricValue(snapshot: HorseSnapshot, metric: HorseMetric): number {
+  switch (metric) {
+    case 'level':
+      return snapshot.level;
+    case 'exp':
+      return parseNumericValue(snapshot.exp.current);
+    case 'power':
+      return snapshot.power;
+    case 'spirit':
+      return snapshot.spirit.base + (snapshot.spirit.bonus || 0);
+    case 'speed':
+      return snapshot.speed.base + (snapshot.speed.bonus || 0);
+    case 'energy':
+      return snapshot.energy.current;
+  }
+}
+
+/**
+ * Gets a metric of a horse over a time range
+ * @param history - Horse history
+ * @param horseId - Horse id
+ * @param metric - Metric to read
+ * @param range - Time range (defaults to everything kept)
+ * @returns One point per snapshot, oldest first
+ */
+export function getHorseMetricSeries(
+  history: HorseHistory,
+  horseId: number,
+  metric: HorseMetric,
+  range: HorseHistoryRange = {}
+): HorseMetricPoint[] {
+  return queryHorseSnapshots(history, horseId, range).map(snapshot => ({
+    timestamp: snapshot.timestamp,
+    value: getHorseMetricValue(snapshot, metric)
+  }));
+}
+
+/**
+ * Loads a metric of a horse over the last days from the stored history
+ * @param horseId - Horse id
+ * @param metric - Metric to read
+ * @param days - How many days back
+ * @param now - Reference time in epoch milliseconds
+ * @returns Promise that resolves to one point per snapshot, oldest first
+ * @example
+ * await loadHorseMetricSeries(42, 'energy', 7) // energy of horse 42 over the last 7 days
+ */
+export async function loadHorseMetricSeries(horseId: number, metric: HorseMetric, days: number, now: number = Date.now()): Promise<HorseMetricPoint[]> {
+  const history = await loadHorseHistory();
+  return getHorseMetricSeries(history, horseId, metric, { since: now - days * DAY_MS, until: now });
+}
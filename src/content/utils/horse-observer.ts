@@ -4,7 +4,10 @@
 import { CONFIG, debugLog } from '../config';
 import { extractHorseData, type HorseInfo } from './horse-data-extractor';
 import { addMarketplaceButtons, cleanupMarketplaceButtons } from './marketplace-buttons';
-import { addEnergyRecoveryInfo, cleanupEnergyRecoveryInfo, startEnergyPolling, stopEnergyPolling } from './energy-recovery';
+import { addEnergyRecoveryInfo, cleanupEnergyRecoveryInfo, hasEnergyRecoveryInfo, startEnergyPolling, stopEnergyPolling } from './energy-recovery';
+import { addCompareCheckboxes, isHorseCompareRunning } from './horse-compare';
+import { addLevelProjections, hasLevelProjection } from './level-projection';
+import { analyzeHorses } from './horse-analyzer';
 import { loadAllSettings } from '../storage';
 
 // WeakMap para trackear elementos ya procesados
@@ -14,13 +17,17 @@ const processedElements = new WeakMap<HTMLElement, boolean>();
 let observer: MutationObserver | null = null;
 
 // Feature check interval
-let featureCheckInterval: number | null = null;
+let featureCheckInterval: ReturnType<typeof setInterval> | null = null;
 
 // Throttle para evitar procesamiento excesivo
 let lastProcessTime = 0;
 const PROCESS_THROTTLE = 100; // ms
 const FEATURE_CHECK_INTERVAL = 1000; // Check every second
 
+// Pending analysis that persists horse data (toolbar popup reads it)
+let analysisTimeout: ReturnType<typeof setTimeout> | null = null;
+const ANALYSIS_DELAY = 3000; // Not shorter than the analyzer cooldown, so no change is skipped
+
 // Settings cache
 let cachedSettings = {
   marketplaceLinksEnabled: true,
@@ -193,6 +200,10 @@ function isEnergyDescriptionElement(element: HTMLElement): boolean {
  * Process energy changes by refreshing energy info for affected horses
  */
 function processEnergyChanges(horseElements: HTMLElement[]): void {
+  // Persist new energy values even when the recovery info is hidden
+  // Energy drops when a horse races, so the analysis also refreshes the level projections
+  scheduleHorseAnalysis();
+  
   if (!cachedSettings.energyRecoveryEnabled) {
     debugLog('Energy recovery disabled - skipping energy change processing');
     return;
@@ -223,16 +234,23 @@ function isHorseElement(element: HTMLElement): boolean {
 }
 
 /**
- * Check if a horse element already has features applied
+ * Check if a horse element has every feature enabled in the settings applied
+ * A card missing any of them is reprocessed
  */
 function hasFeatures(element: HTMLElement): boolean {
-  // Check for marketplace buttons
-  const hasMarketplaceButtons = element.querySelector(`.${CONFIG.CSS_CLASSES.MARKETPLACE_BUTTONS_CONTAINER}`) !== null;
+  // Marketplace buttons, when links are on and at least one marketplace is enabled
+  if (cachedSettings.marketplaceLinksEnabled && cachedSettings.enabledMarketplaces.length > 0) {
+    if (element.querySelector(`.${CONFIG.CSS_CLASSES.MARKETPLACE_BUTTONS_CONTAINER}`) === null) return false;
+  }
   
-  // Check for energy recovery info
-  const hasEnergyInfo = element.querySelector(`.${CONFIG.CSS_CLASSES.ENERGY_DISPLAY_CONTAINER}`) !== null;
+  // Energy recovery info, when enabled
+  if (cachedSettings.energyRecoveryEnabled && !hasEnergyRecoveryInfo(element)) return false;
   
-  return hasMarketplaceButtons || hasEnergyInfo;
+  // Compare checkbox, while the compare selection is running
+  if (isHorseCompareRunning() && element.querySelector(`.${CONFIG.CSS_CLASSES.HORSE_COMPARE_TOGGLE}`) === null) return false;
+  
+  // Level projection
+  return hasLevelProjection(element);
 }
 
 /**
@@ -267,6 +285,15 @@ function processNewHorses(elements: HTMLElement[]): void {
   
   if (horseDataArray.length === 0) return;
   
+  scheduleHorseAnalysis();
+  
+  // Compare checkboxes and level projections are always available
+  // (the scheduled analysis refreshes the projections once it has recorded these horses)
+  addCompareCheckboxes(horseDataArray);
+  addLevelProjections(horseDataArray).catch(err => {
+    debugLog('Error adding level projections:', err);
+  });
+  
   // Apply features based on settings
   if (cachedSettings.marketplaceLinksEnabled) {
     addMarketplaceButtons(horseDataArray);
@@ -284,6 +311,22 @@ function processNewHorses(elements: HTMLElement[]): void {
   debugLog(`Processed ${horseDataArray.length} horses with features`);
 }
 
+/**
+ * Schedules a debounced analysis of all horses on the page
+ * The analysis saves horse data to storage for use outside the game page
+ */
+function scheduleHorseAnalysis(): void {
+  if (analysisTimeout) {
+    clearTimeout(analysisTimeout);
+  }
+  analysisTimeout = setTimeout(() => {
+    analysisTimeout = null;
+    analyzeHorses().catch(err => {
+      debugLog('Error analyzing horses:', err);
+    });
+  }, ANALYSIS_DELAY);
+}
+
 /**
  * Process existing horses on page (for initial load and re-check)
  */
@@ -333,6 +376,13 @@ export async function updateObserverSettings(): Promise<void> {
     cleanupMarketplaceButtons();
   }
   
+  // If the enabled marketplaces changed, drop the old buttons so the reprocessing below rebuilds them
+  if (cachedSettings.marketplaceLinksEnabled &&
+      oldSettings.enabledMarketplaces.join(',') !== cachedSettings.enabledMarketplaces.join(',')) {
+    debugLog('Enabled marketplaces changed - rebuilding buttons');
+    cleanupMarketplaceButtons();
+  }
+  
   // If energy recovery was disabled, clean up existing energy recovery info
   if (oldSettings.energyRecoveryEnabled && !cachedSettings.energyRecoveryEnabled) {
     debugLog('Energy recovery disabled - cleaning up existing info');
@@ -371,6 +421,11 @@ export function stopHorseObserver(): void {
     debugLog('Feature check interval stopped');
   }
   
+  if (analysisTimeout) {
+    clearTimeout(analysisTimeout);
+    analysisTimeout = null;
+  }
+  
   // Stop energy polling system
   stopEnergyPolling();
 }
\ No newline at end of file
@@ -0,0 +1,204 @@
+// ============= HOTKEYS MODULE =============
+// Single Responsibility: Run keyboard shortcut actions from manifest commands and in-page
+// key presses, never while the user is typing
+
+import { CONFIG, debugLog } from '../config';
+import { callRpc, onRpcEvent } from '../../shared/rpc-client';
+
+/**
+ * Shortcut actions - names match the commands in wxt.config.js
+ */
+export type HotkeyAction =
+  | 'cycle-currency'
+  | 'toggle-settings'
+  | 'refresh-prices'
+  | 'toggle-energy-info'
+  | 'toggle-marketplace-links'
+  | 'toggle-dashboard';
+
+export const HOTKEY_ACTIONS: HotkeyAction[] = [
+  'cycle-currency',
+  'toggle-settings',
+  'refresh-prices',
+  'toggle-energy-info',
+  'toggle-marketplace-links',
+  'toggle-dashboard'
+];
+
+/**
+ * Parsed shortcut matched against keydown events
+ */
+interface ShortcutMatcher {
+  code: string;
+  alt: boolean;
+  shift: boolean;
+  ctrl: boolean;
+  meta: boolean;
+}
+
+// macOS shortcut symbols as returned by chrome.commands.getAll
+const MAC_MODIFIER_SYMBOLS: Record<string, string> = {
+  '⌥': 'Alt+',
+  '⇧': 'Shift+',
+  '⌃': 'MacCtrl+',
+  '⌘': 'Command+'
+};
+
+// Command key names that differ from KeyboardEvent.code
+const KEY_CODES: Record<string, string> = {
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight'
+};
+
+// Handlers of the running hotkeys
+let actionHandlers: Record<HotkeyAction, () => void> | null = null;
+let shortcutMatchers = new Map<HotkeyAction, ShortcutMatcher>();
+let unsubscribeCommands: (() => void) | null = null;
+const lastRunAt = new Map<HotkeyAction, number>();
+
+/**
+ * Checks whether a key event target is a text field, so hotkeys don't fire while typing
+ * @param target - Key event target
+ * @returns true if the target accepts text input
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Checks whether a command name is a known hotkey action
+ * @param command - Command name
+ * @returns true if the command is a HotkeyAction
+ */
+export function isHotkeyAction(command: string): command is HotkeyAction {
+  return (HOTKEY_ACTIONS as string[]).includes(command);
+}
+
+/**
+ * Parses a commands API shortcut into a keydown matcher
+ * @param shortcut - Shortcut such as "Alt+Shift+C" or "⌥⇧C"
+ * @returns Matcher, or null for an empty or unsupported shortcut
+ * @example
+ * parseShortcut('Alt+Shift+C') // { code: 'KeyC', alt: true, shift: true, ctrl: false, meta: false }
+ */
+export function parseShortcut(shortcut: string): ShortcutMatcher | null {
+  const normalized = Array.from(shortcut).map(char => MAC_MODIFIER_SYMBOLS[char] ?? char).join('');
+  const parts = normalized.split('+').map(part => part.trim()).filter(Boolean);
+  const key = parts.pop();
+  if (!key) return null;
+
+  let code: string;
+  if (/^[A-Z]$/i.test(key)) {
+    code = `Key${key.toUpperCase()}`;
+  } else if (/^[0-9]$/.test(key)) {
+    code = `Digit${key}`;
+  } else {
+    code = KEY_CODES[key] ?? key; // Comma, Period, Home, End, PageUp, PageDown, Space, Insert, Delete
+  }
+
+  return {
+    code,
+    alt: parts.includes('Alt'),
+    shift: parts.includes('Shift'),
+    ctrl: parts.includes('Ctrl') || parts.includes('MacCtrl'),
+    meta: parts.includes('Command')
+  };
+}
+
+/**
+ * Runs an action unless the user is typing or it just ran
+ * A shortcut can arrive both as a command and as a keydown - only the first runs
+ * @param action - Action to run
+ * @param target - Element that had focus when the shortcut was pressed
+ */
+function runHotkeyAction(action: HotkeyAction, target: EventTarget | null): void {
+  if (!actionHandlers || isEditableTarget(target)) return;
+
+  const now = Date.now();
+  if (now - (lastRunAt.get(action) ?? 0) < CONFIG.HOTKEYS.DEDUPE_MS) return;
+  lastRunAt.set(action, now);
+
+  debugLog(`Hotkey action: ${action}`);
+  actionHandlers[action]();
+}
+
+/**
+ * Matches in-page key presses against the shortcuts
+ * @param e - Keydown event
+ */
+function handleKeydown(e: KeyboardEvent): void {
+  for (const [action, matcher] of shortcutMatchers) {
+    if (e.code === matcher.code && e.altKey === matcher.alt && e.shiftKey === matcher.shift &&
+        e.ctrlKey === matcher.ctrl && e.metaKey === matcher.meta) {
+      if (isEditableTarget(e.target)) return;
+      e.preventDefault();
+      runHotkeyAction(action, e.target);
+      return;
+    }
+  }
+}
+
+/**
+ * Loads the shortcuts configured for the commands, falling back to the defaults
+ * @returns Promise that resolves to matchers for every action with a shortcut
+ */
+async function loadShortcutMatchers(): Promise<Map<HotkeyAction, ShortcutMatcher>> {
+  let shortcuts: Partial<Record<HotkeyAction, string>>;
+  try {
+    shortcuts = await callRpc('commands.list');
+  } catch (error) {
+    debugLog('Could not read configured shortcuts, using defaults:', error);
+    shortcuts = CONFIG.HOTKEYS.DEFAULT_SHORTCUTS;
+  }
+
+  const matchers = new Map<HotkeyAction, ShortcutMatcher>();
+  HOTKEY_ACTIONS.forEach(action => {
+    const matcher = parseShortcut(shortcuts[action] ?? '');
+    if (matcher) {
+      matchers.set(action, matcher);
+    }
+  });
+  return matchers;
+}
+
+/**
+ * Starts the hotkeys
+ * @param handlers - Handler per action
+ * @returns Promise that resolves when the shortcuts are loaded
+ */
+export async function startHotkeys(handlers: Record<HotkeyAction, () => void>): Promise<void> {
+  if (actionHandlers) {
+    debugLog('Hotkeys already running');
+    return;
+  }
+
+  actionHandlers = handlers;
+  shortcutMatchers = await loadShortcutMatchers();
+
+  // Stopped while the shortcuts were loading
+  if (!actionHandlers) return;
+
+  document.addEventListener('keydown', handleKeydown);
+  unsubscribeCommands = onRpcEvent('commands.triggered', action => {
+    runHotkeyAction(action, document.activeElement);
+  });
+  debugLog(`Hotkeys started (${shortcutMatchers.size} in-page shortcuts)`);
+}
+
+/**
+ * Stops the hotkeys
+ */
+export function stopHotkeys(): void {
+  if (!actionHandlers) return;
+
+  actionHandlers = null;
+  document.removeEventListener('keydown', handleKeydown);
+  unsubscribeCommands?.();
+  unsubscribeCommands = null;
+  shortcutMatchers.clear();
+  lastRunAt.clear();
+  debugLog('Hotkeys stopped');
+}
@@ -0,0 +1,333 @@
+// ============= INLINE ANNOTATIONS MODULE =============
+// Detects PHORSE amounts anywhere in the game UI (shop prices, fees, rewards, costs)
+// and appends their converted value in the current currency
+
+import { CONFIG, debugLog } from '../config';
+import { getConvertedPrice, onPriceDataUpdated } from '../api';
+import { getCurrentConversion, onConversionChanged } from '../state';
+import { formatPrice } from './formatting';
+
+// Plain or comma-grouped number, e.g. "50", "1,250" or "0.75"
+const AMOUNT_SOURCE = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)';
+// Amount followed by the token name, e.g. "Entry fee: 50 PHORSE"
+const PHORSE_AMOUNT_PATTERN = new RegExp(`${AMOUNT_SOURCE}\\s*\\$?PHORSE\\b`, 'gi');
+// Text that is only a number - a PHORSE amount when shown next to the coin icon
+const BARE_AMOUNT_PATTERN = new RegExp(`^\\s*${AMOUNT_SOURCE}\\s*$`);
+
+// Observer instance and pending rescan
+let observer: MutationObserver | null = null;
+let scanTimeout: ReturnType<typeof setTimeout> | null = null;
+let unsubscribePrices: (() => void) | null = null;
+let unsubscribeConversion: (() => void) | null = null;
+
+// Changes since the last scan: subtrees added to the page, and elements whose own text changed
+const pendingRoots = new Set<Node>();
+const pendingHosts = new Set<HTMLElement>();
+
+/**
+ * Parses a matched amount string
+ * @param text - Amount as shown (e.g. "1,250.5")
+ * @returns Numeric amount
+ */
+function parseAmount(text: string): number {
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+/**
+ * Gets the text of an element without our own annotations
+ * @param element - Host element
+ * @returns Text content excluding annotation spans
+ */
+function getOwnText(element: HTMLElement): string {
+  let text = '';
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.nodeValue || '';
+    } else if (node instanceof HTMLElement && !node.classList.contains(CONFIG.CSS_CLASSES.INLINE_FIAT)) {
+      text += getOwnText(node);
+    }
+  });
+  return text;
+}
+
+/**
+ * Checks whether a PHORSE coin icon sits next to or inside an element
+ * @param element - Element showing a bare number
+ * @returns true if a coin icon is the element's own content or an icon-only sibling
+ */
+function hasPhorseIconNearby(element: HTMLElement): boolean {
+  if (element.querySelector(CONFIG.INLINE_ANNOTATIONS.ICON_SELECTOR)) {
+    return true;
+  }
+
+  const parent = element.parentElement;
+  if (!parent) return false;
+
+  return Array.from(parent.children).some(sibling =>
+    sibling !== element &&
+    (sibling.matches(CONFIG.INLINE_ANNOTATIONS.ICON_SELECTOR) ||
+      (!sibling.textContent?.trim() && sibling.querySelector(CONFIG.INLINE_ANNOTATIONS.ICON_SELECTOR) !== null))
+  );
+}
+
+/**
+ * Finds the PHORSE amount shown by an element
+ * Either a single "<amount> PHORSE" in its text, or a bare number next to the coin icon
+ * @param element - Candidate host element
+ * @returns Amount, or null if the element doesn't show exactly one PHORSE amount
+ */
+function getHostAmount(element: HTMLElement): number | null {
+  const text = getOwnText(element);
+
+  const matches = Array.from(text.matchAll(PHORSE_AMOUNT_PATTERN));
+  if (matches.length === 1) {
+    return parseAmount(matches[0][1]);
+  }
+  if (matches.length > 1) {
+    return null; // Ambiguous - a single annotation couldn't say which amount it converts
+  }
+
+  const bareMatch = text.match(BARE_AMOUNT_PATTERN);
+  if (bareMatch && hasPhorseIconNearby(element)) {
+    return parseAmount(bareMatch[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Renders the converted value of an annotation in the current currency
+ * @param annotation - Annotation span with its amount in data-amount
+ */
+function renderAnnotation(annotation: HTMLElement): void {
+  const amount = parseFloat(annotation.dataset.amount || '');
+  const conversion = getCurrentConversion();
+
+  try {
+    annotation.textContent = `≈ ${formatPrice(getConvertedPrice(conversion, amount), conversion)}`;
+  } catch (error) {
+    // No prices yet - re-rendered once they arrive
+    annotation.textContent = '';
+  }
+}
+
+/**
+ * Adds, updates or removes the annotation of a host element
+ * @param host - Element whose text may contain a PHORSE amount
+ */
+function annotateHost(host: HTMLElement): void {
+  const existing = host.querySelector<HTMLElement>(`:scope > .${CONFIG.CSS_CLASSES.INLINE_FIAT}`);
+  const amount = getHostAmount(host);
+
+  if (amount === null || amount <= 0) {
+    existing?.remove();
+    return;
+  }
+
+  if (existing && existing.dataset.amount === String(amount)) {
+    return;
+  }
+
+  const annotation = existing ?? document.createElement('span');
+  annotation.classList.add(CONFIG.CSS_CLASSES.INLINE_FIAT);
+  annotation.dataset.amount = String(amount);
+  renderAnnotation(annotation);
+
+  if (!existing) {
+    host.appendChild(annotation);
+  }
+}
+
+/**
+ * Checks whether an element holds a text node with a digit itself, so it may show an amount
+ * @param element - Candidate host element
+ * @returns true if one of its own text nodes contains a digit
+ */
+function hasOwnDigitText(element: HTMLElement): boolean {
+  return Array.from(element.childNodes).some(node =>
+    node.nodeType === Node.TEXT_NODE && /\d/.test(node.nodeValue || '')
+  );
+}
+
+/**
+ * Syncs the annotation of one element with the amount it shows now
+ * Elements that stopped showing a number lose their annotation
+ * @param element - Element that may host an annotation
+ */
+function syncHost(element: HTMLElement): void {
+  if (!element.isConnected) return;
+
+  if (hasOwnDigitText(element) && !element.closest(CONFIG.INLINE_ANNOTATIONS.SKIP_SELECTOR)) {
+    annotateHost(element);
+  } else {
+    element.querySelector(`:scope > .${CONFIG.CSS_CLASSES.INLINE_FIAT}`)?.remove();
+  }
+}
+
+/**
+ * Collects the elements of a subtree that may host an annotation
+ * Hosts are the elements holding a text node with a digit, plus the hosts of existing annotations
+ * @param root - Subtree root (element or text node)
+ * @param hosts - Set the candidates are added to
+ */
+function collectHosts(root: Node, hosts: Set<HTMLElement>): void {
+  if (root.nodeType === Node.TEXT_NODE) {
+    if (root.parentElement) {
+      hosts.add(root.parentElement);
+    }
+    return;
+  }
+  if (!(root instanceof HTMLElement)) return;
+
+  hosts.add(root);
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.parentElement && /\d/.test(node.nodeValue || '')) {
+      hosts.add(node.parentElement);
+    }
+  }
+  root.querySelectorAll<HTMLElement>(`.${CONFIG.CSS_CLASSES.INLINE_FIAT}`).forEach(annotation => {
+    if (annotation.parentElement) {
+      hosts.add(annotation.parentElement);
+    }
+  });
+}
+
+/**
+ * Scans subtrees for PHORSE amounts and syncs their annotations
+ * @param roots - Subtrees to walk
+ * @param changedHosts - Elements whose own text changed, re-checked without walking their subtree
+ */
+function scanNodes(roots: Iterable<Node>, changedHosts: Iterable<HTMLElement> = []): void {
+  const hosts = new Set<HTMLElement>(changedHosts);
+  for (const root of roots) {
+    collectHosts(root, hosts);
+  }
+
+  hosts.forEach(syncHost);
+}
+
+/**
+ * Scans the subtrees changed since the last scan
+ */
+function scanPendingChanges(): void {
+  const roots = [...pendingRoots];
+  const hosts = [...pendingHosts];
+  pendingRoots.clear();
+  pendingHosts.clear();
+
+  scanNodes(roots, hosts);
+}
+
+/**
+ * Schedules a debounced scan of the pending changes
+ */
+function scheduleScan(): void {
+  if (scanTimeout) {
+    clearTimeout(scanTimeout);
+  }
+  scanTimeout = setTimeout(() => {
+    scanTimeout = null;
+    scanPendingChanges();
+  }, CONFIG.TIMEOUTS.DEBOUNCE_DELAY);
+}
+
+/**
+ * Records what a mutation changed for the next scan
+ * Added nodes are walked; the mutated element itself is only re-checked, as its
+ * other children didn't change
+ * @param mutation - Mutation record
+ */
+function recordMutation(mutation: MutationRecord): void {
+  if (mutation.type === 'characterData') {
+    if (mutation.target.parentElement) {
+      pendingHosts.add(mutation.target.parentElement);
+    }
+    return;
+  }
+
+  if (mutation.target instanceof HTMLElement) {
+    pendingHosts.add(mutation.target);
+  }
+  mutation.addedNodes.forEach(node => pendingRoots.add(node));
+}
+
+/**
+ * Checks whether a mutation only touched our own annotations
+ * @param mutation - Mutation record
+ * @returns true if the mutation can be ignored
+ */
+function isAnnotationMutation(mutation: MutationRecord): boolean {
+  const isAnnotation = (node: Node) => node instanceof HTMLElement && node.classList.contains(CONFIG.CSS_CLASSES.INLINE_FIAT);
+  const target = mutation.target instanceof HTMLElement ? mutation.target : mutation.target.parentElement;
+
+  if (target?.closest(`.${CONFIG.CSS_CLASSES.INLINE_FIAT}`)) {
+    return true;
+  }
+
+  return mutation.type === 'childList' &&
+    Array.from(mutation.addedNodes).every(isAnnotation) &&
+    Array.from(mutation.removedNodes).every(isAnnotation);
+}
+
+/**
+ * Re-renders every annotation (new prices or currency)
+ */
+function renderAllAnnotations(): void {
+  document.querySelectorAll<HTMLElement>(`.${CONFIG.CSS_CLASSES.INLINE_FIAT}`).forEach(renderAnnotation);
+}
+
+/**
+ * Starts annotating PHORSE amounts, including content the SPA adds later
+ */
+export function startInlineAnnotations(): void {
+  if (observer) {
+    debugLog('Inline annotations already running');
+    return;
+  }
+
+  observer = new MutationObserver((mutations) => {
+    const changes = mutations.filter(mutation => !isAnnotationMutation(mutation));
+    if (changes.length === 0) return;
+
+    changes.forEach(recordMutation);
+    scheduleScan();
+  });
+
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    characterData: true
+  });
+
+  unsubscribePrices = onPriceDataUpdated(renderAllAnnotations);
+  unsubscribeConversion = onConversionChanged(renderAllAnnotations);
+
+  scanNodes([document.body]);
+  debugLog('Inline annotations started');
+}
+
+/**
+ * Stops annotating and removes all annotations from the page
+ */
+export function stopInlineAnnotations(): void {
+  if (!observer) return;
+
+  observer.disconnect();
+  observer = null;
+
+  if (scanTimeout) {
+    clearTimeout(scanTimeout);
+    scanTimeout = null;
+  }
+  pendingRoots.clear();
+  pendingHosts.clear();
+
+  unsubscribePrices?.();
+  unsubscribeConversion?.();
+  unsubscribePrices = null;
+  unsubscribeConversion = null;
+
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.INLINE_FIAT}`).forEach(annotation => annotation.remove());
+  debugLog('Inline annotations stopped');
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getExpGainSamples, getRequiredExpByLevel } from './level-projection';
+import type { HorseSnapshot } from './horse-history';
+
+const HOUR_MS = 60 * 60 * 1000;
+// 01:00 UTC - no recharge before 06:00 UTC
+const START = Date.UTC(2025, 0, 1, 1);
+
+function snapshot(hours: number, level: number, exp: number, required: number, energy: number): HorseSnapshot {
+  return {
+    timestamp: START + hours * HOUR_MS,
+    level,
+    exp: { current: String(exp), required: String(required) },
+    power: 40,
+    spirit: { base: 10 },
+    speed: { base: 10 },
+    energy: { current: energy, max: 48 },
+    status: 'Resting',
+    items: []
+  };
+}
+
+describe('getExpGainSamples', () => {
+  it('divides a gain by the races counted from the energy used', () => {
+    // Level 10 races use 12 energy: 36 energy is three races
+    const samples = getExpGainSamples([snapshot(0, 10, 0, 500, 48), snapshot(1, 10, 90, 500, 12)], new Map());
+
+    expect(samples).toEqual([30]);
+  });
+
+  it('skips steps without energy used', () => {
+    const samples = getExpGainSamples([snapshot(0, 10, 0, 500, 48), snapshot(1, 10, 30, 500, 48)], new Map());
+
+    expect(samples).toEqual([]);
+  });
+
+  it('bridges level jumps with the EXP required for the levels passed', () => {
+    const snapshots = [snapshot(0, 10, 450, 500, 48), snapshot(1, 12, 50, 600, 12)];
+
+    // 50 left at level 10, 550 for level 11, 50 into level 12, over three races
+    expect(getExpGainSamples(snapshots, new Map([[11, 550]]))).toEqual([650 / 3]);
+    expect(getExpGainSamples(snapshots, new Map())).toEqual([]);
+  });
+});
+
+describe('getRequiredExpByLevel', () => {
+  it('collects the required EXP of every level seen', () => {
+    const history = { 1: [snapshot(0, 10, 0, 500, 48)], 2: [snapshot(0, 11, 0, 550, 48)] };
+
+    expect(getRequiredExpByLevel(history)).toEqual(new Map([[10, 500], [11, 550]]));
+  });
+});
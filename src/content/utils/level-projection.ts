@@ -0,0 +1,292 @@
+// ============= LEVEL PROJECTION MODULE =============
+// Single Responsibility: Project EXP to the next level, races needed and ETA on horse cards,
+// with EXP per race learned from the horse history
+
+import { CONFIG, calculateEnergyRecoveryPer6Hours, debugLog, getEnergyPerRace, getRacesPerDay } from '../config';
+import { loadHorseHistory } from '../storage';
+import { parseNumericValue, type HorseInfo } from './horse-data-extractor';
+import { countEnergyRecharges } from './energy-status';
+import type { HorseHistory, HorseSnapshot } from './horse-history';
+import { createTooltip, type Tooltip } from './tooltip';
+
+/**
+ * Where the EXP per race of a projection comes from
+ */
+export type ExpPerRaceSource = 'horse' | 'stable' | 'default';
+
+/**
+ * EXP per race with its origin
+ */
+export interface ExpPerRaceEstimate {
+  expPerRace: number;
+  source: ExpPerRaceSource;
+  samples: number;       // Observed EXP gains behind the estimate (0 for the default)
+}
+
+/**
+ * Projected level-up of a horse
+ */
+export interface LevelProjection {
+  nextLevel: number;
+  expToNextLevel: number;
+  racesNeeded: number;
+  racesPerDay: number;
+  etaDays: number;
+  estimate: ExpPerRaceEstimate;
+}
+
+// Tooltips of the projections shown, by horse id
+const activeTooltips = new Map<number, Tooltip>();
+
+/**
+ * Collects the EXP needed for each level from every snapshot in the history
+ * The level curve is the same for every horse, so any horse seen at a level fills it in
+ * @param history - Horse history
+ * @returns Level to EXP required for the next level
+ */
+export function getRequiredExpByLevel(history: HorseHistory): Map<number, number> {
+  const requiredExp = new Map<number, number>();
+
+  Object.values(history).forEach(snapshots => snapshots.forEach(snapshot => {
+    const required = parseNumericValue(snapshot.exp.required);
+    if (required > 0) {
+      requiredExp.set(snapshot.level, required);
+    }
+  }));
+
+  return requiredExp;
+}
+
+/**
+ * Counts the races run between two snapshots from the energy they used
+ * Recharges in between are added back; when a recharge may have been capped at max energy
+ * the energy used is unknown
+ * @param previous - Earlier snapshot
+ * @param current - Later snapshot
+ * @returns Number of races, or null if none or unknown
+ */
+function countRacesBetween(previous: HorseSnapshot, current: HorseSnapshot): number | null {
+  const recovered = countEnergyRecharges(previous.timestamp, current.timestamp) * calculateEnergyRecoveryPer6Hours(previous.level);
+  if (recovered > 0 && previous.energy.current + recovered > previous.energy.max) return null;
+
+  const energyUsed = previous.energy.current + recovered - current.energy.current;
+  const races = Math.round(energyUsed / getEnergyPerRace(previous.level));
+  return races >= 1 ? races : null;
+}
+
+/**
+ * Gets the EXP gained between two snapshots
+ * Level-ups add the EXP that was left to each level passed; a level whose required EXP
+ * was never seen makes the gain unknown
+ * @param previous - Earlier snapshot
+ * @param current - Later snapshot
+ * @param requiredExpByLevel - EXP needed for each level, from getRequiredExpByLevel
+ * @returns EXP gained, or null if unknown
+ */
+function getExpGain(previous: HorseSnapshot, current: HorseSnapshot, requiredExpByLevel: Map<number, number>): number | null {
+  const previousExp = parseNumericValue(previous.exp.current);
+  const currentExp = parseNumericValue(current.exp.current);
+  if (current.level < previous.level) return null;
+  if (current.level === previous.level) return currentExp - previousExp;
+
+  let gain = parseNumericValue(previous.exp.required) - previousExp + currentExp;
+  for (let level = previous.level + 1; level < current.level; level++) {
+    const required = requiredExpByLevel.get(level);
+    if (required === undefined) return null;
+    gain += required;
+  }
+  return gain;
+}
+
+/**
+ * Gets the EXP per race between consecutive snapshots of a horse
+ * A snapshot is recorded whenever an analysis sees the horse change, so one step may span
+ * several races; each gain is divided by the races counted from the energy used
+ * @param snapshots - Snapshots of one horse, oldest first
+ * @param requiredExpByLevel - EXP needed for each level, from getRequiredExpByLevel
+ * @returns One EXP per race sample per step where both the gain and the races are known
+ */
+export function getExpGainSamples(snapshots: HorseSnapshot[], requiredExpByLevel: Map<number, number>): number[] {
+  const samples: number[] = [];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    const gain = getExpGain(previous, current, requiredExpByLevel);
+    if (gain === null || gain <= 0) continue;
+
+    const races = countRacesBetween(previous, current);
+    if (races !== null) {
+      samples.push(gain / races);
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Gets the median of some values
+ * The median keeps steps where the races were miscounted from skewing the estimate
+ * @param values - Values (not empty)
+ * @returns Median value
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Learns EXP per race from the history - the horse's own races first, then the whole stable,
+ * then the configured default
+ * @param history - Horse history
+ * @param horseId - Horse id
+ * @returns EXP per race estimate
+ */
+export function learnExpPerRace(history: HorseHistory, horseId: number): ExpPerRaceEstimate {
+  const requiredExpByLevel = getRequiredExpByLevel(history);
+  const horseSamples = getExpGainSamples(history[horseId] ?? [], requiredExpByLevel);
+  if (horseSamples.length >= CONFIG.LEVEL_PROJECTION.MIN_SAMPLES) {
+    return { expPerRace: median(horseSamples), source: 'horse', samples: horseSamples.length };
+  }
+
+  const stableSamples = Object.values(history).flatMap(snapshots => getExpGainSamples(snapshots, requiredExpByLevel));
+  if (stableSamples.length >= CONFIG.LEVEL_PROJECTION.MIN_SAMPLES) {
+    return { expPerRace: median(stableSamples), source: 'stable', samples: stableSamples.length };
+  }
+
+  return { expPerRace: CONFIG.LEVEL_PROJECTION.DEFAULT_EXP_PER_RACE, source: 'default', samples: 0 };
+}
+
+/**
+ * Projects the next level-up of a horse
+ * @param horse - Horse to project
+ * @param estimate - EXP per race estimate
+ * @returns Projection, or null if the EXP needed for the next level is unknown
+ * @example
+ * projectLevelUp(horse, { expPerRace: 30, source: 'horse', samples: 5 }) // { expToNextLevel: 180, racesNeeded: 6, racesPerDay: 5, etaDays: 1.2, ... }
+ */
+export function projectLevelUp(horse: HorseInfo, estimate: ExpPerRaceEstimate): LevelProjection | null {
+  const required = parseNumericValue(horse.stats.exp.required);
+  if (required <= 0 || estimate.expPerRace <= 0) return null;
+
+  const expToNextLevel = Math.max(0, required - parseNumericValue(horse.stats.exp.current));
+  const racesNeeded = Math.ceil(expToNextLevel / estimate.expPerRace);
+  const racesPerDay = getRacesPerDay(horse.stats.level);
+
+  return {
+    nextLevel: horse.stats.level + 1,
+    expToNextLevel,
+    racesNeeded,
+    racesPerDay,
+    etaDays: racesNeeded / racesPerDay,
+    estimate
+  };
+}
+
+/**
+ * Describes where the EXP per race comes from
+ * @param estimate - EXP per race estimate
+ * @returns Text such as "learned from 5 EXP gains of this horse"
+ */
+function describeEstimate(estimate: ExpPerRaceEstimate): string {
+  switch (estimate.source) {
+    case 'horse':
+      return `learned from ${estimate.samples} EXP gains of this horse`;
+    case 'stable':
+      return `learned from ${estimate.samples} EXP gains across your stable`;
+    case 'default':
+      return 'a rough default until races are recorded';
+  }
+}
+
+/**
+ * Finds the EXP line of a horse card
+ * @param horseElement - Horse card element
+ * @returns The EXP description element or null if not found
+ */
+function findExpElement(horseElement: HTMLElement): HTMLElement | null {
+  const descriptions = horseElement.querySelectorAll('[class*="styles_horseItemDescription__"]');
+
+  for (const desc of descriptions) {
+    if (desc.textContent?.trim().startsWith('EXP:')) {
+      return desc as HTMLElement;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a horse card shows its level-up projection
+ * @param horseElement - Horse card element
+ * @returns true if the projection is present, or if the card has no EXP needed for the next level to project
+ */
+export function hasLevelProjection(horseElement: HTMLElement): boolean {
+  const expElement = findExpElement(horseElement);
+  if (!expElement) return true;
+
+  const required = parseNumericValue(expElement.textContent?.split('/')[1] ?? '');
+  return required <= 0 || horseElement.querySelector(`.${CONFIG.CSS_CLASSES.LEVEL_PROJECTION}`) !== null;
+}
+
+/**
+ * Removes the projection of a horse card and its tooltip
+ * @param horse - Horse of the card
+ */
+function removeLevelProjection(horse: HorseInfo): void {
+  horse.element?.querySelector(`.${CONFIG.CSS_CLASSES.LEVEL_PROJECTION}`)?.remove();
+  activeTooltips.get(horse.id)?.destroy();
+  activeTooltips.delete(horse.id);
+}
+
+/**
+ * Adds or refreshes the level-up projection under the EXP line of a horse card
+ * The projection goes after the EXP line, not inside it, so the extractor keeps reading plain EXP text
+ * @param horse - Horse with its card element
+ * @param history - Horse history for the EXP per race
+ */
+function addLevelProjectionToSingleHorse(horse: HorseInfo, history: HorseHistory): void {
+  if (!horse.element) return;
+
+  const expElement = findExpElement(horse.element);
+  const projection = projectLevelUp(horse, learnExpPerRace(history, horse.id));
+  removeLevelProjection(horse);
+  if (!expElement || !projection) return;
+
+  const approximate = projection.estimate.source === 'default' ? '~' : '';
+  const races = `${projection.racesNeeded} race${projection.racesNeeded === 1 ? '' : 's'}`;
+  const span = document.createElement('span');
+  span.classList.add(CONFIG.CSS_CLASSES.LEVEL_PROJECTION);
+  span.textContent = projection.expToNextLevel === 0
+    ? `Lv ${projection.nextLevel} ready`
+    : `Lv ${projection.nextLevel} in ${projection.expToNextLevel} EXP · ${approximate}${races} · ${approximate}${projection.etaDays.toFixed(1)}d`;
+  expElement.after(span);
+
+  activeTooltips.set(horse.id, createTooltip(span, {
+    title: 'Level-up Projection',
+    description: `${projection.expToNextLevel} EXP to level ${projection.nextLevel}: about ${races} at ${Math.round(projection.estimate.expPerRace)} EXP per race (${describeEstimate(projection.estimate)}).`,
+    additionalInfo: `At ${projection.racesPerDay} races per day, about ${projection.etaDays.toFixed(1)} days`
+  }));
+}
+
+/**
+ * Adds level-up projections to horse cards
+ * @param horses - Horses with their card elements
+ */
+export async function addLevelProjections(horses: HorseInfo[]): Promise<void> {
+  if (horses.length === 0) return;
+
+  const history = await loadHorseHistory();
+  horses.forEach(horse => addLevelProjectionToSingleHorse(horse, history));
+  debugLog(`Level projections updated for ${horses.length} horses`);
+}
+
+/**
+ * Removes every level-up projection and its tooltip
+ */
+export function cleanupLevelProjections(): void {
+  document.querySelectorAll(`.${CONFIG.CSS_CLASSES.LEVEL_PROJECTION}`).forEach(element => element.remove());
+  activeTooltips.forEach(tooltip => tooltip.destroy());
+  activeTooltips.clear();
+}
@@ -9,8 +9,7 @@ import type { HorseInfo } from './horse-data-extractor';
  * Creates marketplace buttons (Ronin Market and OpenSea) for each horse
  */
 export async function addMarketplaceButtons(horses: HorseInfo[]): Promise<void> {
-  // Clean up any existing marketplace buttons first
-  cleanupMarketplaceButtons();
+  // Each given horse's ID element is rebuilt below, so buttons on other cards are left alone
   
   // Load marketplace settings first
   const marketplaceLinksEnabled = await loadMarketplaceSettings();
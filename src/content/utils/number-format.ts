@@ -0,0 +1,148 @@
+/**
+ * Number formatting subsystem built on Intl.NumberFormat
+ * Currency symbols and grouping follow the chosen locale, tiny token amounts
+ * keep significant digits and large values can use compact notation (1.2M)
+ */
+
+import { CONFIG, debugLog, getConversionInfo, getConversionType, type ConversionKey } from '../config';
+import { loadNumberFormatSettings } from '../storage';
+
+/**
+ * User number format preferences
+ */
+export interface NumberFormatSettings {
+  locale: string;            // BCP 47 locale, or '' for the browser default
+  precision: number | null;  // Fixed decimal places, or null for automatic
+  compact: boolean;          // Use compact notation for values >= CONFIG.NUMBER_FORMAT.COMPACT_THRESHOLD
+}
+
+export const DEFAULT_NUMBER_FORMAT_SETTINGS: NumberFormatSettings = {
+  locale: '',
+  precision: null,
+  compact: true
+};
+
+// Settings registered in this context
+let activeSettings: NumberFormatSettings = { ...DEFAULT_NUMBER_FORMAT_SETTINGS };
+
+// Intl.NumberFormat construction is slow - reuse formatters per option set
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Replaces the registered number format settings
+ * @param settings - New settings
+ */
+export function setNumberFormatSettings(settings: NumberFormatSettings): void {
+  activeSettings = { ...settings };
+  formatterCache.clear();
+}
+
+/**
+ * Gets the registered number format settings
+ * @returns Current settings
+ */
+export function getNumberFormatSettings(): NumberFormatSettings {
+  return { ...activeSettings };
+}
+
+/**
+ * Loads number format settings from storage and registers them
+ */
+export async function syncNumberFormatSettings(): Promise<void> {
+  setNumberFormatSettings(await loadNumberFormatSettings());
+  debugLog('Number format settings registered:', activeSettings);
+}
+
+/**
+ * Gets a cached Intl.NumberFormat for a locale and option set
+ * Falls back to the browser locale if the stored locale is not supported
+ * @param options - Intl.NumberFormat options
+ * @param locale - Locale to format with ('' for browser default)
+ * @returns Number formatter
+ */
+function getFormatter(options: Intl.NumberFormatOptions, locale: string): Intl.NumberFormat {
+  const cacheKey = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(cacheKey);
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale || undefined, options);
+    } catch (error) {
+      debugLog(`Unsupported number format for locale "${locale}":`, error);
+      formatter = new Intl.NumberFormat(undefined, options);
+    }
+    formatterCache.set(cacheKey, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Builds digit options for a value according to the precision settings
+ * @param value - The value being formatted
+ * @param settings - Number format settings
+ * @param useCurrencyDefaults - Leave fraction digits to the currency (e.g. 0 for JPY) when automatic
+ * @returns Digit-related Intl.NumberFormat options
+ */
+function getDigitOptions(value: number, settings: NumberFormatSettings, useCurrencyDefaults: boolean): Intl.NumberFormatOptions {
+  const magnitude = Math.abs(value);
+
+  if (settings.compact && magnitude >= CONFIG.NUMBER_FORMAT.COMPACT_THRESHOLD) {
+    return { notation: 'compact', maximumFractionDigits: 1 };
+  }
+
+  if (settings.precision !== null) {
+    return { minimumFractionDigits: settings.precision, maximumFractionDigits: settings.precision };
+  }
+
+  // Tiny amounts (e.g. PHORSE in WBTC) keep their significant digits instead of rounding to 0.00
+  if (magnitude > 0 && magnitude < 1) {
+    return { maximumSignificantDigits: CONFIG.NUMBER_FORMAT.SIGNIFICANT_DIGITS };
+  }
+
+  return useCurrencyDefaults ? {} : { maximumFractionDigits: 2 };
+}
+
+/**
+ * Formats a plain number with locale grouping
+ * @param value - The number to format
+ * @param settings - Number format settings (defaults to the registered settings)
+ * @returns Formatted number (e.g. "1,234.57", "0.000123" or "1.2M")
+ */
+export function formatNumber(value: number, settings: NumberFormatSettings = activeSettings): string {
+  return getFormatter(getDigitOptions(value, settings, false), settings.locale).format(value);
+}
+
+/**
+ * Formats an amount in a conversion currency or token
+ * Fiat uses the locale's currency symbol; tokens are suffixed with their name
+ * @param value - Amount in the target conversion
+ * @param conversionKey - The conversion key (e.g., 'usd', 'wbtc')
+ * @param settings - Number format settings (defaults to the registered settings)
+ * @returns Formatted amount (e.g. "$1,234.57", "ARS 1,2M", "0.0000031 WBTC")
+ */
+export function formatConversionValue(
+  value: number,
+  conversionKey: ConversionKey,
+  settings: NumberFormatSettings = activeSettings
+): string {
+  const info = getConversionInfo(conversionKey);
+
+  if (getConversionType(conversionKey) === 'fiat') {
+    const options: Intl.NumberFormatOptions = {
+      style: 'currency',
+      currency: info.name,
+      currencyDisplay: 'narrowSymbol',
+      ...getDigitOptions(value, settings, true)
+    };
+
+    try {
+      return getFormatter(options, settings.locale).format(value);
+    } catch (error) {
+      // Currency code not known to this browser's Intl data
+      debugLog(`Currency formatting failed for ${info.name}:`, error);
+    }
+  }
+
+  return `${formatNumber(value, settings)} ${info.name}`;
+}
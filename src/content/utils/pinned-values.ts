@@ -0,0 +1,63 @@
+/**
+ * Pinned values component for the currency converter
+ * Renders the balance in several pinned currencies, stacked with their labels
+ * (multi-display mode)
+ */
+
+import { CONFIG, debugLog, getConversionDisplayText, type ConversionKey } from '../config';
+import { getConvertedPrice, isConversionOverridden } from '../api';
+import { formatPrice } from './formatting';
+
+/**
+ * Creates the pinned values element
+ * @returns Object containing the element and a render function
+ * @example
+ * const pinnedValues = createPinnedValues();
+ * cell.appendChild(pinnedValues.element);
+ * pinnedValues.render(['usd', 'ars', 'ron'], '1500');
+ */
+export function createPinnedValues() {
+  const element = document.createElement('div');
+  element.classList.add(CONFIG.CSS_CLASSES.PINNED_VALUES);
+
+  return {
+    element,
+    /**
+     * Re-renders one row per pinned conversion
+     * @param conversions - Pinned conversions in display order
+     * @param balanceText - Current PHORSE balance text
+     * @returns Summary of the rendered values for logging
+     */
+    render: (conversions: ConversionKey[], balanceText: string): string => {
+      element.innerHTML = '';
+
+      const rendered = conversions.map(conversion => {
+        const row = document.createElement('div');
+        row.classList.add(CONFIG.CSS_CLASSES.PINNED_ROW);
+
+        const label = document.createElement('span');
+        label.classList.add(CONFIG.CSS_CLASSES.PINNED_LABEL);
+        label.textContent = getConversionDisplayText(conversion, 'name');
+
+        const value = document.createElement('span');
+        try {
+          value.textContent = formatPrice(getConvertedPrice(conversion, balanceText), conversion);
+        } catch (error) {
+          debugLog(`Error converting price for pinned ${conversion}:`, error);
+          value.textContent = 'Rate unavailable';
+          row.classList.add(CONFIG.CSS_CLASSES.PRICE_ERROR);
+        }
+
+        // Same custom rate marker as the single value
+        value.classList.toggle(CONFIG.CSS_CLASSES.PRICE_OVERRIDDEN, isConversionOverridden(conversion));
+
+        row.appendChild(label);
+        row.appendChild(value);
+        element.appendChild(row);
+        return value.textContent;
+      });
+
+      return rendered.join(' | ');
+    }
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Price alert utilities
+ * Rule model, descriptions and evaluation shared by the settings modal
+ * and the background alert checker
+ */
+
+import { CONFIG, getConversionInfo, type ConversionKey } from '../config';
+import { getEffectiveConversionRate, type PriceData } from '../api';
+import { getPercentChange, type PriceHistoryPoint } from './price-history';
+import { formatPercentChange, formatPrice } from './formatting';
+
+/**
+ * Alert condition types
+ * - above / below: PHORSE price in the conversion crosses a threshold
+ * - rise / drop: PHORSE price in the conversion changes by a percentage within a window
+ */
+export type PriceAlertType = 'above' | 'below' | 'rise' | 'drop';
+
+/**
+ * A user-defined price alert rule
+ */
+export interface PriceAlertRule {
+  id: string;
+  conversion: ConversionKey;
+  type: PriceAlertType;
+  value: number;        // Price threshold (above/below) or percentage (rise/drop)
+  windowHours: number;  // Change window for rise/drop rules
+  enabled: boolean;
+}
+
+/**
+ * Last trigger time per rule id (epoch milliseconds), used for the cooldown
+ */
+export type PriceAlertState = Record<string, number>;
+
+/**
+ * Result of evaluating a rule against the latest prices
+ */
+export interface PriceAlertEvaluation {
+  triggered: boolean;
+  message: string; // Human readable current value, e.g. "PHORSE is $0.0512"
+}
+
+// Labels for the rule type select, in display order
+export const PRICE_ALERT_TYPE_LABELS: Record<PriceAlertType, string> = {
+  above: 'above',
+  below: 'below',
+  rise: 'rose by %',
+  drop: 'dropped by %'
+};
+
+/**
+ * Checks whether a rule compares percentage changes rather than a price
+ * @param type - The rule type
+ * @returns true for rise/drop rules
+ */
+export function isChangeAlert(type: PriceAlertType): boolean {
+  return type === 'rise' || type === 'drop';
+}
+
+/**
+ * Creates a new rule with a unique id
+ * @param conversion - Conversion the rule watches
+ * @param type - Rule type
+ * @param value - Threshold price or percentage
+ * @param windowHours - Change window for rise/drop rules
+ * @returns Enabled price alert rule
+ */
+export function createPriceAlertRule(
+  conversion: ConversionKey,
+  type: PriceAlertType,
+  value: number,
+  windowHours: number = CONFIG.PRICE_ALERTS.DEFAULT_WINDOW_HOURS
+): PriceAlertRule {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    conversion,
+    type,
+    value,
+    windowHours,
+    enabled: true
+  };
+}
+
+/**
+ * Formats a change window as a short label
+ * @param windowHours - Window length in hours
+ * @returns Label such as "24h" or "7d"
+ */
+export function formatAlertWindow(windowHours: number): string {
+  return windowHours % 24 === 0 && windowHours >= 48 ? `${windowHours / 24}d` : `${windowHours}h`;
+}
+
+/**
+ * Describes a rule for the settings list and notifications
+ * @param rule - The rule to describe
+ * @returns Description such as "PHORSE above 0.05 USD" or "PHORSE/RON dropped 10% in 24h"
+ */
+export function describePriceAlertRule(rule: PriceAlertRule): string {
+  const currencyName = getConversionInfo(rule.conversion).name;
+
+  switch (rule.type) {
+    case 'above':
+    case 'below':
+      return `PHORSE ${rule.type} ${rule.value} ${currencyName}`;
+    case 'rise':
+      return `PHORSE/${currencyName} rose ${rule.value}% in ${formatAlertWindow(rule.windowHours)}`;
+    case 'drop':
+      return `PHORSE/${currencyName} dropped ${rule.value}% in ${formatAlertWindow(rule.windowHours)}`;
+  }
+}
+
+/**
+ * Evaluates a rule against the latest rates and price history
+ * @param rule - The rule to evaluate
+ * @param rates - Latest normalized rate table
+ * @param history - Price history, oldest first (needed for rise/drop rules)
+ * @param now - Current time in epoch milliseconds
+ * @returns Whether the rule condition holds and the current value it was based on
+ */
+export function evaluatePriceAlertRule(
+  rule: PriceAlertRule,
+  rates: PriceData,
+  history: PriceHistoryPoint[],
+  now: number = Date.now()
+): PriceAlertEvaluation {
+  const currencyName = getConversionInfo(rule.conversion).name;
+
+  if (!isChangeAlert(rule.type)) {
+    // Thresholds compare against the rate the user sees, overrides included
+    const price = getEffectiveConversionRate(rates, rule.conversion);
+    const triggered = rule.type === 'above' ? price > rule.value : price < rule.value;
+    return { triggered, message: `PHORSE is ${formatPrice(price, rule.conversion)}` };
+  }
+
+  const change = getPercentChange(history, rule.conversion, rule.windowHours, now);
+  if (change === null) {
+    // History doesn't cover the window yet
+    return { triggered: false, message: '' };
+  }
+
+  const triggered = rule.type === 'rise' ? change >= rule.value : change <= -rule.value;
+  return {
+    triggered,
+    message: `PHORSE/${currencyName} ${formatPercentChange(change)} in ${formatAlertWindow(rule.windowHours)}`
+  };
+}
+
+/**
+ * Checks whether a rule fired too recently to notify again
+ * @param lastTriggeredAt - Last trigger time in epoch milliseconds (undefined if never)
+ * @param now - Current time in epoch milliseconds
+ * @returns true if still within CONFIG.PRICE_ALERTS.COOLDOWN_MINUTES
+ */
+export function isPriceAlertCoolingDown(lastTriggeredAt: number | undefined, now: number = Date.now()): boolean {
+  if (lastTriggeredAt === undefined) return false;
+  return now - lastTriggeredAt < CONFIG.PRICE_ALERTS.COOLDOWN_MINUTES * 60 * 1000;
+}
@@ -0,0 +1,139 @@
+/**
+ * Price history utilities
+ * Records PHORSE and token rates as a size-limited, downsampled time series
+ * and derives per-conversion series and percent changes from it
+ */
+
+import { CONFIG, type ConversionKey } from '../config';
+import { getEffectiveConversionRate, type PriceData } from '../api';
+
+/**
+ * A single recorded price fetch
+ */
+export interface PriceHistoryPoint {
+  timestamp: number; // Epoch milliseconds of the fetch
+  rates: PriceData;  // PHORSE row with every fiat rate, other tokens with their USD rate
+}
+
+/**
+ * A value of one conversion at a point in time
+ */
+export interface PriceSeriesPoint {
+  timestamp: number;
+  value: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Strips a rate table down to what conversions need, keeping history compact
+ * @param rates - Full normalized rate table
+ * @returns PHORSE row plus the USD rate of every other token
+ */
+export function trimRatesForHistory(rates: PriceData): PriceData {
+  const trimmed: PriceData = {};
+
+  Object.entries(rates).forEach(([address, row]) => {
+    if (address === CONFIG.PHORSE_ADDRESS) {
+      trimmed[address] = { ...row };
+    } else if (row.usd !== undefined) {
+      trimmed[address] = { usd: row.usd };
+    }
+  });
+
+  return trimmed;
+}
+
+/**
+ * Downsamples a price history according to CONFIG.PRICE_HISTORY tiers
+ * Keeps the latest point per bucket, drops points older than the last tier
+ * and caps the total at CONFIG.PRICE_HISTORY.MAX_POINTS
+ * @param history - Price points, oldest first
+ * @param now - Current time in epoch milliseconds
+ * @returns New downsampled array, oldest first
+ */
+export function downsamplePriceHistory(history: PriceHistoryPoint[], now: number = Date.now()): PriceHistoryPoint[] {
+  const tiers = CONFIG.PRICE_HISTORY.TIERS;
+  const kept = new Map<string, PriceHistoryPoint>();
+
+  history.forEach(point => {
+    const ageHours = (now - point.timestamp) / HOUR_MS;
+    const tierIndex = tiers.findIndex(tier => ageHours < tier.MAX_AGE_HOURS);
+    if (tierIndex === -1) return; // Older than retention
+
+    const bucketMs = tiers[tierIndex].BUCKET_MINUTES * MINUTE_MS;
+    const bucketKey = `${tierIndex}:${Math.floor(point.timestamp / bucketMs)}`;
+    // Later points overwrite earlier ones in the same bucket
+    kept.set(bucketKey, point);
+  });
+
+  const downsampled = Array.from(kept.values()).sort((a, b) => a.timestamp - b.timestamp);
+  return downsampled.slice(-CONFIG.PRICE_HISTORY.MAX_POINTS);
+}
+
+/**
+ * Appends a price fetch to the history and downsamples it
+ * @param history - Existing price points, oldest first
+ * @param rates - Rates from the fetch
+ * @param timestamp - Fetch time in epoch milliseconds
+ * @returns New history array, oldest first
+ */
+export function appendPricePoint(history: PriceHistoryPoint[], rates: PriceData, timestamp: number): PriceHistoryPoint[] {
+  const last = history[history.length - 1];
+  if (last && last.timestamp >= timestamp) {
+    return history; // Same or older fetch already recorded
+  }
+
+  const point: PriceHistoryPoint = { timestamp, rates: trimRatesForHistory(rates) };
+  return downsamplePriceHistory([...history, point], timestamp);
+}
+
+/**
+ * Gets the value of one PHORSE in a conversion over time
+ * Applies the user's rate override for the conversion, like the converter does
+ * @param history - Price points, oldest first
+ * @param conversionKey - The conversion key (e.g., 'usd', 'ron')
+ * @param sinceMs - Only include points at or after this epoch time
+ * @returns Series points, oldest first (points missing the needed rates are skipped)
+ */
+export function getConversionSeries(history: PriceHistoryPoint[], conversionKey: ConversionKey, sinceMs: number = 0): PriceSeriesPoint[] {
+  const series: PriceSeriesPoint[] = [];
+
+  history.forEach(point => {
+    if (point.timestamp < sinceMs) return;
+    try {
+      series.push({ timestamp: point.timestamp, value: getEffectiveConversionRate(point.rates, conversionKey) });
+    } catch (error) {
+      // Rate wasn't available at that time (e.g. token added later)
+    }
+  });
+
+  return series;
+}
+
+/**
+ * Calculates the percent change of a conversion over a time window
+ * Compares the latest point with the last point at or before the window start
+ * @param history - Price points, oldest first
+ * @param conversionKey - The conversion key (e.g., 'usd', 'ron')
+ * @param windowHours - Window length in hours (e.g. 24, 168)
+ * @param now - Current time in epoch milliseconds
+ * @returns Percent change (e.g. 3.5 for +3.5%), or null if history doesn't cover the window
+ */
+export function getPercentChange(history: PriceHistoryPoint[], conversionKey: ConversionKey, windowHours: number, now: number = Date.now()): number | null {
+  const series = getConversionSeries(history, conversionKey);
+  if (series.length < 2) return null;
+
+  const windowStart = now - windowHours * HOUR_MS;
+  let baseline: PriceSeriesPoint | null = null;
+  for (const point of series) {
+    if (point.timestamp > windowStart) break;
+    baseline = point;
+  }
+
+  const latest = series[series.length - 1];
+  if (!baseline || baseline === latest || baseline.value === 0) return null;
+
+  return ((latest.value - baseline.value) / baseline.value) * 100;
+}
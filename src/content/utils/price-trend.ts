@@ -0,0 +1,96 @@
+/**
+ * Price trend component for the currency converter
+ * Shows a 24h sparkline and percent changes next to the converted value,
+ * with a larger 7-day chart in a hover tooltip
+ */
+
+import { CONFIG, getConversionInfo, type ConversionKey } from '../config';
+import { loadPriceHistory } from '../storage';
+import { getConversionSeries, getPercentChange, type PriceHistoryPoint } from './price-history';
+import { createSparklineSvg } from './sparkline';
+import { createTooltip } from './tooltip';
+import { formatPercentChange, formatPrice } from './formatting';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Inline sparkline and tooltip chart sizes (px)
+const INLINE_CHART = { width: 40, height: 12 };
+const TOOLTIP_CHART = { width: 220, height: 70 };
+
+/**
+ * Sets the text and up/down color class of a percent change element
+ */
+function applyChange(element: HTMLElement, label: string, change: number | null): void {
+  element.textContent = `${label} ${formatPercentChange(change)}`;
+  element.classList.toggle(CONFIG.CSS_CLASSES.PRICE_CHANGE_UP, change !== null && change >= 0);
+  element.classList.toggle(CONFIG.CSS_CLASSES.PRICE_CHANGE_DOWN, change !== null && change < 0);
+}
+
+/**
+ * Creates the price trend element
+ * @param initialConversion - Conversion to chart initially
+ * @returns Object containing the element and functions to update, reload history and destroy
+ * @example
+ * const trend = createPriceTrend('usd');
+ * container.appendChild(trend.element);
+ * await trend.reload(); // Loads history from storage and renders
+ */
+export function createPriceTrend(initialConversion: ConversionKey) {
+  let conversionKey = initialConversion;
+  let history: PriceHistoryPoint[] = [];
+
+  const element = document.createElement('span');
+  element.classList.add(CONFIG.CSS_CLASSES.PRICE_TREND);
+
+  const sparkline = document.createElement('span');
+  const change24h = document.createElement('span');
+  const change7d = document.createElement('span');
+  element.appendChild(sparkline);
+  element.appendChild(change24h);
+  element.appendChild(change7d);
+
+  const tooltip = createTooltip(element, { title: 'PHORSE price' });
+
+  const render = (): void => {
+    const now = Date.now();
+    const daySeries = getConversionSeries(history, conversionKey, now - 24 * HOUR_MS);
+    const weekSeries = getConversionSeries(history, conversionKey, now - 168 * HOUR_MS);
+
+    // Hide until there is something to chart
+    element.style.display = daySeries.length < 2 ? 'none' : '';
+    if (daySeries.length < 2) return;
+
+    const dayChange = getPercentChange(history, conversionKey, 24, now);
+    const weekChange = getPercentChange(history, conversionKey, 168, now);
+
+    sparkline.innerHTML = createSparklineSvg(daySeries.map(point => point.value), INLINE_CHART);
+    applyChange(change24h, '24h', dayChange);
+    applyChange(change7d, '7d', weekChange);
+
+    const weekValues = weekSeries.map(point => point.value);
+    const currencyName = getConversionInfo(conversionKey).name;
+    tooltip.updateContent({
+      title: `PHORSE / ${currencyName} (7d)`,
+      description: createSparklineSvg(weekValues, { ...TOOLTIP_CHART, fill: true })
+        + `<br>24h: <strong>${formatPercentChange(dayChange)}</strong> · 7d: <strong>${formatPercentChange(weekChange)}</strong>`,
+      additionalInfo: `Low ${formatPrice(Math.min(...weekValues), conversionKey)} · High ${formatPrice(Math.max(...weekValues), conversionKey)} · since ${new Date(weekSeries[0].timestamp).toLocaleDateString()}`
+    });
+  };
+
+  return {
+    element,
+    /** Switches the charted conversion and re-renders */
+    setConversion: (newConversion: ConversionKey) => {
+      conversionKey = newConversion;
+      render();
+    },
+    /** Reloads history from storage (call after each price refresh) */
+    reload: async () => {
+      history = await loadPriceHistory();
+      render();
+    },
+    destroy: () => {
+      tooltip.destroy();
+    }
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Exchange-rate override utilities
+ * Per-currency replacements for the API rate (e.g. the ARS "blue" rate),
+ * registered at runtime and applied by getConvertedPrice
+ */
+
+import { debugLog, getConversionInfo, type ConversionKey } from '../config';
+import { loadRateOverrides } from '../storage';
+
+/**
+ * How an override replaces the API rate
+ * - phorse: fixed price of 1 PHORSE in the currency
+ * - usd: fixed price of 1 USD in the currency, combined with the API PHORSE/USD rate
+ * - multiplier: API rate multiplied by the value
+ */
+export type RateOverrideMode = 'phorse' | 'usd' | 'multiplier';
+
+/**
+ * A user-defined rate override for one currency
+ */
+export interface RateOverride {
+  mode: RateOverrideMode;
+  value: number;
+}
+
+/**
+ * Overrides keyed by conversion key
+ */
+export type RateOverrides = Record<ConversionKey, RateOverride>;
+
+// Labels for the override mode select, in display order
+export const RATE_OVERRIDE_MODE_LABELS: Record<RateOverrideMode, string> = {
+  phorse: '1 PHORSE =',
+  usd: '1 USD =',
+  multiplier: 'API rate ×'
+};
+
+// Overrides registered in this context
+let activeOverrides: RateOverrides = {};
+
+/**
+ * Replaces the registered overrides
+ * @param overrides - Overrides keyed by conversion key
+ */
+export function setRateOverrides(overrides: RateOverrides): void {
+  activeOverrides = { ...overrides };
+}
+
+/**
+ * Gets the registered override for a conversion
+ * @param conversionKey - The conversion key (e.g., 'ars')
+ * @returns The override, or undefined if the API rate is used
+ */
+export function getRateOverride(conversionKey: ConversionKey): RateOverride | undefined {
+  return activeOverrides[conversionKey];
+}
+
+/**
+ * Loads overrides from storage and registers them
+ */
+export async function syncRateOverrides(): Promise<void> {
+  const overrides = await loadRateOverrides();
+  setRateOverrides(overrides);
+  debugLog(`Registered ${Object.keys(overrides).length} rate override(s)`);
+}
+
+/**
+ * Checks that an override value can be used as a rate
+ * @param value - Value as parsed from the settings form
+ * @returns true if the value is a positive finite number
+ */
+export function isValidOverrideValue(value: number): boolean {
+  return Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Describes an override for the settings list and converter tooltip
+ * @param conversionKey - The overridden conversion
+ * @param override - The override
+ * @returns Description such as "1 USD = 1200 ARS" or "ARS API rate × 1.4"
+ */
+export function describeRateOverride(conversionKey: ConversionKey, override: RateOverride): string {
+  const currencyName = getConversionInfo(conversionKey).name;
+
+  switch (override.mode) {
+    case 'phorse':
+      return `1 PHORSE = ${override.value} ${currencyName}`;
+    case 'usd':
+      return `1 USD = ${override.value} ${currencyName}`;
+    case 'multiplier':
+      return `${currencyName} API rate × ${override.value}`;
+  }
+}
@@ -0,0 +1,138 @@
+// ============= SETTINGS SYNC MODULE =============
+// Single Responsibility: Keep this tab in step with preferences changed in other tabs
+// (currency, display mode, pinned currencies and settings modal values)
+
+import { CONFIG, debugLog } from '../config';
+import { loadAllSettings, loadConverterDisplayMode, loadPinnedCurrencies, loadUserPreferredCurrency, watchPreferences, type PreferenceChange } from '../storage';
+import { applyStoredConversion, getDisplayMode, getPinnedConversions } from '../state';
+import { syncCustomTokens } from './custom-tokens';
+import { syncRateOverrides } from './rate-overrides';
+import { syncNumberFormatSettings } from './number-format';
+
+// Storage watcher and pending settings reload
+let unwatchPreferences: (() => void) | null = null;
+let reloadTimeout: ReturnType<typeof setTimeout> | null = null;
+let displayChangePending = false;
+
+// Settings this tab last applied, serialized - storage events for them are echoes
+let appliedSettings = '';
+
+/**
+ * Records the settings this tab has applied
+ * @returns Promise that resolves when the snapshot is taken
+ */
+async function snapshotAppliedSettings(): Promise<void> {
+  appliedSettings = JSON.stringify(await loadAllSettings());
+}
+
+/**
+ * Checks whether the stored display mode and pins differ from this tab's state
+ * @returns Promise that resolves to true if the display state changed elsewhere
+ */
+async function hasDisplayStateChanged(): Promise<boolean> {
+  const [mode, pinned] = await Promise.all([loadConverterDisplayMode(), loadPinnedCurrencies()]);
+  return mode !== getDisplayMode() || pinned.join() !== getPinnedConversions().join();
+}
+
+/**
+ * Reloads settings after storage changes and re-applies them if another tab changed them
+ * Dispatches phorseSettingsChanged so components re-render the same way as after a local save
+ */
+async function reloadSettings(): Promise<void> {
+  const settings = await loadAllSettings();
+  const serialized = JSON.stringify(settings);
+  const settingsChanged = serialized !== appliedSettings;
+  const displayChanged = displayChangePending && await hasDisplayStateChanged();
+  displayChangePending = false;
+
+  if (!settingsChanged && !displayChanged) {
+    return;
+  }
+
+  appliedSettings = serialized;
+
+  if (settingsChanged) {
+    // Registries the modal updates before dispatching its own event
+    await Promise.all([syncCustomTokens(), syncRateOverrides(), syncNumberFormatSettings()]);
+  }
+
+  debugLog('Preferences changed in another tab - re-applying');
+  document.dispatchEvent(new CustomEvent('phorseSettingsChanged', {
+    detail: settings
+  }));
+}
+
+/**
+ * Schedules a debounced settings reload
+ * A modal save writes several items at once - they are applied together
+ */
+function scheduleReload(): void {
+  if (reloadTimeout) {
+    clearTimeout(reloadTimeout);
+  }
+  reloadTimeout = setTimeout(() => {
+    reloadTimeout = null;
+    reloadSettings().catch(error => debugLog('Error syncing settings from storage:', error));
+  }, CONFIG.TIMEOUTS.DEBOUNCE_DELAY);
+}
+
+/**
+ * Handles a preference change reported by storage
+ * @param change - Group of the changed item
+ */
+function handlePreferenceChange(change: PreferenceChange): void {
+  if (change === 'currency') {
+    // Lightweight - listeners re-render converted values without rebuilding components
+    loadUserPreferredCurrency()
+      .then(applyStoredConversion)
+      .catch(error => debugLog('Error syncing currency from storage:', error));
+    return;
+  }
+
+  if (change === 'display') {
+    displayChangePending = true;
+  }
+  scheduleReload();
+}
+
+/**
+ * Local saves are already applied - only remember them so their storage events are skipped
+ */
+function handleLocalSettingsChanged(): void {
+  snapshotAppliedSettings().catch(() => {
+  });
+}
+
+/**
+ * Starts following preference changes made in other tabs
+ * @returns Promise that resolves when the current settings are recorded
+ */
+export async function startSettingsSync(): Promise<void> {
+  if (unwatchPreferences) {
+    debugLog('Settings sync already running');
+    return;
+  }
+
+  await snapshotAppliedSettings();
+  unwatchPreferences = watchPreferences(handlePreferenceChange);
+  document.addEventListener('phorseSettingsChanged', handleLocalSettingsChanged);
+  debugLog('Settings sync started');
+}
+
+/**
+ * Stops following preference changes
+ */
+export function stopSettingsSync(): void {
+  if (!unwatchPreferences) return;
+
+  unwatchPreferences();
+  unwatchPreferences = null;
+
+  if (reloadTimeout) {
+    clearTimeout(reloadTimeout);
+    reloadTimeout = null;
+  }
+
+  document.removeEventListener('phorseSettingsChanged', handleLocalSettingsChanged);
+  debugLog('Settings sync stopped');
+}
@@ -0,0 +1,55 @@
+/**
+ * Sparkline chart utilities
+ * Renders a numeric series as inline SVG markup (usable in elements and tooltips)
+ */
+
+export interface SparklineOptions {
+  width: number;
+  height: number;
+  /** Stroke color; defaults to green when the series rises and red when it falls */
+  color?: string;
+  /** Draw a translucent area under the line */
+  fill?: boolean;
+  strokeWidth?: number;
+}
+
+// Colors match the energy recovery positive/negative text
+const RISING_COLOR = 'rgb(31, 160, 80)';
+const FALLING_COLOR = 'rgb(239, 68, 68)';
+
+/**
+ * Creates SVG markup for a sparkline
+ * @param values - Series values, oldest first
+ * @param options - Size and style options
+ * @returns SVG markup string, or an empty string if fewer than two values
+ * @example
+ * element.innerHTML = createSparklineSvg([1, 3, 2], { width: 48, height: 14 });
+ */
+export function createSparklineSvg(values: number[], options: SparklineOptions): string {
+  if (values.length < 2) {
+    return '';
+  }
+
+  const { width, height, fill = false, strokeWidth = 1.2 } = options;
+  const color = options.color || (values[values.length - 1] >= values[0] ? RISING_COLOR : FALLING_COLOR);
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1; // Flat series draws a horizontal line
+  const padding = strokeWidth;
+
+  const points = values.map((value, index) => {
+    const x = (index / (values.length - 1)) * width;
+    const y = padding + (1 - (value - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const area = fill
+    ? `<polygon points="0,${height} ${points.join(' ')} ${width},${height}" fill="${color}" fill-opacity="0.15" stroke="none"/>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + area
+    + `<polyline points="${points.join(' ')}" fill="none" stroke="${color}" stroke-width="${strokeWidth}" stroke-linejoin="round" stroke-linecap="round"/>`
+    + '</svg>';
+}
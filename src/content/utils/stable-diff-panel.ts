@@ -0,0 +1,138 @@
+// ============= STABLE DIFF PANEL MODULE =============
+// Single Responsibility: Show a dismissible "since your last visit" summary of stable changes
+
+import { CONFIG, debugLog } from '../config';
+import { createIntegratedUi } from '#imports';
+import { createModalHeader } from '../modals/modal-base';
+import { describeHorseChange, type StableDiff } from './stable-diff';
+
+// Panel UI, mounted while the panel is shown
+let panelUi: ReturnType<typeof createIntegratedUi> | null = null;
+
+// Mounted panel element, if shown
+let panel: HTMLElement | null = null;
+
+// Diff the shown panel was built from, to skip rebuilding it for an unchanged diff
+let shownDiff = '';
+
+/**
+ * Creates a panel section with a label and one line per entry
+ * @param label - Section label
+ * @param lines - Section lines
+ * @returns Section element
+ */
+function createSection(label: string, lines: string[]): HTMLElement {
+  const section = document.createElement('div');
+  section.classList.add(CONFIG.CSS_CLASSES.STABLE_DIFF_SECTION);
+
+  const heading = document.createElement('strong');
+  heading.textContent = label;
+  section.appendChild(heading);
+
+  const list = document.createElement('ul');
+  lines.forEach(line => {
+    const item = document.createElement('li');
+    item.textContent = line;
+    list.appendChild(item);
+  });
+  section.appendChild(list);
+
+  return section;
+}
+
+/**
+ * Formats a horse for a panel line
+ * @param horse - Horse id and name
+ * @returns Text such as "#1234 Thunder"
+ */
+function formatHorse(horse: { id: number; name: string; }): string {
+  return `#${horse.id} ${horse.name}`;
+}
+
+/**
+ * Creates the summary panel UI (mounted once an analysis finds changes)
+ * @param ctx - WXT content script context
+ */
+export function createStableDiffPanel(ctx: any): void {
+  if (panelUi) return;
+
+  panelUi = createIntegratedUi(ctx, {
+    position: 'inline',
+    anchor: 'body',
+    append: 'last',
+    onMount: (mountContainer: HTMLElement) => {
+      panel = mountContainer;
+      mountContainer.classList.add(CONFIG.CSS_CLASSES.STABLE_DIFF_PANEL);
+    },
+    onRemove: () => {
+      panel = null;
+      shownDiff = '';
+    }
+  });
+}
+
+/**
+ * Shows the summary panel, replacing the content of one already shown
+ * Does nothing until createStableDiffPanel has run; the next analysis shows it
+ * @param diff - Changes since the last session
+ * @param onDismiss - Called when the user closes the panel
+ */
+export function showStableDiffPanel(diff: StableDiff, onDismiss: () => void): void {
+  if (!panelUi) return;
+
+  const diffKey = JSON.stringify({ ...diff, since: undefined });
+  if (panel && diffKey === shownDiff) return;
+
+  if (!panel) {
+    panelUi.mount();
+  }
+  if (!panel) return;
+
+  shownDiff = diffKey;
+  const ui = panelUi;
+  panel.innerHTML = '';
+  panel.appendChild(createModalHeader('Since your last visit', () => {
+    ui.remove();
+    onDismiss();
+  }));
+
+  const body = document.createElement('div');
+  body.classList.add(CONFIG.CSS_CLASSES.STABLE_DIFF_BODY);
+
+  const note = document.createElement('p');
+  note.classList.add(CONFIG.CSS_CLASSES.LEDGER_NOTE);
+  note.textContent = `Compared with your stable on ${new Date(diff.since).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })}`;
+  body.appendChild(note);
+
+  if (diff.gained.length > 0) {
+    body.appendChild(createSection('New horses', diff.gained.map(formatHorse)));
+  }
+  if (diff.lost.length > 0) {
+    body.appendChild(createSection('Horses gone', diff.lost.map(formatHorse)));
+  }
+  if (diff.changes.length > 0) {
+    body.appendChild(createSection('Changes', diff.changes.map(change =>
+      `${formatHorse(change)}: ${describeHorseChange(change).join(', ')}`
+    )));
+  }
+
+  panel.appendChild(body);
+  debugLog(`Stable diff shown: +${diff.gained.length} -${diff.lost.length}, ${diff.changes.length} changed`);
+}
+
+/**
+ * Removes the summary panel and its UI
+ */
+export function cleanupStableDiffPanel(): void {
+  if (panelUi) {
+    panelUi.remove();
+    panelUi = null;
+  }
+  panel = null;
+  shownDiff = '';
+}
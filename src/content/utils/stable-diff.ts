@@ -0,0 +1,165 @@
+/**
+ * Stable diff utilities
+ * Compares the analysis stored by the last session with the latest one of this
+ * session: horses gained or lost, levels, EXP, status, breeds and items used up
+ */
+
+import type { StoredHorseAnalysis, StoredHorseInfo } from '../storage';
+
+/**
+ * A value before and after
+ */
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+/**
+ * An item of which fewer are equipped than last time
+ */
+export interface ItemUsage {
+  name: string;
+  used: number;
+}
+
+/**
+ * Changes of a horse present in both analyses
+ */
+export interface HorseChange {
+  id: number;
+  name: string;
+  level: ValueChange<number> | null;
+  exp: ValueChange<string> | null;     // "current/required"
+  status: ValueChange<string> | null;
+  breedsUsed: number;
+  itemsUsed: ItemUsage[];
+}
+
+/**
+ * Everything that changed between two analyses
+ */
+export interface StableDiff {
+  since: string;                         // ISO timestamp of the previous analysis
+  gained: Array<{ id: number; name: string; }>;
+  lost: Array<{ id: number; name: string; }>;
+  changes: HorseChange[];                // Only horses with at least one change
+}
+
+/**
+ * Counts items by name - an item without a quantity counts as one
+ * @param horse - Stored horse
+ * @returns Item name to count
+ */
+function countItems(horse: StoredHorseInfo): Map<string, number> {
+  const counts = new Map<string, number>();
+  horse.items.forEach(item => {
+    counts.set(item.name, (counts.get(item.name) ?? 0) + (item.quantity ?? 1));
+  });
+  return counts;
+}
+
+/**
+ * Compares one horse in both analyses
+ * @param previous - Horse in the previous analysis
+ * @param current - Horse in the current analysis
+ * @returns Changes, or null if nothing tracked changed
+ */
+function diffHorse(previous: StoredHorseInfo, current: StoredHorseInfo): HorseChange | null {
+  const previousExp = `${previous.stats.exp.current}/${previous.stats.exp.required}`;
+  const currentExp = `${current.stats.exp.current}/${current.stats.exp.required}`;
+
+  const currentItems = countItems(current);
+  const itemsUsed: ItemUsage[] = [];
+  countItems(previous).forEach((count, name) => {
+    const used = count - (currentItems.get(name) ?? 0);
+    if (used > 0) {
+      itemsUsed.push({ name, used });
+    }
+  });
+
+  const change: HorseChange = {
+    id: current.id,
+    name: current.name,
+    level: previous.stats.level !== current.stats.level ? { from: previous.stats.level, to: current.stats.level } : null,
+    exp: previousExp !== currentExp ? { from: previousExp, to: currentExp } : null,
+    status: previous.status !== current.status ? { from: previous.status, to: current.status } : null,
+    breedsUsed: Math.max(0, current.breeds.used - previous.breeds.used),
+    itemsUsed
+  };
+
+  const changed = change.level || change.exp || change.status || change.breedsUsed > 0 || itemsUsed.length > 0;
+  return changed ? change : null;
+}
+
+/**
+ * Compares two analyses
+ * A horse is only lost once the current analysis no longer holds it - the merged analysis keeps
+ * horses a partial view left out, and drops them only after every view of a retention window missed them
+ * @param previous - Analysis stored by the last session
+ * @param current - Merged analysis of this session (see mergeHorseAnalysis)
+ * @returns Differences, horses in current order
+ */
+export function diffStableAnalyses(previous: StoredHorseAnalysis, current: StoredHorseAnalysis): StableDiff {
+  const previousById = new Map(previous.horses.map(horse => [horse.id, horse]));
+  const currentIds = new Set(current.horses.map(horse => horse.id));
+
+  const changes: HorseChange[] = [];
+  const gained: StableDiff['gained'] = [];
+  current.horses.forEach(horse => {
+    const previousHorse = previousById.get(horse.id);
+    if (!previousHorse) {
+      gained.push({ id: horse.id, name: horse.name });
+      return;
+    }
+    const change = diffHorse(previousHorse, horse);
+    if (change) {
+      changes.push(change);
+    }
+  });
+
+  return {
+    since: previous.timestamp,
+    gained,
+    lost: previous.horses.filter(horse => !currentIds.has(horse.id)).map(horse => ({ id: horse.id, name: horse.name })),
+    changes
+  };
+}
+
+/**
+ * Checks whether a diff has anything to show
+ * @param diff - Stable diff
+ * @returns true if any horse was gained, lost or changed
+ */
+export function hasStableChanges(diff: StableDiff): boolean {
+  return diff.gained.length > 0 || diff.lost.length > 0 || diff.changes.length > 0;
+}
+
+/**
+ * Describes the changes of a horse
+ * @param change - Horse changes
+ * @returns One phrase per change
+ * @example
+ * describeHorseChange(change) // ['Level 5 → 7 (+2)', 'EXP 120/300 → 40/400', 'Racing → Resting', '1 breed used', 'Used 2× Hay']
+ */
+export function describeHorseChange(change: HorseChange): string[] {
+  const parts: string[] = [];
+
+  if (change.level) {
+    const gained = change.level.to - change.level.from;
+    parts.push(`Level ${change.level.from} → ${change.level.to} (${gained > 0 ? '+' : ''}${gained})`);
+  }
+  if (change.exp) {
+    parts.push(`EXP ${change.exp.from} → ${change.exp.to}`);
+  }
+  if (change.status) {
+    parts.push(`${change.status.from || 'Unknown'} → ${change.status.to || 'Unknown'}`);
+  }
+  if (change.breedsUsed > 0) {
+    parts.push(`${change.breedsUsed} breed${change.breedsUsed === 1 ? '' : 's'} used`);
+  }
+  if (change.itemsUsed.length > 0) {
+    parts.push(`Used ${change.itemsUsed.map(item => `${item.used}× ${item.name}`).join(', ')}`);
+  }
+
+  return parts;
+}
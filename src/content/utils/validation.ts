@@ -3,7 +3,7 @@
  * Extracted from state.ts and storage.ts to eliminate code duplication
  */
 
-import { CONFIG, type ConversionKey } from '../config';
+import { CONFIG, getAllTokens, type ConversionKey } from '../config';
 import { loadEnabledCurrencies } from '../storage';
 
 /**
@@ -14,7 +14,7 @@ import { loadEnabledCurrencies } from '../storage';
  */
 export function getAllValidConversions(): ConversionKey[] {
   const fiatTypes = Object.keys(CONFIG.CONVERSION_TYPES.fiat);
-  const tokenTypes = Object.keys(CONFIG.CONVERSION_TYPES.tokens);
+  const tokenTypes = Object.keys(getAllTokens());
   return [...fiatTypes, ...tokenTypes];
 }
 
@@ -73,7 +73,7 @@ export function getFiatConversions(): ConversionKey[] {
  * @returns Array of token conversion keys  
  */
 export function getTokenConversions(): ConversionKey[] {
-  return Object.keys(CONFIG.CONVERSION_TYPES.tokens);
+  return Object.keys(getAllTokens());
 }
 
 /**
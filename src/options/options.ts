@@ -0,0 +1,36 @@
+// ============= OPTIONS PAGE =============
+// Single Responsibility: Edit the same settings as the in-game modal from a standalone
+// extension page, available even when the game's DOM changed or the gear button is hidden
+
+import { CONFIG, debugLog } from '../content/config';
+import type { AllSettings } from '../content/storage';
+import { createSettingsForm, refreshSettingsForm } from '../content/modals/settings-form';
+
+/**
+ * Logs a save from the options page
+ * Open game tabs apply it themselves through the storage watcher (settings-sync)
+ * @param settings - Settings that were just saved
+ */
+function handleSettingsSaved(settings: AllSettings): void {
+  debugLog('Settings saved from options page:', settings);
+}
+
+/**
+ * Renders the settings form into the options page
+ * @param root - Options page root element
+ * @returns Promise that resolves when stored settings are shown
+ */
+export async function renderOptionsPage(root: HTMLElement): Promise<void> {
+  const content = document.createElement('div');
+  content.classList.add(CONFIG.CSS_CLASSES.MODAL_CONTENT, CONFIG.CSS_CLASSES.OPTIONS_PAGE);
+
+  const header = document.createElement('div');
+  header.classList.add(CONFIG.CSS_CLASSES.MODAL_HEADER);
+  header.textContent = 'PlanetHorse+ Settings';
+
+  content.appendChild(header);
+  content.appendChild(createSettingsForm(handleSettingsSaved));
+  root.replaceChildren(content);
+
+  await refreshSettingsForm();
+}
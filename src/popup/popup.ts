@@ -0,0 +1,250 @@
+// ============= TOOLBAR POPUP =============
+// Single Responsibility: Summarize stored balance, horse energy and the recharge
+// schedule without opening the game
+
+import { CONFIG, debugLog, getConversionDisplayText } from '../content/config';
+import { fetchAllTokenPrices, getConvertedPrice } from '../content/api';
+import { getCurrentConversion, initializeConversionState } from '../content/state';
+import { loadHorseAnalysisData, loadLastBalance, type StoredBalance, type StoredHorseAnalysis } from '../content/storage';
+import { syncCustomTokens } from '../content/utils/custom-tokens';
+import { syncRateOverrides } from '../content/utils/rate-overrides';
+import { formatNumber, syncNumberFormatSettings } from '../content/utils/number-format';
+import { formatPrice, formatTime } from '../content/utils/formatting';
+import { getNextEnergyRecharge, summarizeHorseEnergy } from '../content/utils/energy-status';
+import { describeRpcError } from '../shared/rpc';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Countdown refresh while the popup stays open
+const COUNTDOWN_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Formats how long ago something was stored
+ * @param timestamp - Epoch milliseconds
+ * @param now - Reference time in epoch milliseconds
+ * @returns Relative time such as "5 min ago" or "2 d ago"
+ */
+function formatAge(timestamp: number, now: number): string {
+  const age = Math.max(0, now - timestamp);
+  if (age < MINUTE_MS) return 'just now';
+  if (age < HOUR_MS) return `${Math.floor(age / MINUTE_MS)} min ago`;
+  if (age < 24 * HOUR_MS) return `${Math.floor(age / HOUR_MS)} h ago`;
+  return `${Math.floor(age / (24 * HOUR_MS))} d ago`;
+}
+
+/**
+ * Formats a remaining duration
+ * @param ms - Remaining milliseconds
+ * @returns Duration such as "2h 05m" or "45m"
+ */
+function formatCountdown(ms: number): string {
+  const totalMinutes = Math.max(0, Math.ceil(ms / MINUTE_MS));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+/**
+ * Describes when stored data was recorded, flagging outdated data
+ * @param timestamp - Epoch milliseconds when the data was stored
+ * @param now - Reference time in epoch milliseconds
+ * @returns Note such as "Seen 5 min ago" or "Seen 2 d ago - open the game to update"
+ */
+function describeDataAge(timestamp: number, now: number): string {
+  const seen = `Seen ${formatAge(timestamp, now)}`;
+  return now - timestamp > CONFIG.POPUP.STALE_AFTER_HOURS * HOUR_MS ? `${seen} - open the game to update` : seen;
+}
+
+/**
+ * Creates a titled popup section
+ * @param title - Section title
+ * @returns Section element
+ */
+function createSection(title: string): HTMLElement {
+  const section = document.createElement('section');
+  section.classList.add(CONFIG.CSS_CLASSES.POPUP_SECTION);
+
+  const heading = document.createElement('h2');
+  heading.textContent = title;
+  section.appendChild(heading);
+
+  return section;
+}
+
+/**
+ * Creates a label/value row
+ * @param label - Row label
+ * @param value - Row value
+ * @returns Row element; its value element has the POPUP_VALUE class
+ */
+function createRow(label: string, value: string): HTMLElement {
+  const row = document.createElement('div');
+  row.classList.add(CONFIG.CSS_CLASSES.POPUP_ROW);
+
+  const labelElement = document.createElement('span');
+  labelElement.textContent = label;
+
+  const valueElement = document.createElement('span');
+  valueElement.classList.add(CONFIG.CSS_CLASSES.POPUP_VALUE);
+  valueElement.textContent = value;
+
+  row.appendChild(labelElement);
+  row.appendChild(valueElement);
+  return row;
+}
+
+/**
+ * Creates a secondary note line
+ * @param text - Note text
+ * @returns Note element
+ */
+function createNote(text: string): HTMLElement {
+  const note = document.createElement('p');
+  note.classList.add(CONFIG.CSS_CLASSES.POPUP_NOTE);
+  note.textContent = text;
+  return note;
+}
+
+/**
+ * Renders the last known balance and its value in the current currency
+ * @param stored - Last known balance, or null if never seen
+ * @param now - Reference time in epoch milliseconds
+ * @returns Balance section
+ */
+async function renderBalanceSection(stored: StoredBalance | null, now: number): Promise<HTMLElement> {
+  const section = createSection('Balance');
+
+  if (!stored) {
+    section.appendChild(createNote('Open the game with your wallet connected to record your balance.'));
+    return section;
+  }
+
+  section.appendChild(createRow('PHORSE', formatNumber(stored.balance)));
+
+  const conversion = getCurrentConversion();
+  const label = getConversionDisplayText(conversion, 'name');
+  try {
+    await fetchAllTokenPrices();
+    section.appendChild(createRow(label, formatPrice(getConvertedPrice(conversion, stored.balance), conversion)));
+  } catch (error) {
+    debugLog('Popup price request failed:', error);
+    section.appendChild(createRow(label, `unavailable (${describeRpcError(error)})`));
+  }
+
+  section.appendChild(createNote(describeDataAge(stored.timestamp, now)));
+  return section;
+}
+
+/**
+ * Renders horse energy counts from the stored horse analysis
+ * @param analysis - Stored horse analysis, or null if never recorded
+ * @param now - Reference time in epoch milliseconds
+ * @returns Horses section
+ */
+function renderHorsesSection(analysis: StoredHorseAnalysis | null, now: number): HTMLElement {
+  const section = createSection('Horses');
+
+  if (!analysis || analysis.horses.length === 0) {
+    section.appendChild(createNote('Open your horses in the game to record their energy.'));
+    return section;
+  }
+
+  const storedAt = new Date(analysis.timestamp).getTime();
+  const summary = summarizeHorseEnergy(analysis.horses, storedAt, now);
+
+  section.appendChild(createRow('Full energy', String(summary.full)));
+  section.appendChild(createRow('Wasting energy', String(summary.wasting)));
+  section.appendChild(createRow('Racing / working', String(summary.losing)));
+  section.appendChild(createRow('Total', String(summary.total)));
+  section.appendChild(createNote(`${describeDataAge(storedAt, now)} · energy projected to now`));
+  return section;
+}
+
+/**
+ * Renders the estimated time until the next energy recharge, updated while the popup is open
+ * @returns Recharge section
+ */
+function renderRechargeSection(): HTMLElement {
+  const section = createSection('Next recharge (estimated)');
+  const row = createRow('', '');
+  section.appendChild(row);
+
+  const [timeElement, countdownElement] = Array.from(row.children) as HTMLElement[];
+
+  const update = (): void => {
+    const now = Date.now();
+    const nextRecharge = getNextEnergyRecharge(now);
+    timeElement.textContent = `at ~${formatTime(nextRecharge)}`;
+    countdownElement.textContent = `in ~${formatCountdown(nextRecharge - now)}`;
+  };
+
+  update();
+  setInterval(update, COUNTDOWN_INTERVAL_MS);
+  return section;
+}
+
+/**
+ * Renders links to the game, the horse marketplaces and the options page
+ * @returns Links element
+ */
+function renderLinks(): HTMLElement {
+  const links = document.createElement('nav');
+  links.classList.add(CONFIG.CSS_CLASSES.POPUP_LINKS);
+
+  const { RONIN_BASE, RONIN_ORIGIN_HORSES, RONIN_OFFSPRING } = CONFIG.MARKETPLACE_URLS;
+  const targets = [
+    { label: '🐴 Open game', url: CONFIG.POPUP.GAME_URL },
+    { label: 'Origin horses market', url: `${RONIN_BASE}${RONIN_ORIGIN_HORSES}` },
+    { label: 'Offspring market', url: `${RONIN_BASE}${RONIN_OFFSPRING}` }
+  ];
+
+  targets.forEach(({ label, url }) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.textContent = label;
+    link.addEventListener('click', (e: Event) => {
+      e.preventDefault();
+      chrome.tabs.create({ url });
+      window.close();
+    });
+    links.appendChild(link);
+  });
+
+  // Settings also work without the game open
+  const settingsLink = document.createElement('a');
+  settingsLink.href = '#';
+  settingsLink.textContent = '⚙️ Settings';
+  settingsLink.addEventListener('click', (e: Event) => {
+    e.preventDefault();
+    chrome.runtime.openOptionsPage();
+    window.close();
+  });
+  links.appendChild(settingsLink);
+
+  return links;
+}
+
+/**
+ * Renders the popup summary into the given element
+ * @param root - Popup root element
+ * @returns Promise that resolves when the summary is rendered
+ */
+export async function renderPopup(root: HTMLElement): Promise<void> {
+  root.classList.add(CONFIG.CSS_CLASSES.POPUP);
+
+  // Same registries and currency as the game tabs
+  await Promise.all([syncCustomTokens(), syncRateOverrides(), syncNumberFormatSettings()]);
+  await initializeConversionState();
+
+  const now = Date.now();
+  const [balance, analysis] = await Promise.all([loadLastBalance(), loadHorseAnalysisData()]);
+
+  const balanceSection = await renderBalanceSection(balance, now);
+  root.replaceChildren(
+    balanceSection,
+    renderHorsesSection(analysis, now),
+    renderRechargeSection(),
+    renderLinks()
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * RPC client for content scripts and extension pages
+ * Sends typed requests to the background worker and subscribes to its pushed events
+ */
+
+import { CONFIG } from '../content/config';
+import {
+  RPC_VERSION,
+  createRpcError,
+  isRpcEventMessage,
+  type RpcEventName,
+  type RpcEvents,
+  type RpcMethod,
+  type RpcParams,
+  type RpcRequest,
+  type RpcResponse,
+  type RpcResult
+} from './rpc';
+
+// Methods without params are called without a second argument
+type RpcArgs<M extends RpcMethod> = RpcParams<M> extends undefined ? [] : [params: RpcParams<M>];
+
+/**
+ * Calls a background RPC method
+ * @param method - Registered method name
+ * @param args - Method params, omitted for methods without params
+ * @returns The method result
+ * @throws {RpcError} With the handler's error code, TIMEOUT or DISCONNECTED
+ * @example
+ * const cache = await callRpc('prices.get');
+ */
+export function callRpc<M extends RpcMethod>(method: M, ...args: RpcArgs<M>): Promise<RpcResult<M>> {
+  const request: RpcRequest<M> = { rpc: RPC_VERSION, method, params: args[0] as RpcParams<M> };
+
+  return new Promise<RpcResult<M>>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      reject(createRpcError('TIMEOUT', `${method} timed out`));
+    }, CONFIG.PRICE_CACHE.REQUEST_TIMEOUT_MS);
+
+    chrome.runtime.sendMessage(request, (response: RpcResponse<M> | undefined) => {
+      clearTimeout(timeoutId);
+
+      if (chrome.runtime.lastError || !response) {
+        reject(createRpcError('DISCONNECTED', chrome.runtime.lastError?.message || `${method} got no response`));
+        return;
+      }
+
+      if (!response.ok) {
+        reject(createRpcError(response.error.code, response.error.message));
+        return;
+      }
+
+      resolve(response.result);
+    });
+  });
+}
+
+/**
+ * Subscribes to an event pushed by the background worker
+ * @param event - Event name
+ * @param listener - Called with the event payload
+ * @returns Unsubscribe function
+ */
+export function onRpcEvent<E extends RpcEventName>(event: E, listener: (payload: RpcEvents[E]) => void): () => void {
+  const messageListener = (msg: unknown): boolean => {
+    if (isRpcEventMessage(msg) && msg.event === event) {
+      listener(msg.payload as RpcEvents[E]);
+    }
+    return false;
+  };
+
+  chrome.runtime.onMessage.addListener(messageListener);
+  return () => {
+    chrome.runtime.onMessage.removeListener(messageListener);
+  };
+}
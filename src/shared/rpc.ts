@@ -0,0 +1,168 @@
+/**
+ * Background RPC protocol
+ * Request/response and event types shared by the background worker, content scripts
+ * and extension pages. Every message carries RPC_VERSION so both sides can reject
+ * messages from an incompatible build.
+ */
+
+import type { StoredPriceCache } from '../content/storage';
+import type { PriceAlertRule } from '../content/utils/price-alerts';
+import type { HotkeyAction } from '../content/utils/hotkeys';
+
+// Bump when a method's params or result change incompatibly
+export const RPC_VERSION = 1;
+
+/**
+ * Registered methods with their params and result types
+ * Methods without params use `undefined`
+ */
+export interface RpcMethods {
+  /** Shared price cache, refreshed first if missing or older than its TTL */
+  'prices.get': { params: undefined; result: StoredPriceCache };
+  /** Forces a price refetch; every open game tab also receives prices.updated */
+  'prices.refresh': { params: undefined; result: StoredPriceCache };
+  /** User-defined price alert rules */
+  'alerts.list': { params: undefined; result: PriceAlertRule[] };
+  /** Shortcut configured for each command ('' if unassigned) */
+  'commands.list': { params: undefined; result: Partial<Record<HotkeyAction, string>> };
+}
+
+export type RpcMethod = keyof RpcMethods;
+export type RpcParams<M extends RpcMethod> = RpcMethods[M]['params'];
+export type RpcResult<M extends RpcMethod> = RpcMethods[M]['result'];
+
+/**
+ * Events pushed by the background worker to open game tabs, with their payloads
+ */
+export interface RpcEvents {
+  'prices.updated': StoredPriceCache;
+  /** Keyboard shortcut command pressed while this tab was active */
+  'commands.triggered': HotkeyAction;
+}
+
+export type RpcEventName = keyof RpcEvents;
+
+/**
+ * Machine-readable failure reasons
+ * - UNSUPPORTED_VERSION: message built for another RPC_VERSION
+ * - UNKNOWN_METHOD: no handler registered for the method
+ * - INVALID_PARAMS: params rejected by the handler's validator
+ * - FORBIDDEN: sender is not an extension page or an allowed host
+ * - UPSTREAM_FAILED: an external API (e.g. price provider) failed
+ * - INTERNAL: unexpected handler error
+ * - TIMEOUT: no response within the client timeout
+ * - DISCONNECTED: background worker unreachable (e.g. extension reloaded)
+ */
+export type RpcErrorCode =
+  | 'UNSUPPORTED_VERSION'
+  | 'UNKNOWN_METHOD'
+  | 'INVALID_PARAMS'
+  | 'FORBIDDEN'
+  | 'UPSTREAM_FAILED'
+  | 'INTERNAL'
+  | 'TIMEOUT'
+  | 'DISCONNECTED';
+
+/**
+ * Serializable error sent in failed responses
+ */
+export interface RpcErrorPayload {
+  code: RpcErrorCode;
+  message: string;
+}
+
+/**
+ * Error thrown by RPC handlers and rejected by the client
+ */
+export interface RpcError extends Error {
+  code: RpcErrorCode;
+}
+
+export interface RpcRequest<M extends RpcMethod = RpcMethod> {
+  rpc: typeof RPC_VERSION;
+  method: M;
+  params: RpcParams<M>;
+}
+
+export type RpcResponse<M extends RpcMethod = RpcMethod> =
+  | { ok: true; result: RpcResult<M> }
+  | { ok: false; error: RpcErrorPayload };
+
+export interface RpcEventMessage<E extends RpcEventName = RpcEventName> {
+  rpc: typeof RPC_VERSION;
+  event: E;
+  payload: RpcEvents[E];
+}
+
+// Short user-facing descriptions for status lines
+const RPC_ERROR_DESCRIPTIONS: Record<RpcErrorCode, string> = {
+  UNSUPPORTED_VERSION: 'reload the page',
+  UNKNOWN_METHOD: 'reload the page',
+  INVALID_PARAMS: 'invalid request',
+  FORBIDDEN: 'not allowed',
+  UPSTREAM_FAILED: 'price API unavailable',
+  INTERNAL: 'extension error',
+  TIMEOUT: 'no response',
+  DISCONNECTED: 'extension unavailable'
+};
+
+/**
+ * Creates an error carrying an RPC error code
+ * @param code - Failure reason
+ * @param message - Details for logs
+ * @returns RpcError instance
+ * @example
+ * throw createRpcError('UPSTREAM_FAILED', 'No price provider returned a PHORSE rate');
+ */
+export function createRpcError(code: RpcErrorCode, message: string): RpcError {
+  const error = new Error(message) as RpcError;
+  error.name = 'RpcError';
+  error.code = code;
+  return error;
+}
+
+/**
+ * Checks whether an error carries an RPC error code
+ * @param error - Caught value
+ * @returns true if the error came from createRpcError
+ */
+export function isRpcError(error: unknown): error is RpcError {
+  return error instanceof Error && typeof (error as Partial<RpcError>).code === 'string' && error.name === 'RpcError';
+}
+
+/**
+ * Describes an error for a short status line
+ * @param error - Caught value
+ * @returns Description such as "price API unavailable"
+ */
+export function describeRpcError(error: unknown): string {
+  return isRpcError(error) ? RPC_ERROR_DESCRIPTIONS[error.code] : 'request failed';
+}
+
+/**
+ * Checks whether a runtime message is an RPC request (any version)
+ * @param msg - Incoming runtime message
+ * @returns true if the message has the request shape
+ */
+export function isRpcRequest(msg: unknown): msg is { rpc: unknown; method: unknown; params?: unknown } {
+  return typeof msg === 'object' && msg !== null && 'rpc' in msg && 'method' in msg;
+}
+
+/**
+ * Checks whether a runtime message is an RPC event of the current version
+ * @param msg - Incoming runtime message
+ * @returns true if the message is an event this build understands
+ */
+export function isRpcEventMessage(msg: unknown): msg is RpcEventMessage {
+  return typeof msg === 'object' && msg !== null && (msg as Partial<RpcEventMessage>).rpc === RPC_VERSION && 'event' in msg;
+}
+
+/**
+ * Creates an event message for broadcasting to tabs
+ * @param event - Event name
+ * @param payload - Event payload
+ * @returns Versioned event message
+ */
+export function createRpcEvent<E extends RpcEventName>(event: E, payload: RpcEvents[E]): RpcEventMessage<E> {
+  return { rpc: RPC_VERSION, event, payload };
+}
@@ -14,11 +14,40 @@ export default defineConfig({
     },
     
     // Permissions
-    permissions: ['storage'],
+    permissions: ['storage', 'alarms', 'notifications'],
     host_permissions: [
-      'https://exchange-rate.skymavis.com/*'
+      'https://exchange-rate.skymavis.com/*',
+      'https://api.coingecko.com/*', // Fallback price provider
+      '*://planethorse.io/*' // Needed to push price updates to open game tabs
     ],
 
+    // Keyboard shortcuts (changed at chrome://extensions/shortcuts, at most 4 suggested keys)
+    // Game tabs also match them in-page - defaults mirror CONFIG.HOTKEYS.DEFAULT_SHORTCUTS
+    commands: {
+      'cycle-currency': {
+        suggested_key: { default: 'Alt+Shift+C' },
+        description: 'Switch to the next enabled currency'
+      },
+      'toggle-settings': {
+        suggested_key: { default: 'Alt+Shift+S' },
+        description: 'Open or close the settings'
+      },
+      'refresh-prices': {
+        suggested_key: { default: 'Alt+Shift+R' },
+        description: 'Refresh prices'
+      },
+      'toggle-energy-info': {
+        suggested_key: { default: 'Alt+Shift+E' },
+        description: 'Show or hide energy recovery info'
+      },
+      'toggle-marketplace-links': {
+        description: 'Show or hide marketplace links'
+      },
+      'toggle-dashboard': {
+        description: 'Open or close the stable dashboard'
+      }
+    },
+
     // Content Security Policy
     content_security_policy: {
       extension_pages: "script-src 'self'; style-src 'self' 'unsafe-inline'; object-src 'none';"